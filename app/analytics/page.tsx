@@ -4,16 +4,28 @@ import { useState, useMemo } from "react";
 import { useStore } from "@/store/useStore";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
-import { ArrowLeft, TrendingUp, Activity, Calendar } from "lucide-react";
+import { ArrowLeft, TrendingUp, Activity, Calendar, CalendarCheck } from "lucide-react";
 import Link from "next/link";
 import { TrendsChart } from "@/components/TrendsChart";
 import { ActivityHeatmap } from "@/components/ActivityHeatmap";
-import NeuroCurveVisualization, { parsePharmacokineticString } from "@/components/NeuroCurveVisualization";
+import NeuroCurveVisualization from "@/components/NeuroCurveVisualization";
 import SmartActionChatWidget from "@/components/SmartActionChatWidget";
+import { getDoseScale, type TimedDose } from "@/lib/pharmacokinetics";
+import { createKineticsSampler, resolveCompoundKinetics } from "@/lib/compound-kinetics";
+import { fitKinetics, ratingScore } from "@/lib/pk-calibration";
+import { getPotencyByDay, getToleranceProfile } from "@/lib/tolerance";
+import { getEffectVector } from "@/lib/pharmacodynamics";
+import { evaluateAdherence, summarizeAdherence } from "@/lib/adherence";
+import { addDays, toLocalDateString, zonedTimestamp } from "@/lib/dates";
+import { getCurrentTimeZone } from "@/lib/travel";
+import type { Compound } from "@/lib/types";
+
+const ADHERENCE_WINDOW_DAYS = 30;
 
 export default function AnalyticsPage() {
-  const { logEntries, compounds, stackPresets } = useStore();
+  const { logEntries, compounds, stackPresets, schedules, settings } = useStore();
   const [showNeuroCurve, setShowNeuroCurve] = useState(false);
+  const [neuroCurveDays, setNeuroCurveDays] = useState<1 | 3 | 7>(1);
 
   const stats = useMemo(() => {
     const totalLogs = logEntries.length;
@@ -30,41 +42,75 @@ export default function AnalyticsPage() {
     return { totalLogs, uniqueDays, avgAnxiety, avgFunctionality };
   }, [logEntries]);
 
-  // Prepare data for Neuro-Curve visualization from today's stack
+  // Scheduled vs. logged doses over the last 30 days
+  const adherence = useMemo(() => {
+    const now = Date.now();
+    const { slots, extra } = evaluateAdherence(
+      schedules,
+      stackPresets,
+      logEntries,
+      now - ADHERENCE_WINDOW_DAYS * 24 * 60 * 60 * 1000,
+      now,
+      settings
+    );
+    return summarizeAdherence(slots, extra)
+      .map((summary) => ({ ...summary, compound: compounds.find((c) => c.id === summary.compoundId) }))
+      .filter((summary) => summary.compound);
+  }, [schedules, stackPresets, logEntries, compounds, settings]);
+
+  // The Neuro-Curve follows the clock where the user is (the destination while travelling)
+  const neuroCurveTimeZone = getCurrentTimeZone(settings);
+
+  // Start of the Neuro-Curve window: local midnight, (days - 1) days ago
+  const neuroCurveWindowStart = useMemo(() => {
+    const today = toLocalDateString(Date.now(), neuroCurveTimeZone);
+    return zonedTimestamp(addDays(today, -(neuroCurveDays - 1)), "00:00", neuroCurveTimeZone);
+  }, [neuroCurveDays, neuroCurveTimeZone]);
+
+  // Prepare data for Neuro-Curve visualization from the full dosing history
+  // (the simulation keeps only doses that still contribute to the window)
   const neuroCurveData = useMemo(() => {
-    // Get today's logs
-    const today = new Date().toISOString().split('T')[0];
-    const todayLogs = logEntries.filter(log => log.date === today);
-    
-    if (todayLogs.length === 0) return [];
+    const windowEnd = neuroCurveWindowStart + neuroCurveDays * 24 * 60 * 60 * 1000;
+    const compoundDoses = new Map<string, { compound: Compound; doses: TimedDose[] }>();
+    // Every log's ratings calibrate the curves of the compounds dosed before it
+    const ratings = logEntries.map(log => ({ timestamp: log.timestamp, score: ratingScore(log) }));
 
-    // Aggregate compounds from today's logs
-    const compoundDoses = new Map();
-    todayLogs.forEach(log => {
+    logEntries.forEach(log => {
       log.doseItems.forEach(item => {
         const compound = compounds.find(c => c.id === item.compoundId);
-        if (compound) {
-          const doseTime = new Date(item.timestamp).getHours();
-          compoundDoses.set(compound.id, {
-            name: compound.name,
-            color: compound.colorHex,
-            doseTime,
+        if (compound && item.timestamp < windowEnd) {
+          const entry = compoundDoses.get(compound.id) ?? { compound, doses: [] };
+          entry.doses.push({
+            timestamp: item.timestamp,
+            doseScale: getDoseScale(item.dose, compound.defaultDose),
           });
+          compoundDoses.set(compound.id, entry);
         }
       });
     });
 
-    // For demo purposes, using estimated pharmacokinetics
-    // In production, would fetch from compound library
-    return Array.from(compoundDoses.values()).map((data, idx) => ({
-      name: data.name,
-      color: data.color,
-      onsetMinutes: 30,
-      peakMinutes: 120,
-      durationMinutes: 360,
-      doseTime: data.doseTime,
-    }));
-  }, [logEntries, compounds]);
+    return Array.from(compoundDoses.values())
+      .filter((data) => data.doses.some((dose) => dose.timestamp >= neuroCurveWindowStart))
+      .map((data) => {
+        const kinetics = resolveCompoundKinetics(data.compound);
+        return {
+          name: data.compound.name,
+          color: data.compound.colorHex,
+          kinetics,
+          doses: data.doses,
+          calibration: fitKinetics(kinetics, data.doses, ratings),
+          sampleKinetics: createKineticsSampler(data.compound),
+          potencyByDay: getPotencyByDay(
+            data.doses,
+            getToleranceProfile(data.compound),
+            neuroCurveWindowStart,
+            neuroCurveDays,
+            neuroCurveTimeZone
+          ),
+          effects: getEffectVector(data.compound),
+        };
+      });
+  }, [logEntries, compounds, neuroCurveWindowStart, neuroCurveDays, neuroCurveTimeZone]);
 
   // Prepare stack data for chat context
   const stackDataForChat = useMemo(() => {
@@ -184,14 +230,78 @@ export default function AnalyticsPage() {
           </CardContent>
         </Card>
 
+        {/* Schedule Adherence */}
+        {adherence.length > 0 && (
+          <Card className="glass border-slate-800">
+            <CardHeader>
+              <CardTitle className="text-base sm:text-lg flex items-center gap-2">
+                <CalendarCheck className="w-5 h-5 text-cyan-400" />
+                Adherence (Last {ADHERENCE_WINDOW_DAYS} Days)
+              </CardTitle>
+            </CardHeader>
+            <CardContent>
+              <div className="space-y-4">
+                {adherence.map((summary) => (
+                  <div key={summary.compoundId} className="space-y-1">
+                    <div className="flex items-center justify-between text-sm">
+                      <span className="font-medium" style={{ color: summary.compound!.colorHex }}>
+                        {summary.compound!.name}
+                      </span>
+                      <span className="font-bold">
+                        {summary.adherence !== null ? `${Math.round(summary.adherence * 100)}%` : "—"}
+                      </span>
+                    </div>
+                    <div className="h-2 rounded-full bg-slate-800 overflow-hidden flex">
+                      <div
+                        className="h-full bg-green-500"
+                        style={{ width: `${(summary.onTime ?? 0) * 100}%` }}
+                      />
+                      <div
+                        className="h-full bg-amber-500"
+                        style={{ width: `${((summary.adherence ?? 0) - (summary.onTime ?? 0)) * 100}%` }}
+                      />
+                    </div>
+                    <p className="text-xs text-slate-400">
+                      {summary.taken} on time · {summary.late} late · {summary.missed} missed
+                      {summary.extra > 0 && ` · ${summary.extra} extra`}
+                      {summary.pending > 0 && ` · ${summary.pending} upcoming`}
+                    </p>
+                  </div>
+                ))}
+              </div>
+            </CardContent>
+          </Card>
+        )}
+
         {/* Neuro-Curve Visualization */}
         {neuroCurveData.length > 0 && (
           <Card className="glass border-slate-800">
             <CardHeader>
-              <CardTitle className="text-base sm:text-lg">Today's Neuro-Curve (24-Hour Timeline)</CardTitle>
+              <div className="flex items-center justify-between gap-2">
+                <CardTitle className="text-base sm:text-lg">
+                  {neuroCurveDays === 1 ? "Today's Neuro-Curve" : `Neuro-Curve (Last ${neuroCurveDays} Days)`}
+                </CardTitle>
+                <div className="flex gap-1">
+                  {([1, 3, 7] as const).map((days) => (
+                    <Button
+                      key={days}
+                      size="sm"
+                      variant={neuroCurveDays === days ? "default" : "outline"}
+                      onClick={() => setNeuroCurveDays(days)}
+                    >
+                      {days}d
+                    </Button>
+                  ))}
+                </div>
+              </div>
             </CardHeader>
             <CardContent>
-              <NeuroCurveVisualization compounds={neuroCurveData} />
+              <NeuroCurveVisualization
+                compounds={neuroCurveData}
+                windowStart={neuroCurveWindowStart}
+                days={neuroCurveDays}
+                timeZone={neuroCurveTimeZone}
+              />
             </CardContent>
           </Card>
         )}
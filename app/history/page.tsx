@@ -0,0 +1,329 @@
+"use client";
+
+import { useState, useMemo } from "react";
+import { useStore } from "@/store/useStore";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select } from "@/components/ui/select";
+import { Badge } from "@/components/ui/badge";
+import { ArrowLeft, Plus, Pencil, Trash2, Filter, History, ScrollText, ShieldAlert } from "lucide-react";
+import Link from "next/link";
+import { LogEntryDialog } from "@/components/LogEntryDialog";
+import { describeLogChanges, filterLogEntries, formatLogTime, type LogFilters } from "@/lib/log-history";
+import { getDeviceTimeZone } from "@/lib/dates";
+import type { LogAuditEvent, LogEntry } from "@/lib/types";
+
+const RECENT_AUDIT_EVENTS = 20;
+
+const ACTION_LABELS: Record<LogAuditEvent["action"], string> = {
+  create: "Logged",
+  update: "Edited",
+  delete: "Deleted",
+};
+
+export default function HistoryPage() {
+  const { logEntries, logAudit, compounds, stackPresets, deleteLog } = useStore();
+  const [filters, setFilters] = useState<LogFilters>({});
+  const [editing, setEditing] = useState<LogEntry | null>(null);
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+
+  const entries = useMemo(() => filterLogEntries(logEntries, filters), [logEntries, filters]);
+
+  const recentAudit = useMemo(
+    () => [...logAudit].sort((a, b) => b.at - a.at).slice(0, RECENT_AUDIT_EVENTS),
+    [logAudit]
+  );
+
+  const hasFilters = Object.values(filters).some(Boolean);
+  const deviceTimeZone = getDeviceTimeZone();
+
+  const compoundName = (compoundId: string) => compounds.find((c) => c.id === compoundId)?.name ?? "Deleted compound";
+
+  const openDialog = (entry: LogEntry | null) => {
+    setEditing(entry);
+    setIsDialogOpen(true);
+  };
+
+  const handleDelete = (entry: LogEntry) => {
+    if (!confirm("Delete this log entry? It stays in the change history.")) return;
+    deleteLog(entry.id);
+  };
+
+  // What an audit event did, in one line
+  const describeEvent = (event: LogAuditEvent) => {
+    const snapshot = event.after ?? event.before;
+    const when = snapshot ? formatLogTime(snapshot.timestamp, snapshot.timeZone, true) : "";
+    if (event.action === "update" && event.before && event.after) {
+      const changes = describeLogChanges(event.before, event.after, compounds, stackPresets);
+      return `Entry from ${when}: ${changes.length > 0 ? changes.join(", ") : "no changes"}`;
+    }
+    const doses = snapshot?.doseItems.map((item) => compoundName(item.compoundId)).join(", ");
+    return `Entry from ${when}${doses ? ` (${doses})` : ""}`;
+  };
+
+  return (
+    <div className="min-h-screen bg-slate-950 text-slate-50">
+      {/* Header */}
+      <header className="border-b border-slate-800 bg-slate-900/50 backdrop-blur-sm sticky top-0 z-30 safe-area-inset">
+        <div className="mx-auto px-3 sm:px-4 py-3 sm:py-4">
+          <div className="flex items-center justify-between gap-4">
+            <div className="flex items-center gap-4">
+              <Link href="/">
+                <Button variant="outline" size="icon" className="touch-manipulation">
+                  <ArrowLeft className="w-5 h-5" />
+                </Button>
+              </Link>
+              <div>
+                <h1 className="text-xl sm:text-2xl font-bold">History</h1>
+                <p className="text-xs sm:text-sm text-slate-400">
+                  Review, correct and backfill your log
+                </p>
+              </div>
+            </div>
+            <Button onClick={() => openDialog(null)} className="bg-blue-500 hover:bg-blue-600">
+              <Plus className="w-4 h-4 mr-2" />
+              Past Entry
+            </Button>
+          </div>
+        </div>
+      </header>
+
+      <main className="mx-auto px-3 sm:px-4 py-4 sm:py-6 space-y-4 sm:space-y-6 pb-20 md:pb-6">
+        {/* Filters */}
+        <Card className="glass border-slate-800">
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2 text-base sm:text-lg">
+              <Filter className="w-4 h-4 sm:w-5 sm:h-5" />
+              Filters
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className="grid grid-cols-2 sm:grid-cols-4 gap-3">
+              <div className="space-y-1">
+                <Label htmlFor="filter-from">From</Label>
+                <Input
+                  id="filter-from"
+                  type="date"
+                  value={filters.from ?? ""}
+                  onChange={(e) => setFilters({ ...filters, from: e.target.value || undefined })}
+                />
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="filter-to">To</Label>
+                <Input
+                  id="filter-to"
+                  type="date"
+                  value={filters.to ?? ""}
+                  onChange={(e) => setFilters({ ...filters, to: e.target.value || undefined })}
+                />
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="filter-compound">Compound</Label>
+                <Select
+                  id="filter-compound"
+                  value={filters.compoundId ?? ""}
+                  onChange={(e) => setFilters({ ...filters, compoundId: e.target.value || undefined })}
+                >
+                  <option value="">All compounds</option>
+                  {compounds.map((compound) => (
+                    <option key={compound.id} value={compound.id}>
+                      {compound.name}
+                    </option>
+                  ))}
+                </Select>
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="filter-preset">Preset</Label>
+                <Select
+                  id="filter-preset"
+                  value={filters.presetId ?? ""}
+                  onChange={(e) => setFilters({ ...filters, presetId: e.target.value || undefined })}
+                >
+                  <option value="">All entries</option>
+                  {stackPresets.map((preset) => (
+                    <option key={preset.id} value={preset.id}>
+                      {preset.name}
+                    </option>
+                  ))}
+                </Select>
+              </div>
+            </div>
+            {hasFilters && (
+              <Button variant="ghost" size="sm" className="mt-3" onClick={() => setFilters({})}>
+                Clear filters
+              </Button>
+            )}
+          </CardContent>
+        </Card>
+
+        {/* Entries */}
+        <Card className="glass border-slate-800">
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2 text-base sm:text-lg">
+              <ScrollText className="w-4 h-4 sm:w-5 sm:h-5" />
+              Entries ({entries.length})
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            {entries.length === 0 ? (
+              <p className="text-sm text-slate-400 text-center py-8">
+                {hasFilters ? "No entries match these filters" : "No entries logged yet"}
+              </p>
+            ) : (
+              <div className="space-y-3">
+                {entries.map((entry) => {
+                  const preset = entry.presetId ? stackPresets.find((p) => p.id === entry.presetId) : undefined;
+                  const edits = logAudit
+                    .filter((event) => event.logId === entry.id && event.action === "update")
+                    .sort((a, b) => b.at - a.at);
+                  const foreignZone = entry.timeZone && entry.timeZone !== deviceTimeZone;
+                  return (
+                    <div key={entry.id} className="p-3 rounded-lg bg-slate-800/50 space-y-2">
+                      <div className="flex items-start justify-between gap-2">
+                        <div>
+                          <div className="font-medium">
+                            {formatLogTime(entry.timestamp, entry.timeZone, true)}
+                            {foreignZone && (
+                              <span className="ml-2 text-xs text-slate-500">
+                                {entry.timeZone!.replace(/_/g, " ")}
+                              </span>
+                            )}
+                          </div>
+                          <div className="text-xs text-slate-400">
+                            Anxiety {entry.anxiety}/10 · Functionality {entry.functionality}/10
+                          </div>
+                        </div>
+                        <div className="flex items-center gap-1">
+                          {preset && (
+                            <Badge variant="outline" className="text-xs" style={{ borderColor: preset.colorHex }}>
+                              {preset.name}
+                            </Badge>
+                          )}
+                          <Button variant="ghost" size="icon" className="h-8 w-8" onClick={() => openDialog(entry)}>
+                            <Pencil className="w-4 h-4" />
+                          </Button>
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            className="h-8 w-8 text-red-400 hover:text-red-300"
+                            onClick={() => handleDelete(entry)}
+                          >
+                            <Trash2 className="w-4 h-4" />
+                          </Button>
+                        </div>
+                      </div>
+
+                      {entry.doseItems.length > 0 && (
+                        <div className="flex flex-wrap gap-2">
+                          {entry.doseItems.map((item, idx) => {
+                            const compound = compounds.find((c) => c.id === item.compoundId);
+                            return (
+                              <span
+                                key={`${item.compoundId}_${idx}`}
+                                className="text-xs px-2 py-1 rounded bg-slate-900/60"
+                                style={{ color: compound?.colorHex }}
+                              >
+                                {compound?.name ?? "Deleted compound"} {item.dose} {compound?.unit}
+                                {item.timestamp !== entry.timestamp && (
+                                  <span className="text-slate-500"> at {formatLogTime(item.timestamp, entry.timeZone)}</span>
+                                )}
+                              </span>
+                            );
+                          })}
+                        </div>
+                      )}
+
+                      {entry.notes && <p className="text-sm text-slate-300">{entry.notes}</p>}
+
+                      {entry.safetyOverride && (
+                        <div className="text-xs text-red-300/90 space-y-1">
+                          <p className="flex items-center gap-1 font-medium">
+                            <ShieldAlert className="w-3 h-3" />
+                            Logged past safety warnings: {entry.safetyOverride.note}
+                          </p>
+                          <ul className="pl-4 list-disc text-slate-500">
+                            {entry.safetyOverride.issues.map((issue) => (
+                              <li key={issue}>{issue}</li>
+                            ))}
+                          </ul>
+                        </div>
+                      )}
+
+                      {edits.length > 0 && (
+                        <div>
+                          <button
+                            className="text-xs text-slate-500 hover:text-slate-300"
+                            onClick={() => setExpandedId(expandedId === entry.id ? null : entry.id)}
+                          >
+                            Edited {edits.length} {edits.length === 1 ? "time" : "times"}
+                          </button>
+                          {expandedId === entry.id && (
+                            <ul className="mt-2 space-y-2 border-l border-slate-700 pl-3">
+                              {edits.map((event) => (
+                                <li key={event.id} className="text-xs text-slate-400">
+                                  <div className="text-slate-500">{new Date(event.at).toLocaleString()}</div>
+                                  {event.before && event.after &&
+                                    describeLogChanges(event.before, event.after, compounds, stackPresets).map((line, idx) => (
+                                      <div key={idx}>{line}</div>
+                                    ))}
+                                </li>
+                              ))}
+                            </ul>
+                          )}
+                        </div>
+                      )}
+                    </div>
+                  );
+                })}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+
+        {/* Audit Trail */}
+        <Card className="glass border-slate-800">
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2 text-base sm:text-lg">
+              <History className="w-4 h-4 sm:w-5 sm:h-5" />
+              Recent Changes
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            {recentAudit.length === 0 ? (
+              <p className="text-sm text-slate-400">No changes recorded yet</p>
+            ) : (
+              <ul className="space-y-2">
+                {recentAudit.map((event) => (
+                  <li key={event.id} className="text-sm flex gap-3">
+                    <span className="text-xs text-slate-500 whitespace-nowrap pt-0.5">
+                      {new Date(event.at).toLocaleString([], { month: "short", day: "numeric", hour: "2-digit", minute: "2-digit" })}
+                    </span>
+                    <span>
+                      <span
+                        className={
+                          event.action === "delete"
+                            ? "text-red-400"
+                            : event.action === "update"
+                              ? "text-yellow-400"
+                              : "text-green-400"
+                        }
+                      >
+                        {ACTION_LABELS[event.action]}
+                      </span>{" "}
+                      <span className="text-slate-300">{describeEvent(event)}</span>
+                    </span>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </CardContent>
+        </Card>
+      </main>
+
+      <LogEntryDialog entry={editing} open={isDialogOpen} onOpenChange={setIsDialogOpen} />
+    </div>
+  );
+}
@@ -4,15 +4,21 @@ import { useState, useMemo } from "react";
 import { useStore } from "@/store/useStore";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
-import { Plus, Settings, TrendingUp, Flame, Clock, BookOpen } from "lucide-react";
+import { Plus, Settings, TrendingUp, Flame, Clock, BookOpen, History } from "lucide-react";
 import Link from "next/link";
 import { LoggingDrawer } from "@/components/LoggingDrawer";
 import { QuickLogPresets } from "@/components/QuickLogPresets";
 import { TrendsChart } from "@/components/TrendsChart";
 import { ActivityHeatmap } from "@/components/ActivityHeatmap";
+import { ToleranceStatus } from "@/components/ToleranceStatus";
+import { InventoryStatus } from "@/components/InventoryStatus";
+import { CycleStatus } from "@/components/CycleStatus";
+import { InteractionStatus } from "@/components/InteractionStatus";
+import { countDayStreak, toLocalDateString } from "@/lib/dates";
+import { getCurrentTimeZone } from "@/lib/travel";
 
 export default function DashboardPage() {
-  const { logEntries, compounds } = useStore();
+  const { logEntries, compounds, settings } = useStore();
   const [isDrawerOpen, setIsDrawerOpen] = useState(false);
 
   // Calculate metrics
@@ -21,22 +27,10 @@ export default function DashboardPage() {
     const sevenDaysAgo = now - 7 * 24 * 60 * 60 * 1000;
 
     // Current streak (consecutive days with logs)
-    const sortedDates = [...new Set(logEntries.map((log) => log.date))].sort();
-    let streak = 0;
-    const today = new Date().toISOString().split("T")[0];
-    
-    for (let i = sortedDates.length - 1; i >= 0; i--) {
-      const date = sortedDates[i];
-      const expectedDate = new Date(Date.now() - streak * 24 * 60 * 60 * 1000)
-        .toISOString()
-        .split("T")[0];
-      
-      if (date === expectedDate) {
-        streak++;
-      } else {
-        break;
-      }
-    }
+    const streak = countDayStreak(
+      logEntries.map((log) => log.date),
+      toLocalDateString(now, getCurrentTimeZone(settings, now))
+    );
 
     // Average anxiety (last 7 days)
     const recentLogs = logEntries.filter((log) => log.timestamp >= sevenDaysAgo);
@@ -53,7 +47,7 @@ export default function DashboardPage() {
       : "N/A";
 
     return { streak, avgAnxiety, lastDoseTime };
-  }, [logEntries]);
+  }, [logEntries, settings]);
 
   return (
     <div className="min-h-screen bg-slate-950 text-slate-50">
@@ -65,6 +59,11 @@ export default function DashboardPage() {
             <p className="text-sm text-slate-400">Bio-Hacker Dashboard</p>
           </div>
           <div className="flex items-center gap-2">
+            <Link href="/history">
+              <Button variant="outline" size="icon" title="Log History">
+                <History className="w-5 h-5" />
+              </Button>
+            </Link>
             <Link href="/library">
               <Button variant="outline" size="icon" title="Compound Library">
                 <BookOpen className="w-5 h-5" />
@@ -125,6 +124,18 @@ export default function DashboardPage() {
         {/* Quick Log Presets */}
         <QuickLogPresets onOpenDrawer={() => setIsDrawerOpen(true)} />
 
+        {/* Drug-Drug Interactions */}
+        <InteractionStatus />
+
+        {/* Low Stock & Refills */}
+        <InventoryStatus />
+
+        {/* Cycle Phases */}
+        <CycleStatus />
+
+        {/* Tolerance Indicators */}
+        <ToleranceStatus />
+
         {/* Main Chart */}
         <Card className="glass border-slate-800">
           <CardHeader>
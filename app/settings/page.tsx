@@ -1,6 +1,6 @@
 "use client";
 
-import { useState } from "react";
+import { useEffect, useMemo, useState } from "react";
 import { useStore } from "@/store/useStore";
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
@@ -21,6 +21,12 @@ import {
   Pill,
   Layers,
   BookOpen,
+  Pencil,
+  Moon,
+  KeyRound,
+  Repeat,
+  ShieldAlert,
+  RotateCcw,
 } from "lucide-react";
 import Link from "next/link";
 import { Alert, AlertDescription } from "@/components/ui/alert";
@@ -29,8 +35,33 @@ import { AddCompoundFromLibrary } from "@/components/AddCompoundFromLibrary";
 import GeminiApiSettings from "@/components/GeminiApiSettings";
 import BioCoachConfiguration from "@/components/BioCoachConfiguration";
 import AutoScheduleButton from "@/components/AutoScheduleButton";
-import { parsePharmacokineticString } from "@/components/NeuroCurveVisualization";
 import { StackOptimizer } from "@/components/StackOptimizer";
+import { EditCompoundDialog } from "@/components/EditCompoundDialog";
+import { ScheduleManager } from "@/components/ScheduleManager";
+import { TravelSettings } from "@/components/TravelSettings";
+import { StrengthInput, emptyStrengthForm, fromStrengthForm, type StrengthForm } from "@/components/StrengthInput";
+import { CycleProtocolFields, fromCycleForm, toCycleForm, type CycleForm } from "@/components/CycleProtocolFields";
+import { SUGGESTED_CYCLES, getCyclePhase, suggestCycle } from "@/lib/cycling";
+import { toLocalDateString } from "@/lib/dates";
+import { getCurrentTimeZone } from "@/lib/travel";
+import { DEFAULT_BEDTIME } from "@/lib/sleep-forecast";
+import { DEFAULT_INTERACTION_WINDOW_HOURS } from "@/lib/dose-safety";
+import { DEFAULT_WAKE_TIME } from "@/lib/dose-planner";
+import { resolveCompoundKinetics } from "@/lib/compound-kinetics";
+import { getEffectVector } from "@/lib/pharmacodynamics";
+import type { Compound, DoseUnit, StackPreset } from "@/lib/types";
+import { clearMigrationBackup, getMigrationBackup, type MigrationBackup } from "@/store/migrations";
+import { IMPORT_STRATEGIES, parseBackup, planImport, type ImportStrategy } from "@/store/import-plan";
+import type { ExportData } from "@/store/schema";
+import { getPasscodeType, getUnlockThrottle } from "@/store/secure-storage";
+import {
+  AUTO_LOCK_OPTIONS,
+  DEFAULT_AUTO_LOCK_MINUTES,
+  PASSCODE_TYPES,
+  sanitizePasscodeInput,
+  validatePasscode,
+  type PasscodeType,
+} from "@/lib/passcode";
 
 export default function SettingsPage() {
   const {
@@ -41,25 +72,36 @@ export default function SettingsPage() {
     updateCompound,
     deleteCompound,
     addPreset,
+    updatePreset,
     deletePreset,
     exportData,
     importData,
     updateSettings,
+    changePin,
     logout,
+    dismissMigrationError,
   } = useStore();
 
   const [showCompoundDialog, setShowCompoundDialog] = useState(false);
   const [showLibraryDialog, setShowLibraryDialog] = useState(false);
   const [showPresetDialog, setShowPresetDialog] = useState(false);
   const [showApiDialog, setShowApiDialog] = useState(false);
+  const [editingCompound, setEditingCompound] = useState<Compound | null>(null);
+  const [pendingImport, setPendingImport] = useState<{ fileName: string; data: ExportData } | null>(null);
+  const [importStrategy, setImportStrategy] = useState<ImportStrategy>("merge-by-id");
+  const [showPinDialog, setShowPinDialog] = useState(false);
+  const [pinForm, setPinForm] = useState({ current: "", next: "", confirm: "", type: "pin4" as PasscodeType });
+  const [pinError, setPinError] = useState("");
+  const [isChangingPin, setIsChangingPin] = useState(false);
 
   // Compound form state
   const [compoundForm, setCompoundForm] = useState({
     name: "",
     defaultDose: 100,
-    unit: "mg" as "mg" | "ml" | "g" | "pills" | "mcg",
+    unit: "mg" as DoseUnit,
     colorHex: "#3b82f6",
   });
+  const [strengthForm, setStrengthForm] = useState<StrengthForm>(emptyStrengthForm);
 
   // Preset form state
   const [presetForm, setPresetForm] = useState({
@@ -67,6 +109,12 @@ export default function SettingsPage() {
     colorHex: "#10b981",
     selectedCompounds: [] as Array<{ compoundId: string; dose: number }>,
   });
+  const [presetCycleForm, setPresetCycleForm] = useState<CycleForm>(toCycleForm(undefined, SUGGESTED_CYCLES.moderate));
+  const [cyclePreset, setCyclePreset] = useState<StackPreset | null>(null);
+  const [cycleForm, setCycleForm] = useState<CycleForm>(toCycleForm(undefined, SUGGESTED_CYCLES.moderate));
+
+  const presetCompounds = (doseItems: Array<{ compoundId: string }>) =>
+    compounds.filter((c) => doseItems.some((item) => item.compoundId === c.id));
 
   const [apiKey, setApiKey] = useState(settings.geminiApiKey);
   const [importError, setImportError] = useState("");
@@ -78,6 +126,7 @@ export default function SettingsPage() {
       name: compoundForm.name,
       defaultDose: compoundForm.defaultDose,
       unit: compoundForm.unit,
+      strength: fromStrengthForm(compoundForm.unit, strengthForm),
       colorHex: compoundForm.colorHex,
       isActive: true,
     });
@@ -88,6 +137,7 @@ export default function SettingsPage() {
       unit: "mg",
       colorHex: "#3b82f6",
     });
+    setStrengthForm(emptyStrengthForm());
     setShowCompoundDialog(false);
   };
 
@@ -98,6 +148,7 @@ export default function SettingsPage() {
       name: presetForm.name,
       colorHex: presetForm.colorHex,
       doseItems: presetForm.selectedCompounds,
+      cycle: fromCycleForm(presetCycleForm),
     });
 
     setPresetForm({
@@ -105,16 +156,67 @@ export default function SettingsPage() {
       colorHex: "#10b981",
       selectedCompounds: [],
     });
+    setPresetCycleForm(toCycleForm(undefined, SUGGESTED_CYCLES.moderate));
     setShowPresetDialog(false);
   };
 
+  const openPresetCycle = (preset: StackPreset) => {
+    setCycleForm(toCycleForm(preset.cycle, suggestCycle(presetCompounds(preset.doseItems))));
+    setCyclePreset(preset);
+  };
+
+  const handleSavePresetCycle = () => {
+    if (!cyclePreset) return;
+    updatePreset(cyclePreset.id, { cycle: fromCycleForm(cycleForm) });
+    setCyclePreset(null);
+  };
+
+  // Left behind when stored data could not be upgraded to the current version
+  const [migrationBackup, setMigrationBackup] = useState<MigrationBackup | null>(null);
+
+  useEffect(() => {
+    getMigrationBackup().then(setMigrationBackup);
+  }, []);
+
+  const handleDownloadMigrationBackup = () => {
+    if (!migrationBackup) return;
+    const blob = new Blob([migrationBackup.raw], { type: "application/json" });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement("a");
+    a.href = url;
+    a.download = `neurostack_recovery_v${migrationBackup.version}_${toLocalDateString(migrationBackup.createdAt)}.json`;
+    document.body.appendChild(a);
+    a.click();
+    document.body.removeChild(a);
+    URL.revokeObjectURL(url);
+  };
+
+  // Goes through the import preview, like a backup file
+  const handleRestoreMigrationBackup = () => {
+    if (!migrationBackup) return;
+    const parsed = parseBackup(migrationBackup.raw);
+    if (parsed.success) {
+      setImportError("");
+      setPendingImport({ fileName: "Recovery Copy", data: parsed.data });
+    } else {
+      setImportError(`Recovery copy can't be restored: ${parsed.errors.join("; ")}`);
+    }
+  };
+
+  const handleDiscardMigrationBackup = () => {
+    if (!confirm("Delete the recovery copy of your previous data? This cannot be undone.")) return;
+    clearMigrationBackup();
+    setMigrationBackup(null);
+    dismissMigrationError();
+  };
+
   const handleExport = () => {
     const data = exportData();
     const blob = new Blob([JSON.stringify(data, null, 2)], { type: "application/json" });
     const url = URL.createObjectURL(blob);
     const a = document.createElement("a");
     a.href = url;
-    a.download = `neurostack_backup_${new Date().toISOString().split("T")[0]}.json`;
+    a.download = `neurostack_backup_${toLocalDateString()}.json`;
     document.body.appendChild(a);
     a.click();
     document.body.removeChild(a);
@@ -127,23 +229,75 @@ export default function SettingsPage() {
 
     const reader = new FileReader();
     reader.onload = (event) => {
-      try {
-        const data = JSON.parse(event.target?.result as string);
-        if (data.compounds || data.stackPresets || data.logEntries) {
-          importData(data);
-          setImportError("");
-          alert("Data imported successfully!");
-        } else {
-          setImportError("Invalid backup file format");
-        }
-      } catch (error) {
-        setImportError("Failed to parse backup file");
+      const parsed = parseBackup(event.target?.result as string);
+      if (parsed.success) {
+        setImportError("");
+        setPendingImport({ fileName: file.name, data: parsed.data });
+      } else {
+        setImportError(`Invalid backup file: ${parsed.errors.join("; ")}`);
       }
     };
     reader.readAsText(file);
     e.target.value = ""; // Reset input
   };
 
+  // Dry run of the pending import with the selected strategy
+  const importPlan = useMemo(
+    () => (pendingImport ? planImport(exportData(), pendingImport.data, importStrategy) : null),
+    [pendingImport, importStrategy, exportData]
+  );
+
+  const handleConfirmImport = () => {
+    if (!importPlan) return;
+    importData(importPlan.data);
+    setPendingImport(null);
+    dismissMigrationError();
+    alert("Data imported successfully!");
+  };
+
+  const openPinDialog = () => {
+    setPinForm({ current: "", next: "", confirm: "", type: getPasscodeType() });
+    setPinError("");
+    setShowPinDialog(true);
+  };
+
+  const handleChangePin = async () => {
+    const problem = validatePasscode(pinForm.next, pinForm.type);
+    if (problem) {
+      setPinError(problem);
+      return;
+    }
+    if (pinForm.next !== pinForm.confirm) {
+      setPinError("New passcodes don't match");
+      return;
+    }
+    const { retryAt } = getUnlockThrottle();
+    if (retryAt !== null) {
+      setPinError(`Too many incorrect attempts. Try again after ${new Date(retryAt).toLocaleTimeString()}.`);
+      return;
+    }
+
+    setIsChangingPin(true);
+    let success: boolean;
+    try {
+      success = await changePin(pinForm.current, pinForm.next, pinForm.type);
+    } catch (err) {
+      setPinError(`Could not change the passcode: ${err instanceof Error ? err.message : String(err)}`);
+      return;
+    } finally {
+      setIsChangingPin(false);
+    }
+    if (!success) {
+      setPinError("Current passcode is incorrect");
+      return;
+    }
+
+    setPinForm({ current: "", next: "", confirm: "", type: pinForm.type });
+    setPinError("");
+    setShowPinDialog(false);
+    alert("Passcode changed. Your data has been re-encrypted with the new passcode.");
+  };
+
   const handleSaveApiKey = () => {
     updateSettings({ geminiApiKey: apiKey });
     setShowApiDialog(false);
@@ -245,6 +399,8 @@ export default function SettingsPage() {
                         <div className="font-medium">{compound.name}</div>
                         <div className="text-sm text-slate-400">
                           Default: {compound.defaultDose} {compound.unit}
+                          {compound.pharmacokinetics?.halfLifeHours !== undefined &&
+                            ` · t½ ${compound.pharmacokinetics.halfLifeHours}h`}
                         </div>
                       </div>
                     </div>
@@ -253,6 +409,15 @@ export default function SettingsPage() {
                         checked={compound.isActive}
                         onCheckedChange={(checked) => handleToggleCompound(compound.id, checked)}
                       />
+                      <Button
+                        variant="outline"
+                        size="icon"
+                        onClick={() => setEditingCompound(compound)}
+                        className="h-8 w-8"
+                        title="Edit compound"
+                      >
+                        <Pencil className="w-4 h-4" />
+                      </Button>
                       <Button
                         variant="outline"
                         size="icon"
@@ -304,6 +469,14 @@ export default function SettingsPage() {
                     dose: `${c.defaultDose} ${c.unit}`,
                     effectType: 'Unknown', // Would be enhanced with library data
                   }))}
+                  plannerCompounds={compounds.filter(c => c.isActive).map(c => ({
+                    name: c.name,
+                    dose: `${c.defaultDose} ${c.unit}`,
+                    kinetics: resolveCompoundKinetics(c),
+                    effects: getEffectVector(c),
+                  }))}
+                  wakeTime={settings.wakeTime}
+                  bedtime={settings.bedtime}
                   onScheduleGenerated={(schedule) => {
                     console.log('Schedule generated:', schedule);
                     // Could auto-create presets from schedule
@@ -333,17 +506,30 @@ export default function SettingsPage() {
                         <div className="font-medium">{preset.name}</div>
                         <div className="text-sm text-slate-400">
                           {preset.doseItems.length} compound{preset.doseItems.length !== 1 ? "s" : ""}
+                          {preset.cycle &&
+                            ` · ${preset.cycle.onDays}d on / ${preset.cycle.offDays}d off${getCyclePhase(preset.cycle, Date.now(), getCurrentTimeZone(settings)).phase === "off" ? " (washout)" : ""}`}
                         </div>
                       </div>
                     </div>
-                    <Button
-                      variant="outline"
-                      size="icon"
-                      onClick={() => deletePreset(preset.id)}
-                      className="h-8 w-8 text-red-400 hover:text-red-300"
-                    >
-                      <Trash2 className="w-4 h-4" />
-                    </Button>
+                    <div className="flex gap-2">
+                      <Button
+                        variant="outline"
+                        size="icon"
+                        onClick={() => openPresetCycle(preset)}
+                        className="h-8 w-8"
+                        title="Cycle protocol"
+                      >
+                        <Repeat className="w-4 h-4" />
+                      </Button>
+                      <Button
+                        variant="outline"
+                        size="icon"
+                        onClick={() => deletePreset(preset.id)}
+                        className="h-8 w-8 text-red-400 hover:text-red-300"
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </Button>
+                    </div>
                   </div>
                 ))}
               </div>
@@ -357,6 +543,76 @@ export default function SettingsPage() {
         {/* Bio-Coach Persona Configuration */}
         <BioCoachConfiguration />
 
+        {/* Sleep */}
+        <Card className="glass border-slate-800">
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <Moon className="w-5 h-5 text-indigo-400" />
+              Sleep & Wake
+            </CardTitle>
+            <CardDescription className="mt-1">
+              Doses still active at bedtime trigger a warning before you log them; the local planner schedules within this window
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <div className="grid grid-cols-2 gap-4 max-w-[400px]">
+              <div className="space-y-2">
+                <Label htmlFor="wake-time">Wake Time</Label>
+                <Input
+                  id="wake-time"
+                  type="time"
+                  value={settings.wakeTime}
+                  onChange={(e) => updateSettings({ wakeTime: e.target.value || DEFAULT_WAKE_TIME })}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="bedtime">Bedtime</Label>
+                <Input
+                  id="bedtime"
+                  type="time"
+                  value={settings.bedtime}
+                  onChange={(e) => updateSettings({ bedtime: e.target.value || DEFAULT_BEDTIME })}
+                />
+              </div>
+            </div>
+          </CardContent>
+        </Card>
+
+        {/* Dose Safety */}
+        <Card className="glass border-slate-800">
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <ShieldAlert className="w-5 h-5 text-orange-400" />
+              Dose Safety
+            </CardTitle>
+            <CardDescription className="mt-1">
+              Before a dose is logged it is checked against each compound&apos;s limits and for dangerous combinations
+              with anything taken in this window. Set limits per compound with its edit button under Pharmacy.
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <div className="space-y-2 max-w-[200px]">
+              <Label htmlFor="interaction-window">Interaction look-back (hours)</Label>
+              <Input
+                id="interaction-window"
+                type="number"
+                min="1"
+                max="168"
+                value={settings.interactionWindowHours ?? DEFAULT_INTERACTION_WINDOW_HOURS}
+                onChange={(e) =>
+                  updateSettings({ interactionWindowHours: Number(e.target.value) || DEFAULT_INTERACTION_WINDOW_HOURS })
+                }
+              />
+            </div>
+          </CardContent>
+        </Card>
+
+        {/* Time Zone & Travel */}
+        <TravelSettings />
+
+        {/* Dose Schedules */}
+        <ScheduleManager />
+
         {/* Data Management */}
         <Card className="glass border-slate-800">
           <CardHeader>
@@ -367,6 +623,31 @@ export default function SettingsPage() {
           </CardHeader>
           <CardContent>
             <div className="space-y-4">
+              {migrationBackup && (
+                <Alert variant="destructive">
+                  <AlertDescription className="space-y-3">
+                    <p>
+                      Your saved data (version {migrationBackup.version}) could not be upgraded on{" "}
+                      {new Date(migrationBackup.createdAt).toLocaleString()}: {migrationBackup.error}
+                    </p>
+                    <p>A raw copy was kept. Restore it, or download it before discarding it.</p>
+                    <div className="flex flex-wrap gap-2">
+                      <Button size="sm" variant="outline" onClick={handleRestoreMigrationBackup}>
+                        <RotateCcw className="w-4 h-4 mr-2" />
+                        Restore Recovery Copy
+                      </Button>
+                      <Button size="sm" variant="outline" onClick={handleDownloadMigrationBackup}>
+                        <Download className="w-4 h-4 mr-2" />
+                        Download Recovery Copy
+                      </Button>
+                      <Button size="sm" variant="outline" onClick={handleDiscardMigrationBackup}>
+                        <Trash2 className="w-4 h-4 mr-2" />
+                        Discard
+                      </Button>
+                    </div>
+                  </AlertDescription>
+                </Alert>
+              )}
               {importError && (
                 <Alert variant="destructive">
                   <AlertDescription>{importError}</AlertDescription>
@@ -404,14 +685,37 @@ export default function SettingsPage() {
               Security
             </CardTitle>
           </CardHeader>
-          <CardContent>
-            <Button
-              onClick={logout}
-              variant="outline"
-              className="text-red-400 hover:text-red-300"
-            >
-              Lock App
-            </Button>
+          <CardContent className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="auto-lock">Auto-Lock</Label>
+              <Select
+                id="auto-lock"
+                value={settings.autoLockMinutes ?? DEFAULT_AUTO_LOCK_MINUTES}
+                onChange={(e) => updateSettings({ autoLockMinutes: Number(e.target.value) })}
+              >
+                {AUTO_LOCK_OPTIONS.map((option) => (
+                  <option key={option.minutes} value={option.minutes}>
+                    {option.label}
+                  </option>
+                ))}
+              </Select>
+              <p className="text-xs text-slate-500">
+                Locks after this long without activity, or when you return to the app after this long away
+              </p>
+            </div>
+            <div className="flex gap-3">
+              <Button onClick={openPinDialog} variant="outline">
+                <KeyRound className="w-4 h-4 mr-2" />
+                Change Passcode
+              </Button>
+              <Button
+                onClick={logout}
+                variant="outline"
+                className="text-red-400 hover:text-red-300"
+              >
+                Lock App
+              </Button>
+            </div>
           </CardContent>
         </Card>
       </main>
@@ -460,7 +764,7 @@ export default function SettingsPage() {
                   onChange={(e) =>
                     setCompoundForm({
                       ...compoundForm,
-                      unit: e.target.value as any,
+                      unit: e.target.value as DoseUnit,
                     })
                   }
                 >
@@ -473,6 +777,7 @@ export default function SettingsPage() {
                 </Select>
               </div>
             </div>
+            <StrengthInput unit={compoundForm.unit} form={strengthForm} onChange={setStrengthForm} id="compound-strength" />
             <div className="space-y-2">
               <Label htmlFor="color">Color</Label>
               <div className="flex gap-2">
@@ -610,6 +915,18 @@ export default function SettingsPage() {
                 })}
               </div>
             </div>
+            <CycleProtocolFields
+              form={presetCycleForm}
+              onChange={(form) =>
+                // Turning cycling on starts from the suggestion for the chosen compounds
+                setPresetCycleForm(
+                  form.enabled && !presetCycleForm.enabled
+                    ? { ...toCycleForm(undefined, suggestCycle(presetCompounds(presetForm.selectedCompounds))), enabled: true }
+                    : form
+                )
+              }
+              idPrefix="new-preset"
+            />
             <div className="flex gap-2">
               <Button
                 onClick={handleAddPreset}
@@ -672,6 +989,189 @@ export default function SettingsPage() {
         </DialogContent>
       </Dialog>
 
+      {/* Change PIN Dialog */}
+      <Dialog open={showPinDialog} onOpenChange={setShowPinDialog}>
+        <DialogContent
+          onClose={() => setShowPinDialog(false)}
+          className="sm:max-w-[425px] bg-slate-900 border-slate-800"
+        >
+          <DialogHeader>
+            <DialogTitle>Change Passcode</DialogTitle>
+          </DialogHeader>
+          <div className="space-y-4 py-4">
+            <div className="space-y-2">
+              <Label htmlFor="pin-current">Current Passcode</Label>
+              <Input
+                id="pin-current"
+                type="password"
+                value={pinForm.current}
+                onChange={(e) => {
+                  setPinForm({ ...pinForm, current: e.target.value });
+                  setPinError("");
+                }}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="pin-type">New Passcode Type</Label>
+              <Select
+                id="pin-type"
+                value={pinForm.type}
+                onChange={(e) => setPinForm({ ...pinForm, type: e.target.value as PasscodeType, next: "", confirm: "" })}
+              >
+                {(Object.keys(PASSCODE_TYPES) as PasscodeType[]).map((type) => (
+                  <option key={type} value={type}>
+                    {PASSCODE_TYPES[type].label}
+                  </option>
+                ))}
+              </Select>
+            </div>
+            {([
+              ["next", "New Passcode"],
+              ["confirm", "Confirm New Passcode"],
+            ] as const).map(([field, label]) => (
+              <div key={field} className="space-y-2">
+                <Label htmlFor={`pin-${field}`}>{label}</Label>
+                <Input
+                  id={`pin-${field}`}
+                  type="password"
+                  inputMode={PASSCODE_TYPES[pinForm.type].inputMode}
+                  maxLength={PASSCODE_TYPES[pinForm.type].maxLength}
+                  value={pinForm[field]}
+                  onChange={(e) => {
+                    setPinForm({ ...pinForm, [field]: sanitizePasscodeInput(e.target.value, pinForm.type) });
+                    setPinError("");
+                  }}
+                />
+              </div>
+            ))}
+            {pinError && <p className="text-sm text-red-400">{pinError}</p>}
+            <p className="text-xs text-slate-500">
+              Your data is re-encrypted with a key derived from the new passcode.
+            </p>
+            <Button onClick={handleChangePin} disabled={isChangingPin} className="w-full">
+              {isChangingPin ? "Re-encrypting..." : "Change Passcode"}
+            </Button>
+          </div>
+        </DialogContent>
+      </Dialog>
+
+      {/* Import Preview Dialog */}
+      <Dialog open={pendingImport !== null} onOpenChange={(open) => !open && setPendingImport(null)}>
+        <DialogContent
+          onClose={() => setPendingImport(null)}
+          className="sm:max-w-[520px] bg-slate-900 border-slate-800"
+        >
+          <DialogHeader>
+            <DialogTitle>Import {pendingImport?.fileName}</DialogTitle>
+          </DialogHeader>
+          {importPlan && (
+            <div className="space-y-4 py-4">
+              <div className="space-y-2">
+                <Label htmlFor="import-strategy">Merge Strategy</Label>
+                <Select
+                  id="import-strategy"
+                  value={importStrategy}
+                  onChange={(e) => setImportStrategy(e.target.value as ImportStrategy)}
+                >
+                  {(Object.keys(IMPORT_STRATEGIES) as ImportStrategy[]).map((strategy) => (
+                    <option key={strategy} value={strategy}>
+                      {IMPORT_STRATEGIES[strategy].label}
+                    </option>
+                  ))}
+                </Select>
+                <p className="text-xs text-slate-500">{IMPORT_STRATEGIES[importStrategy].description}</p>
+              </div>
+
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-xs text-slate-500 text-left">
+                    <th className="font-normal py-1"></th>
+                    <th className="font-normal py-1">Add</th>
+                    <th className="font-normal py-1">Update</th>
+                    <th className="font-normal py-1">Conflicts</th>
+                    <th className="font-normal py-1">Remove</th>
+                    <th className="font-normal py-1">Unchanged</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {([
+                    ["Compounds", importPlan.compounds],
+                    ["Presets", importPlan.stackPresets],
+                    ["Logs", importPlan.logEntries],
+                    ["Log changes", importPlan.logAudit],
+                    ["Schedules", importPlan.schedules],
+                  ] as const).map(([label, plan]) => (
+                    <tr key={label} className="border-t border-slate-800">
+                      <td className="py-1.5 text-slate-300">{label}</td>
+                      <td className="py-1.5 text-emerald-400">{plan.added.length}</td>
+                      <td className="py-1.5 text-blue-400">{plan.updated.length}</td>
+                      <td className="py-1.5 text-amber-400">{plan.conflicts.length}</td>
+                      <td className="py-1.5 text-red-400">{plan.removed.length}</td>
+                      <td className="py-1.5 text-slate-500">{plan.unchanged}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+              {importStrategy === "keep-newest" && (
+                <p className="text-xs text-slate-500">Conflicts are older copies in the file; your current versions are kept.</p>
+              )}
+              {importPlan.settingsChanged.length > 0 && (
+                <p className="text-xs text-slate-400">
+                  Settings changed: {importPlan.settingsChanged.join(", ")}
+                </p>
+              )}
+
+              {importPlan.warnings.length > 0 && (
+                <Alert>
+                  <AlertDescription>
+                    {importPlan.warnings.map((warning) => (
+                      <p key={warning}>{warning}</p>
+                    ))}
+                  </AlertDescription>
+                </Alert>
+              )}
+
+              <div className="flex gap-3">
+                <Button variant="outline" onClick={() => setPendingImport(null)} className="flex-1">
+                  Cancel
+                </Button>
+                <Button onClick={handleConfirmImport} className="flex-1">
+                  Import
+                </Button>
+              </div>
+            </div>
+          )}
+        </DialogContent>
+      </Dialog>
+
+      {/* Preset Cycle Dialog */}
+      <Dialog open={cyclePreset !== null} onOpenChange={(open) => !open && setCyclePreset(null)}>
+        <DialogContent
+          onClose={() => setCyclePreset(null)}
+          className="sm:max-w-[450px] bg-slate-900 border-slate-800"
+        >
+          <DialogHeader>
+            <DialogTitle>{cyclePreset?.name} Cycle</DialogTitle>
+          </DialogHeader>
+          <div className="space-y-4 py-4">
+            <p className="text-sm text-slate-400">
+              The cycle covers every compound in this preset; logging any of them during the washout shows a warning.
+            </p>
+            <CycleProtocolFields form={cycleForm} onChange={setCycleForm} idPrefix="preset" />
+            <Button onClick={handleSavePresetCycle} className="w-full">
+              Save
+            </Button>
+          </div>
+        </DialogContent>
+      </Dialog>
+
+      {/* Edit Compound Dialog */}
+      <EditCompoundDialog
+        compound={editingCompound}
+        open={editingCompound !== null}
+        onOpenChange={(open) => !open && setEditingCompound(null)}
+      />
+
       {/* Add from Library Dialog */}
       <AddCompoundFromLibrary
         open={showLibraryDialog}
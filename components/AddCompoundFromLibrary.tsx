@@ -11,6 +11,8 @@ import { CompoundSearch } from "@/components/CompoundSearch";
 import { CompoundDetail as CompoundDetailComponent } from "@/components/CompoundDetail";
 import { Plus, Info } from "lucide-react";
 import { CompoundDetail } from "@/lib/compound-types";
+import type { DoseUnit } from "@/lib/types";
+import { StrengthInput, emptyStrengthForm, fromStrengthForm, type StrengthForm } from "@/components/StrengthInput";
 
 interface AddCompoundFromLibraryProps {
   open: boolean;
@@ -24,7 +26,8 @@ export function AddCompoundFromLibrary({ open, onOpenChange }: AddCompoundFromLi
   
   // Form state for customization
   const [defaultDose, setDefaultDose] = useState(100);
-  const [unit, setUnit] = useState<'mg' | 'ml' | 'g' | 'pills' | 'mcg' | 'IU'>('mg');
+  const [unit, setUnit] = useState<DoseUnit>('mg');
+  const [strengthForm, setStrengthForm] = useState<StrengthForm>(emptyStrengthForm);
   const [colorHex, setColorHex] = useState('#3b82f6');
 
   const handleSelectCompound = (compound: CompoundDetail) => {
@@ -47,14 +50,17 @@ export function AddCompoundFromLibrary({ open, onOpenChange }: AddCompoundFromLi
       name: selectedCompound.name,
       defaultDose,
       unit,
+      strength: fromStrengthForm(unit, strengthForm),
       colorHex,
       isActive: true,
+      libraryId: selectedCompound.id,
     });
 
     // Reset form
     setSelectedCompound(null);
     setDefaultDose(100);
     setUnit('mg');
+    setStrengthForm(emptyStrengthForm());
     setColorHex('#3b82f6');
     onOpenChange(false);
   };
@@ -144,7 +150,7 @@ export function AddCompoundFromLibrary({ open, onOpenChange }: AddCompoundFromLi
                       <Select
                         id="unit"
                         value={unit}
-                        onChange={(e) => setUnit(e.target.value as 'mg' | 'ml' | 'g' | 'pills' | 'mcg' | 'IU')}
+                        onChange={(e) => setUnit(e.target.value as DoseUnit)}
                       >
                         <option value="mg">mg</option>
                         <option value="g">g</option>
@@ -156,6 +162,8 @@ export function AddCompoundFromLibrary({ open, onOpenChange }: AddCompoundFromLi
                     </div>
                   </div>
 
+                  <StrengthInput unit={unit} form={strengthForm} onChange={setStrengthForm} id="library-strength" />
+
                   <div className="space-y-2">
                     <Label htmlFor="color" className="text-sm">Color</Label>
                     <div className="flex gap-2">
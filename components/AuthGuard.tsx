@@ -1,34 +1,101 @@
 "use client";
 
 import { useEffect, useState } from "react";
+import Link from "next/link";
 import { useStore } from "@/store/useStore";
-import { Lock, Check } from "lucide-react";
+import { Lock, Check, Loader2, AlertTriangle, X } from "lucide-react";
+import { Alert, AlertDescription } from "@/components/ui/alert";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
+import { Select } from "@/components/ui/select";
+import { FREE_UNLOCK_ATTEMPTS, getPasscodeType, getUnlockThrottle } from "@/store/secure-storage";
+import { PASSCODE_TYPES, sanitizePasscodeInput, validatePasscode, type PasscodeType } from "@/lib/passcode";
+
+const ACTIVITY_EVENTS = ["pointerdown", "keydown", "scroll", "touchstart"] as const;
+
+/**
+ * Lock the app after `minutes` without user activity, or on returning after
+ * being in the background that long (0 disables)
+ */
+function useAutoLock(enabled: boolean, minutes: number, lock: () => void) {
+  useEffect(() => {
+    if (!enabled || minutes <= 0) return;
+
+    const timeoutMs = minutes * 60 * 1000;
+    let lastActivity = Date.now();
+    const markActive = () => {
+      lastActivity = Date.now();
+    };
+    const checkIdle = () => {
+      if (Date.now() - lastActivity >= timeoutMs) lock();
+    };
+    const handleVisibility = () => {
+      if (document.visibilityState === "visible") checkIdle();
+      else markActive(); // Background time counts from leaving the app
+    };
+
+    ACTIVITY_EVENTS.forEach((event) => window.addEventListener(event, markActive, { passive: true }));
+    document.addEventListener("visibilitychange", handleVisibility);
+    const interval = setInterval(checkIdle, 15 * 1000);
+
+    return () => {
+      ACTIVITY_EVENTS.forEach((event) => window.removeEventListener(event, markActive));
+      document.removeEventListener("visibilitychange", handleVisibility);
+      clearInterval(interval);
+    };
+  }, [enabled, minutes, lock]);
+}
 
 export function AuthGuard({ children }: { children: React.ReactNode }) {
-  const { pin, isAuthenticated, setPin, authenticate } = useStore();
+  const { hasPin, isAuthenticated, settings, migrationError, setPin, authenticate, logout, dismissMigrationError } = useStore();
   const [inputPin, setInputPin] = useState("");
   const [error, setError] = useState("");
+  const [isBusy, setIsBusy] = useState(false); // Key derivation takes a moment
   const [isClient, setIsClient] = useState(false);
+  const [setupType, setSetupType] = useState<PasscodeType>("pin4");
+  const [retryAt, setRetryAt] = useState<number | null>(null);
+  const [now, setNow] = useState(Date.now());
 
   useEffect(() => {
     setIsClient(true);
+    setRetryAt(getUnlockThrottle().retryAt);
   }, []);
 
+  // Tick the backoff countdown
+  useEffect(() => {
+    if (retryAt === null) return;
+    const interval = setInterval(() => {
+      setNow(Date.now());
+      if (Date.now() >= retryAt) setRetryAt(null);
+    }, 1000);
+    return () => clearInterval(interval);
+  }, [retryAt]);
+
+  useAutoLock(isAuthenticated, settings.autoLockMinutes, logout);
+
   if (!isClient) {
     return null; // Prevent hydration mismatch
   }
 
   // First time setup - no PIN set yet
-  if (!pin) {
-    const handleSetPin = () => {
-      if (inputPin.length !== 4 || !/^\d{4}$/.test(inputPin)) {
-        setError("PIN must be exactly 4 digits");
+  if (!hasPin) {
+    const setup = PASSCODE_TYPES[setupType];
+    const handleSetPin = async () => {
+      const problem = validatePasscode(inputPin, setupType);
+      if (problem) {
+        setError(problem);
         return;
       }
-      setPin(inputPin);
-      setError("");
+      setIsBusy(true);
+      try {
+        await setPin(inputPin, setupType);
+        setInputPin("");
+        setError("");
+      } catch (err) {
+        setError(`Could not set up encryption: ${err instanceof Error ? err.message : String(err)}`);
+      } finally {
+        setIsBusy(false);
+      }
     };
 
     return (
@@ -39,18 +106,32 @@ export function AuthGuard({ children }: { children: React.ReactNode }) {
               <Lock className="w-8 h-8 text-blue-500" />
             </div>
             <h1 className="text-3xl font-bold text-slate-50">Welcome to NeuroStack</h1>
-            <p className="text-slate-400">Set up your 4-digit security PIN</p>
+            <p className="text-slate-400">Set up your security passcode</p>
           </div>
 
           <div className="space-y-4">
+            <Select
+              value={setupType}
+              onChange={(e) => {
+                setSetupType(e.target.value as PasscodeType);
+                setInputPin("");
+                setError("");
+              }}
+            >
+              {(Object.keys(PASSCODE_TYPES) as PasscodeType[]).map((type) => (
+                <option key={type} value={type}>
+                  {PASSCODE_TYPES[type].label}
+                </option>
+              ))}
+            </Select>
             <Input
               type="password"
-              inputMode="numeric"
-              maxLength={4}
-              placeholder="Enter 4-digit PIN"
+              inputMode={setup.inputMode}
+              maxLength={setup.maxLength}
+              placeholder={setup.placeholder}
               value={inputPin}
               onChange={(e) => {
-                setInputPin(e.target.value.replace(/\D/g, ""));
+                setInputPin(sanitizePasscodeInput(e.target.value, setupType));
                 setError("");
               }}
               onKeyDown={(e) => {
@@ -61,15 +142,16 @@ export function AuthGuard({ children }: { children: React.ReactNode }) {
             {error && <p className="text-sm text-red-400 text-center">{error}</p>}
             <Button
               onClick={handleSetPin}
+              disabled={isBusy}
               className="w-full h-12 text-lg bg-blue-500 hover:bg-blue-600"
             >
-              <Check className="w-5 h-5 mr-2" />
-              Set PIN & Continue
+              {isBusy ? <Loader2 className="w-5 h-5 mr-2 animate-spin" /> : <Check className="w-5 h-5 mr-2" />}
+              Set Passcode & Continue
             </Button>
           </div>
 
           <p className="text-xs text-slate-500 text-center">
-            This PIN is stored locally in your browser. Don&apos;t forget it!
+            Your data is encrypted in this browser with a key derived from this passcode. Don&apos;t forget it: it can&apos;t be recovered.
           </p>
         </div>
       </div>
@@ -78,14 +160,37 @@ export function AuthGuard({ children }: { children: React.ReactNode }) {
 
   // PIN is set but not authenticated
   if (!isAuthenticated) {
-    const handleLogin = () => {
-      if (authenticate(inputPin)) {
+    const passcodeType = getPasscodeType();
+    const input = PASSCODE_TYPES[passcodeType];
+    const waitSeconds = retryAt !== null ? Math.max(0, Math.ceil((retryAt - now) / 1000)) : 0;
+
+    const handleLogin = async () => {
+      if (retryAt !== null || !inputPin) return;
+      setIsBusy(true);
+      let success: boolean;
+      try {
+        success = await authenticate(inputPin);
+      } catch (err) {
+        setError(`Could not unlock: ${err instanceof Error ? err.message : String(err)}`);
+        return;
+      } finally {
+        setIsBusy(false);
         setInputPin("");
+      }
+      if (success) {
         setError("");
-      } else {
-        setError("Incorrect PIN");
-        setInputPin("");
+        return;
       }
+
+      const throttle = getUnlockThrottle();
+      setRetryAt(throttle.retryAt);
+      setNow(Date.now());
+      const remaining = FREE_UNLOCK_ATTEMPTS - throttle.failures;
+      setError(
+        remaining > 0
+          ? `Incorrect passcode. ${remaining} ${remaining === 1 ? "attempt" : "attempts"} left before a delay.`
+          : "Incorrect passcode."
+      );
     };
 
     return (
@@ -96,32 +201,40 @@ export function AuthGuard({ children }: { children: React.ReactNode }) {
               <Lock className="w-8 h-8 text-blue-500" />
             </div>
             <h1 className="text-3xl font-bold text-slate-50">NeuroStack</h1>
-            <p className="text-slate-400">Enter your PIN to continue</p>
+            <p className="text-slate-400">Enter your {passcodeType === "alphanumeric" ? "passcode" : "PIN"} to continue</p>
           </div>
 
           <div className="space-y-4">
             <Input
               type="password"
-              inputMode="numeric"
-              maxLength={4}
-              placeholder="Enter PIN"
+              inputMode={input.inputMode}
+              maxLength={input.maxLength}
+              placeholder={passcodeType === "alphanumeric" ? input.placeholder : "Enter PIN"}
               value={inputPin}
               onChange={(e) => {
-                setInputPin(e.target.value.replace(/\D/g, ""));
+                setInputPin(sanitizePasscodeInput(e.target.value, passcodeType));
                 setError("");
               }}
               onKeyDown={(e) => {
                 if (e.key === "Enter") handleLogin();
               }}
+              disabled={retryAt !== null}
               className="text-center text-2xl tracking-widest h-14"
               autoFocus
             />
-            {error && <p className="text-sm text-red-400 text-center">{error}</p>}
+            {retryAt !== null ? (
+              <p className="text-sm text-amber-400 text-center">
+                Too many incorrect attempts. Try again in {waitSeconds >= 60 ? `${Math.ceil(waitSeconds / 60)} min` : `${waitSeconds}s`}.
+              </p>
+            ) : (
+              error && <p className="text-sm text-red-400 text-center">{error}</p>
+            )}
             <Button
               onClick={handleLogin}
+              disabled={isBusy || retryAt !== null}
               className="w-full h-12 text-lg bg-blue-500 hover:bg-blue-600"
             >
-              <Lock className="w-5 h-5 mr-2" />
+              {isBusy ? <Loader2 className="w-5 h-5 mr-2 animate-spin" /> : <Lock className="w-5 h-5 mr-2" />}
               Unlock
             </Button>
           </div>
@@ -131,5 +244,29 @@ export function AuthGuard({ children }: { children: React.ReactNode }) {
   }
 
   // Authenticated - show the app
-  return <>{children}</>;
+  return (
+    <>
+      {migrationError && (
+        <div className="fixed top-0 inset-x-0 z-50 p-3">
+          <Alert variant="destructive" className="max-w-2xl mx-auto bg-slate-950/95">
+            <AlertDescription className="flex items-start gap-3">
+              <AlertTriangle className="w-4 h-4 mt-0.5 shrink-0" />
+              <span className="flex-1">
+                Your saved data couldn&apos;t be upgraded to this version of the app, so it opened empty (
+                {migrationError}). A recovery copy was kept: restore or download it in{" "}
+                <Link href="/settings" className="underline" onClick={dismissMigrationError}>
+                  Settings
+                </Link>
+                .
+              </span>
+              <button onClick={dismissMigrationError} aria-label="Dismiss">
+                <X className="w-4 h-4" />
+              </button>
+            </AlertDescription>
+          </Alert>
+        </div>
+      )}
+      {children}
+    </>
+  );
 }
@@ -1,26 +1,40 @@
 "use client";
 
 import { useState } from 'react';
-import { Calendar, Loader2, CheckCircle, AlertTriangle, Sun, Sunset, Moon } from 'lucide-react';
+import { Calendar, Loader2, CheckCircle, AlertTriangle, Sun, Sunset, Moon, Cpu } from 'lucide-react';
 import { autoScheduleCompounds, type ScheduleCompound, type ScheduleResult } from '@/lib/gemini-bio-coach';
+import { planDoses, DEFAULT_WAKE_TIME, type PlannerCompound } from '@/lib/dose-planner';
+import { DEFAULT_BEDTIME } from '@/lib/sleep-forecast';
+
+type ScheduleSource = 'ai' | 'local';
 
 interface AutoScheduleButtonProps {
   compounds: ScheduleCompound[];
+  plannerCompounds?: PlannerCompound[]; // Enables the offline planner
+  wakeTime?: string;
+  bedtime?: string;
   onScheduleGenerated?: (schedule: ScheduleResult) => void;
   className?: string;
 }
 
 /**
  * Auto-Schedule Button - Uses Gemini to automatically organize compounds
- * into Morning, Afternoon, and Evening slots based on pharmacological properties
+ * into Morning, Afternoon, and Evening slots based on pharmacological properties.
+ * With planner compounds it also offers a deterministic offline plan, and
+ * both results can be compared side by side.
  */
 export default function AutoScheduleButton({
   compounds,
+  plannerCompounds,
+  wakeTime = DEFAULT_WAKE_TIME,
+  bedtime = DEFAULT_BEDTIME,
   onScheduleGenerated,
   className = '',
 }: AutoScheduleButtonProps) {
   const [isGenerating, setIsGenerating] = useState(false);
-  const [schedule, setSchedule] = useState<ScheduleResult | null>(null);
+  const [schedules, setSchedules] = useState<Partial<Record<ScheduleSource, ScheduleResult>>>({});
+  const [activeSource, setActiveSource] = useState<ScheduleSource>('ai');
+  const [targetCoverageHours, setTargetCoverageHours] = useState(10);
   const [error, setError] = useState<string | null>(null);
   const [showResults, setShowResults] = useState(false);
   const [successMessage, setSuccessMessage] = useState<string | null>(null);
@@ -38,7 +52,8 @@ export default function AutoScheduleButton({
       const result = await autoScheduleCompounds(compounds);
       
       if (result) {
-        setSchedule(result);
+        setSchedules(prev => ({ ...prev, ai: result }));
+        setActiveSource('ai');
         setShowResults(true);
         onScheduleGenerated?.(result);
       } else {
@@ -52,6 +67,22 @@ export default function AutoScheduleButton({
     }
   }
 
+  function handleLocalPlan() {
+    if (!plannerCompounds || plannerCompounds.length === 0) {
+      setError('No compounds to schedule');
+      return;
+    }
+
+    setError(null);
+    const result = planDoses(plannerCompounds, { wakeTime, bedtime, targetCoverageHours });
+    setSchedules(prev => ({ ...prev, local: result }));
+    setActiveSource('local');
+    setShowResults(true);
+    onScheduleGenerated?.(result);
+  }
+
+  const schedule = schedules[activeSource] ?? null;
+
   function getTimeIcon(timeOfDay: string) {
     switch (timeOfDay) {
       case 'Morning':
@@ -88,7 +119,8 @@ export default function AutoScheduleButton({
         </div>
       )}
 
-      {/* Auto-Schedule Button */}
+      {/* Auto-Schedule Buttons */}
+      <div className="flex flex-wrap items-center gap-3">
       <button
         onClick={handleAutoSchedule}
         disabled={isGenerating || compounds.length === 0}
@@ -107,6 +139,32 @@ export default function AutoScheduleButton({
         )}
       </button>
 
+      {plannerCompounds && (
+        <>
+          <button
+            onClick={handleLocalPlan}
+            disabled={plannerCompounds.length === 0}
+            className="flex items-center gap-2 px-4 py-2 bg-slate-700 hover:bg-slate-600 disabled:opacity-50 disabled:cursor-not-allowed text-white rounded-lg font-medium transition-colors"
+          >
+            <Cpu className="h-4 w-4" />
+            <span>Plan Offline</span>
+          </button>
+          <label className="flex items-center gap-2 text-xs text-gray-400">
+            Cover
+            <input
+              type="number"
+              min={1}
+              max={20}
+              value={targetCoverageHours}
+              onChange={(e) => setTargetCoverageHours(Math.min(20, Math.max(1, Number(e.target.value) || 1)))}
+              className="w-14 px-2 py-1 bg-slate-800 border border-slate-700 rounded text-white"
+            />
+            h after waking
+          </label>
+        </>
+      )}
+      </div>
+
       {/* Error Message */}
       {error && (
         <div className="bg-red-900/20 border border-red-500/30 rounded-lg p-3 flex items-start gap-2">
@@ -126,6 +184,23 @@ export default function AutoScheduleButton({
               <CheckCircle className="h-6 w-6 text-green-400" />
               <h3 className="text-lg font-semibold text-white">Optimized Schedule</h3>
             </div>
+            {schedules.ai && schedules.local && (
+              <div className="flex gap-1 text-xs">
+                {(['ai', 'local'] as const).map(source => (
+                  <button
+                    key={source}
+                    onClick={() => setActiveSource(source)}
+                    className={`px-2 py-1 rounded border ${
+                      activeSource === source
+                        ? 'border-purple-500/50 bg-purple-900/30 text-purple-200'
+                        : 'border-slate-700 text-gray-400 hover:text-white'
+                    }`}
+                  >
+                    {source === 'ai' ? 'AI plan' : 'Local plan'}
+                  </button>
+                ))}
+              </div>
+            )}
             <button
               onClick={() => setShowResults(false)}
               className="text-sm text-gray-400 hover:text-white transition-colors"
@@ -230,7 +305,7 @@ export default function AutoScheduleButton({
               Apply Schedule
             </button>
             <button
-              onClick={handleAutoSchedule}
+              onClick={activeSource === 'local' ? handleLocalPlan : handleAutoSchedule}
               className="px-4 py-2 bg-slate-700 hover:bg-slate-600 text-white rounded-lg text-sm font-medium transition-colors"
             >
               Regenerate
@@ -1,10 +1,12 @@
 "use client";
 
-import { CompoundDetail as CompoundDetailType } from "@/lib/compound-types";
+import { CompoundDetail as CompoundDetailType, COMPOUND_DATA_SOURCES, INTERACTION_SEVERITIES } from "@/lib/compound-types";
 import { formatOnsetPeakDuration } from "@/lib/compound-library";
+import { getInteractionsFor } from "@/lib/interactions";
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
 import { Badge } from "@/components/ui/badge";
 import { Alert, AlertDescription } from "@/components/ui/alert";
+import { SEVERITY_STYLES } from "@/components/InteractionStatus";
 import {
   Clock,
   AlertTriangle,
@@ -26,6 +28,9 @@ export function CompoundDetail({ compound, open, onOpenChange }: CompoundDetailP
   if (!compound) return null;
 
   const timing = formatOnsetPeakDuration(compound);
+  const interactions = getInteractionsFor(compound);
+  const flaggedInteractions = interactions.filter(({ interaction }) => interaction.severity !== "none");
+  const clearedInteractions = interactions.filter(({ interaction }) => interaction.severity === "none");
 
   // Get badge color based on effect type
   const getEffectTypeColor = (effectType: string) => {
@@ -55,7 +60,7 @@ export function CompoundDetail({ compound, open, onOpenChange }: CompoundDetailP
 
   // Check if compound is recreational or has dependence risk
   const hasWarnings = 
-    compound.recreational !== "No" || 
+    (compound.recreational && compound.recreational !== "No") || 
     compound.dependenceTolerance.toLowerCase().includes("high") ||
     compound.dependenceTolerance.toLowerCase().includes("moderate");
 
@@ -96,7 +101,7 @@ export function CompoundDetail({ compound, open, onOpenChange }: CompoundDetailP
               <AlertTriangle className="w-4 h-4" />
               <AlertDescription>
                 <span className="font-semibold">Caution: </span>
-                {compound.recreational !== "No" && `Recreational potential: ${compound.recreational}. `}
+                {compound.recreational && compound.recreational !== "No" && `Recreational potential: ${compound.recreational}. `}
                 {compound.dependenceTolerance}
               </AlertDescription>
             </Alert>
@@ -187,26 +192,34 @@ export function CompoundDetail({ compound, open, onOpenChange }: CompoundDetailP
           {/* Interactions */}
           <div>
             <h3 className="text-sm font-semibold text-slate-400 mb-3">Drug Interactions</h3>
-            <div className="space-y-3">
-              <div className="bg-slate-800/50 rounded-lg p-3">
-                <div className="flex items-start gap-2">
-                  <Shield className="w-4 h-4 text-blue-400 mt-1 flex-shrink-0" />
-                  <div>
-                    <p className="text-sm font-medium text-slate-300">With Voxra (Bupropion)</p>
-                    <p className="text-sm text-slate-400 mt-1">{compound.interactions.voxra}</p>
+            {interactions.length === 0 ? (
+              <p className="text-sm text-slate-500">No interactions on record</p>
+            ) : (
+              <div className="space-y-3">
+                {flaggedInteractions.map(({ other, interaction }) => (
+                  <div key={other.name} className="bg-slate-800/50 rounded-lg p-3">
+                    <div className="flex items-start gap-2">
+                      <Shield className="w-4 h-4 text-blue-400 mt-1 flex-shrink-0" />
+                      <div className="flex-1">
+                        <div className="flex items-center justify-between gap-2">
+                          <p className="text-sm font-medium text-slate-300">With {other.name}</p>
+                          <Badge variant="outline" className={SEVERITY_STYLES[interaction.severity]}>
+                            {INTERACTION_SEVERITIES[interaction.severity]}
+                          </Badge>
+                        </div>
+                        <p className="text-sm text-slate-400 mt-1">{interaction.mechanism}</p>
+                        {interaction.source && <p className="text-xs text-slate-500 mt-1">{interaction.source}</p>}
+                      </div>
+                    </div>
                   </div>
-                </div>
-              </div>
-              <div className="bg-slate-800/50 rounded-lg p-3">
-                <div className="flex items-start gap-2">
-                  <Shield className="w-4 h-4 text-purple-400 mt-1 flex-shrink-0" />
-                  <div>
-                    <p className="text-sm font-medium text-slate-300">With SSRI (Escitalopram 10mg)</p>
-                    <p className="text-sm text-slate-400 mt-1">{compound.interactions.ssri}</p>
-                  </div>
-                </div>
+                ))}
+                {clearedInteractions.length > 0 && (
+                  <p className="text-xs text-slate-500">
+                    No known interaction with {clearedInteractions.map(({ other }) => other.name).join(", ")}
+                  </p>
+                )}
               </div>
-            </div>
+            )}
           </div>
 
           {/* Evidence */}
@@ -220,7 +233,28 @@ export function CompoundDetail({ compound, open, onOpenChange }: CompoundDetailP
                 </span>
               </div>
               <p className="text-sm text-slate-300">{compound.evidence.summary}</p>
+              {(compound.fdaApproved || compound.defaultDosage) && (
+                <div className="mt-3 pt-3 border-t border-slate-700 space-y-1 text-sm">
+                  {compound.fdaApproved && (
+                    <div className="flex justify-between">
+                      <span className="text-slate-400">FDA approved:</span>
+                      <span className="text-slate-200">{compound.fdaApproved}</span>
+                    </div>
+                  )}
+                  {compound.defaultDosage && (
+                    <div className="flex justify-between">
+                      <span className="text-slate-400">Typical dose:</span>
+                      <span className="text-slate-200">{compound.defaultDosage}</span>
+                    </div>
+                  )}
+                </div>
+              )}
             </div>
+            {compound.provenance && (
+              <p className="text-xs text-slate-500 mt-2">
+                Sources: {compound.provenance.sources.map((source) => COMPOUND_DATA_SOURCES[source]).join(", ")}
+              </p>
+            )}
           </div>
 
           {/* Disclaimer */}
@@ -3,8 +3,10 @@
 import { useState, useEffect, useMemo } from 'react';
 import { X, Clock, Zap, Shield, AlertCircle, Info } from 'lucide-react';
 import { LineChart, Line, XAxis, YAxis, ResponsiveContainer, Tooltip } from 'recharts';
-import { CompoundDetail } from '@/lib/compound-types';
-import { generatePharmacokineticCurve, formatTime, parsePharmacokineticString, type PharmacokineticParameters } from '@/lib/pharmacokinetics';
+import { CompoundDetail, INTERACTION_SEVERITIES, type OnsetPeakDuration } from '@/lib/compound-types';
+import { getInteractionsFor } from '@/lib/interactions';
+import { generatePharmacokineticCurve, formatTime, type PharmacokineticParameters } from '@/lib/pharmacokinetics';
+import { singleDoseTiming } from '@/lib/onset-parser';
 
 interface CompoundInfoPopupProps {
   compound: CompoundDetail;
@@ -36,6 +38,12 @@ export default function CompoundInfoPopup({
   // Parse onset/peak/duration from raw string
   const pharmacokinetics = parsePharmacokineticData(compound.onset?.raw || '');
 
+  // Known interactions worth flagging (pairs with no known interaction are left out)
+  const notableInteractions = useMemo(
+    () => getInteractionsFor(compound).filter(({ interaction }) => interaction.severity !== 'none'),
+    [compound]
+  );
+
   return (
     <>
       {/* Backdrop */}
@@ -156,7 +164,7 @@ export default function CompoundInfoPopup({
               )}
               
               {/* Mini Neuro-Curve */}
-              {compound.onset?.raw && <MiniNeuroCurve pharmacokineticsRaw={compound.onset.raw} compoundName={compound.name} />}
+              {compound.onset && <MiniNeuroCurve onset={compound.onset} compoundName={compound.name} />}
             </div>
 
             {/* Safety & Evidence */}
@@ -199,27 +207,21 @@ export default function CompoundInfoPopup({
             </div>
 
             {/* Interactions */}
-            {(compound.interactions?.voxra || compound.interactions?.ssri) && (
+            {notableInteractions.length > 0 && (
               <div>
                 <div className="flex items-center gap-2 mb-2">
                   <AlertCircle className="h-4 w-4 text-orange-400" />
                   <h4 className="text-sm font-semibold text-gray-300">Notable Interactions</h4>
                 </div>
                 <div className="space-y-2">
-                  {compound.interactions.voxra && (
-                    <div className="text-sm bg-orange-900/20 border border-orange-500/30 rounded p-2">
+                  {notableInteractions.map(({ other, interaction }) => (
+                    <div key={other.name} className="text-sm bg-orange-900/20 border border-orange-500/30 rounded p-2">
                       <p className="text-orange-300 font-medium text-xs mb-1">
-                        Bupropion (Voxra)
+                        {other.name} · {INTERACTION_SEVERITIES[interaction.severity]}
                       </p>
-                      <p className="text-gray-400 text-xs">{compound.interactions.voxra}</p>
-                    </div>
-                  )}
-                  {compound.interactions.ssri && (
-                    <div className="text-sm bg-orange-900/20 border border-orange-500/30 rounded p-2">
-                      <p className="text-orange-300 font-medium text-xs mb-1">SSRI</p>
-                      <p className="text-gray-400 text-xs">{compound.interactions.ssri}</p>
+                      <p className="text-gray-400 text-xs">{interaction.mechanism}</p>
                     </div>
-                  )}
+                  ))}
                 </div>
               </div>
             )}
@@ -276,16 +278,17 @@ function parsePharmacokineticData(raw: string): {
 /**
  * Mini Neuro-Curve - Compact visualization for single compound
  */
-function MiniNeuroCurve({ pharmacokineticsRaw, compoundName }: { pharmacokineticsRaw: string; compoundName: string }) {
+function MiniNeuroCurve({ onset, compoundName }: { onset: OnsetPeakDuration; compoundName: string }) {
   const curveData = useMemo(() => {
-    // Parse the pharmacokinetics string
-    const parsed = parsePharmacokineticString(pharmacokineticsRaw);
+    // Only plot timing read from the data; build-up times and unread parts don't make a curve
+    const timing = singleDoseTiming(onset);
+    if (timing.onset === undefined || timing.peak === undefined || timing.duration === undefined) return null;
     
     // Create parameters for curve generation (assume dose at 8 AM for visualization)
     const params: PharmacokineticParameters = {
-      onsetMinutes: parsed.onsetMinutes,
-      peakMinutes: parsed.peakMinutes,
-      durationMinutes: parsed.durationMinutes,
+      onsetMinutes: timing.onset,
+      peakMinutes: timing.peak,
+      durationMinutes: timing.duration,
       doseTime: 8, // 8 AM for visualization
     };
     
@@ -294,7 +297,7 @@ function MiniNeuroCurve({ pharmacokineticsRaw, compoundName }: { pharmacokinetic
     
     // Convert to chart data format, showing only the relevant time window
     const startHour = 8;
-    const endHour = startHour + (parsed.durationMinutes / 60) + 1;
+    const endHour = startHour + (timing.duration / 60) + 1;
     
     return curve
       .filter(point => point.time >= startHour && point.time <= endHour)
@@ -302,7 +305,7 @@ function MiniNeuroCurve({ pharmacokineticsRaw, compoundName }: { pharmacokinetic
         time: formatTime(point.time),
         concentration: point.concentration,
       }));
-  }, [pharmacokineticsRaw]);
+  }, [onset]);
   
   // Custom tooltip
   const CustomTooltip = ({ active, payload }: any) => {
@@ -319,6 +322,8 @@ function MiniNeuroCurve({ pharmacokineticsRaw, compoundName }: { pharmacokinetic
     return null;
   };
   
+  if (!curveData) return null;
+  
   return (
     <div className="mt-3 pt-3 border-t border-slate-700">
       <p className="text-xs text-gray-500 mb-2">Effect Curve</p>
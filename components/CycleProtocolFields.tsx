@@ -0,0 +1,114 @@
+"use client";
+
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select } from "@/components/ui/select";
+import { Switch } from "@/components/ui/switch";
+import type { CycleProtocol } from "@/lib/types";
+import { toLocalDateString } from "@/lib/dates";
+
+export interface CycleForm {
+  enabled: boolean;
+  on: string;
+  off: string;
+  unit: "days" | "weeks";
+  startDate: string;
+}
+
+/**
+ * Form state for a protocol; a disabled form starts from the suggestion
+ */
+export function toCycleForm(
+  protocol: CycleProtocol | undefined,
+  suggestion: Pick<CycleProtocol, "onDays" | "offDays">
+): CycleForm {
+  const { onDays, offDays } = protocol ?? suggestion;
+  const unit = onDays % 7 === 0 && offDays % 7 === 0 ? "weeks" : "days";
+  const scale = unit === "weeks" ? 7 : 1;
+  return {
+    enabled: protocol !== undefined,
+    on: String(onDays / scale),
+    off: String(offDays / scale),
+    unit,
+    startDate: protocol?.startDate ?? toLocalDateString(),
+  };
+}
+
+export function fromCycleForm(form: CycleForm): CycleProtocol | undefined {
+  if (!form.enabled) return undefined;
+  const scale = form.unit === "weeks" ? 7 : 1;
+  const onDays = Math.round(parseFloat(form.on) * scale);
+  const offDays = Math.round(parseFloat(form.off) * scale);
+  if (!(onDays >= 1) || !(offDays >= 1)) return undefined;
+  return { onDays, offDays, startDate: form.startDate || toLocalDateString() };
+}
+
+export function CycleProtocolFields({
+  form,
+  onChange,
+  idPrefix,
+}: {
+  form: CycleForm;
+  onChange: (form: CycleForm) => void;
+  idPrefix: string;
+}) {
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <div>
+          <Label htmlFor={`${idPrefix}-cycle`}>Cycle</Label>
+          <p className="text-xs text-slate-500">Alternate days on with a washout break</p>
+        </div>
+        <Switch
+          id={`${idPrefix}-cycle`}
+          checked={form.enabled}
+          onCheckedChange={(enabled) => onChange({ ...form, enabled })}
+        />
+      </div>
+      {form.enabled && (
+        <div className="grid grid-cols-2 gap-4">
+          <div className="space-y-2">
+            <Label htmlFor={`${idPrefix}-cycle-on`}>On</Label>
+            <Input
+              id={`${idPrefix}-cycle-on`}
+              type="number"
+              min="1"
+              value={form.on}
+              onChange={(e) => onChange({ ...form, on: e.target.value })}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor={`${idPrefix}-cycle-off`}>Off (washout)</Label>
+            <Input
+              id={`${idPrefix}-cycle-off`}
+              type="number"
+              min="1"
+              value={form.off}
+              onChange={(e) => onChange({ ...form, off: e.target.value })}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor={`${idPrefix}-cycle-unit`}>Counted in</Label>
+            <Select
+              id={`${idPrefix}-cycle-unit`}
+              value={form.unit}
+              onChange={(e) => onChange({ ...form, unit: e.target.value as CycleForm["unit"] })}
+            >
+              <option value="days">Days</option>
+              <option value="weeks">Weeks</option>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor={`${idPrefix}-cycle-start`}>First day on</Label>
+            <Input
+              id={`${idPrefix}-cycle-start`}
+              type="date"
+              value={form.startDate}
+              onChange={(e) => onChange({ ...form, startDate: e.target.value })}
+            />
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,73 @@
+"use client";
+
+import { useMemo } from "react";
+import { useStore } from "@/store/useStore";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Repeat } from "lucide-react";
+import { getCyclePhase, getCycleSources, type CyclePhaseName } from "@/lib/cycling";
+import { getCurrentTimeZone } from "@/lib/travel";
+
+const PHASE_LABELS: Record<CyclePhaseName, { label: string; className: string }> = {
+  upcoming: { label: "Not started", className: "bg-slate-500/20 text-slate-300 border-slate-500/30" },
+  on: { label: "On", className: "bg-emerald-500/20 text-emerald-300 border-emerald-500/30" },
+  off: { label: "Washout", className: "bg-blue-500/20 text-blue-300 border-blue-500/30" },
+};
+
+const formatDate = (timestamp: number, timeZone: string) =>
+  new Date(timestamp).toLocaleDateString([], { weekday: "short", month: "short", day: "numeric", timeZone });
+
+export function CycleStatus() {
+  const { compounds, stackPresets, settings } = useStore();
+  const timeZone = getCurrentTimeZone(settings);
+
+  const cycles = useMemo(() => {
+    const colors = new Map([...compounds, ...stackPresets].map((item) => [item.id, item.colorHex]));
+    return getCycleSources(compounds, stackPresets).map((source) => ({
+      source,
+      colorHex: colors.get(source.id),
+      phase: getCyclePhase(source.protocol, Date.now(), timeZone),
+    }));
+  }, [compounds, stackPresets, timeZone]);
+
+  if (cycles.length === 0) return null;
+
+  return (
+    <Card className="glass border-slate-800">
+      <CardHeader className="pb-2">
+        <CardTitle className="text-lg flex items-center gap-2">
+          <Repeat className="w-5 h-5 text-emerald-400" />
+          Cycles
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {cycles.map(({ source, colorHex, phase }) => {
+          const label = PHASE_LABELS[phase.phase];
+          return (
+            <div key={`${source.type}-${source.id}`} className="flex items-center justify-between gap-2">
+              <div className="flex items-center gap-2 min-w-0">
+                <div className="w-3 h-3 rounded-full flex-shrink-0" style={{ backgroundColor: colorHex }} />
+                <div className="min-w-0">
+                  <p className="text-sm font-medium truncate">
+                    {source.name}
+                    {source.type === "preset" && <span className="text-slate-500"> (preset)</span>}
+                  </p>
+                  <p className="text-xs text-slate-500">
+                    {phase.phase === "upcoming"
+                      ? `Starts ${formatDate(phase.nextPhaseStart, timeZone)}`
+                      : `Day ${phase.dayOfPhase} of ${phase.phaseLength} · ${phase.daysRemaining} ${
+                          phase.daysRemaining === 1 ? "day" : "days"
+                        } left · ${phase.phase === "on" ? "washout" : "back on"} ${formatDate(phase.nextPhaseStart, timeZone)}`}
+                  </p>
+                </div>
+              </div>
+              <Badge variant="outline" className={label.className}>
+                {label.label}
+              </Badge>
+            </div>
+          );
+        })}
+      </CardContent>
+    </Card>
+  );
+}
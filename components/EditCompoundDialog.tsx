@@ -0,0 +1,485 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { useStore } from "@/store/useStore";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select } from "@/components/ui/select";
+import { Switch } from "@/components/ui/switch";
+import { Save, RotateCcw, PackagePlus } from "lucide-react";
+import { Compound, CompoundInventory, DoseLimits, DoseUnit } from "@/lib/types";
+import { restockPackage } from "@/lib/inventory";
+import { toLocalDateString } from "@/lib/dates";
+import { DOSE_UNITS, convertDose, formatMass, isMassUnit, toMilligrams } from "@/lib/units";
+import { StrengthInput, emptyStrengthForm, fromStrengthForm, type StrengthForm } from "@/components/StrengthInput";
+import { SUGGESTED_CYCLES, suggestCycle } from "@/lib/cycling";
+import { CycleProtocolFields, fromCycleForm, toCycleForm, type CycleForm } from "@/components/CycleProtocolFields";
+import { FORMULATIONS, Formulation, PharmacokineticProfile } from "@/lib/compound-types";
+import { findLibraryCompound } from "@/lib/compound-library";
+
+interface EditCompoundDialogProps {
+  compound: Compound | null;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+interface PkForm {
+  halfLifeHours: string;
+  tmaxHours: string;
+  bioavailabilityPercent: string;
+  formulation: Formulation | "";
+}
+
+interface InventoryForm {
+  unit: DoseUnit | ""; // Empty: the compound's own unit
+  strength: StrengthForm;
+  quantity: string;
+  packageSize: string;
+  purchaseDate: string;
+  cost: string;
+  lowStockDays: string;
+  isPrescription: boolean;
+  refillDate: string;
+  refillsRemaining: string;
+}
+
+const toField = (value?: number) => (value === undefined ? "" : String(value));
+
+const parseField = (value: string): number | undefined => {
+  const number = parseFloat(value);
+  return Number.isFinite(number) && number > 0 ? number : undefined;
+};
+
+// Like parseField, but zero is a valid amount (an empty bottle, no refills left)
+const parseAmount = (value: string): number | undefined => {
+  const number = parseFloat(value);
+  return Number.isFinite(number) && number >= 0 ? number : undefined;
+};
+
+interface LimitsForm {
+  maxDailyDose: string;
+  minIntervalHours: string;
+}
+
+const toLimitsForm = (limits?: DoseLimits): LimitsForm => ({
+  maxDailyDose: toField(limits?.maxDailyDose),
+  minIntervalHours: toField(limits?.minIntervalHours),
+});
+
+const fromLimitsForm = (form: LimitsForm): DoseLimits | undefined => {
+  const maxDailyDose = parseField(form.maxDailyDose);
+  const minIntervalHours = parseField(form.minIntervalHours);
+  if (maxDailyDose === undefined && minIntervalHours === undefined) return undefined;
+  return { maxDailyDose, minIntervalHours };
+};
+
+const toInventoryForm = (inventory?: CompoundInventory): InventoryForm => ({
+  unit: inventory?.unit ?? "",
+  strength: inventory?.strength
+    ? { amount: String(inventory.strength.amount), unit: inventory.strength.unit }
+    : emptyStrengthForm(),
+  quantity: toField(inventory?.quantity),
+  packageSize: toField(inventory?.packageSize),
+  purchaseDate: inventory?.purchaseDate ?? "",
+  cost: toField(inventory?.cost),
+  lowStockDays: toField(inventory?.lowStockDays),
+  isPrescription: inventory?.prescription !== undefined,
+  refillDate: inventory?.prescription?.refillDate ?? "",
+  refillsRemaining: toField(inventory?.prescription?.refillsRemaining),
+});
+
+// Stock tracking is on once a quantity is entered
+const fromInventoryForm = (form: InventoryForm, compoundUnit: DoseUnit): CompoundInventory | undefined => {
+  const quantity = parseAmount(form.quantity);
+  if (quantity === undefined) return undefined;
+  const refillsRemaining = parseAmount(form.refillsRemaining);
+  const unit = form.unit && form.unit !== compoundUnit ? form.unit : undefined;
+  return {
+    quantity,
+    unit,
+    strength: unit ? fromStrengthForm(unit, form.strength) : undefined,
+    packageSize: parseField(form.packageSize),
+    purchaseDate: form.purchaseDate || undefined,
+    cost: parseAmount(form.cost),
+    lowStockDays: parseAmount(form.lowStockDays),
+    prescription: form.isPrescription
+      ? {
+          refillDate: form.refillDate || undefined,
+          refillsRemaining: refillsRemaining !== undefined ? Math.round(refillsRemaining) : undefined,
+        }
+      : undefined,
+  };
+};
+
+export function EditCompoundDialog({ compound, open, onOpenChange }: EditCompoundDialogProps) {
+  const { updateCompound } = useStore();
+  const [pkForm, setPkForm] = useState<PkForm>({
+    halfLifeHours: "",
+    tmaxHours: "",
+    bioavailabilityPercent: "",
+    formulation: "",
+  });
+  const [inventoryForm, setInventoryForm] = useState<InventoryForm>(toInventoryForm());
+  const [strengthForm, setStrengthForm] = useState<StrengthForm>(emptyStrengthForm);
+  const [cycleForm, setCycleForm] = useState<CycleForm>(toCycleForm(undefined, SUGGESTED_CYCLES.moderate));
+  const [limitsForm, setLimitsForm] = useState<LimitsForm>(toLimitsForm());
+
+  // Load the compound's own overrides whenever the dialog opens
+  useEffect(() => {
+    if (!compound || !open) return;
+    const own = compound.pharmacokinetics;
+    setPkForm({
+      halfLifeHours: toField(own?.halfLifeHours),
+      tmaxHours: toField(own?.tmaxHours),
+      bioavailabilityPercent: toField(
+        own?.bioavailability !== undefined ? own.bioavailability * 100 : undefined
+      ),
+      formulation: own?.formulation ?? "",
+    });
+    setInventoryForm(toInventoryForm(compound.inventory));
+    setStrengthForm(
+      compound.strength ? { amount: String(compound.strength.amount), unit: compound.strength.unit } : emptyStrengthForm()
+    );
+    setCycleForm(toCycleForm(compound.cycle, suggestCycle([compound])));
+    setLimitsForm(toLimitsForm(compound.limits));
+  }, [compound, open]);
+
+  if (!compound) return null;
+
+  // Library values are shown as placeholders and used when a field is left empty
+  const library = findLibraryCompound(compound)?.pharmacokinetics;
+
+  const handleSave = () => {
+    const pharmacokinetics: PharmacokineticProfile = {};
+    const halfLifeHours = parseField(pkForm.halfLifeHours);
+    const tmaxHours = parseField(pkForm.tmaxHours);
+    const bioavailabilityPercent = parseField(pkForm.bioavailabilityPercent);
+
+    if (halfLifeHours !== undefined) pharmacokinetics.halfLifeHours = halfLifeHours;
+    if (tmaxHours !== undefined) pharmacokinetics.tmaxHours = tmaxHours;
+    if (bioavailabilityPercent !== undefined) {
+      pharmacokinetics.bioavailability = Math.min(bioavailabilityPercent, 100) / 100;
+    }
+    if (pkForm.formulation) pharmacokinetics.formulation = pkForm.formulation;
+
+    updateCompound(compound.id, {
+      pharmacokinetics: Object.keys(pharmacokinetics).length > 0 ? pharmacokinetics : undefined,
+      inventory: fromInventoryForm(inventoryForm, compound.unit),
+      strength: fromStrengthForm(compound.unit, strengthForm),
+      cycle: fromCycleForm(cycleForm),
+      limits: fromLimitsForm(limitsForm),
+    });
+    onOpenChange(false);
+  };
+
+  const handleReset = () => {
+    setPkForm({ halfLifeHours: "", tmaxHours: "", bioavailabilityPercent: "", formulation: "" });
+  };
+
+  const isMass = isMassUnit(compound.unit);
+  const defaultDoseMass = toMilligrams(
+    { unit: compound.unit, strength: fromStrengthForm(compound.unit, strengthForm) },
+    compound.defaultDose
+  );
+
+  const inventory = fromInventoryForm(inventoryForm, compound.unit);
+  const stockUnit = inventoryForm.unit || compound.unit;
+  // Doses convert to a different stock unit through the strengths
+  const stockConvertible =
+    convertDose(
+      { unit: compound.unit, strength: fromStrengthForm(compound.unit, strengthForm) },
+      { unit: stockUnit, strength: fromStrengthForm(stockUnit, inventoryForm.strength) },
+      1
+    ) !== null;
+  const handleRestock = () => {
+    if (!inventory?.packageSize) return;
+    setInventoryForm(toInventoryForm(restockPackage(inventory, toLocalDateString())));
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent
+        onClose={() => onOpenChange(false)}
+        className="sm:max-w-[450px] bg-slate-900 border-slate-800 max-h-[90vh] overflow-y-auto"
+      >
+        <DialogHeader>
+          <DialogTitle>Edit {compound.name}</DialogTitle>
+        </DialogHeader>
+
+        <div className="space-y-4 py-4">
+          {!isMass && (
+            <>
+              <StrengthInput unit={compound.unit} form={strengthForm} onChange={setStrengthForm} id="strength" />
+              {defaultDoseMass !== null && (
+                <p className="text-xs text-slate-500">
+                  Default dose {compound.defaultDose} {compound.unit} ≈ {formatMass(defaultDoseMass)}
+                </p>
+              )}
+            </>
+          )}
+
+          <div className={isMass ? "space-y-1" : "space-y-1 pt-2 border-t border-slate-800"}>
+            <Label className="text-base font-semibold">Pharmacokinetics</Label>
+            <p className="text-xs text-slate-500">
+              Used by the Neuro-Curve instead of onset/peak/duration estimates.
+              {library ? " Leave a field empty to use the library value." : ""}
+            </p>
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="half-life">Half-life (h)</Label>
+              <Input
+                id="half-life"
+                type="number"
+                min="0"
+                step="0.1"
+                placeholder={toField(library?.halfLifeHours) || "e.g., 5"}
+                value={pkForm.halfLifeHours}
+                onChange={(e) => setPkForm({ ...pkForm, halfLifeHours: e.target.value })}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="tmax">Tmax (h)</Label>
+              <Input
+                id="tmax"
+                type="number"
+                min="0"
+                step="0.1"
+                placeholder={toField(library?.tmaxHours) || "e.g., 1.5"}
+                value={pkForm.tmaxHours}
+                onChange={(e) => setPkForm({ ...pkForm, tmaxHours: e.target.value })}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="bioavailability">Bioavailability (%)</Label>
+              <Input
+                id="bioavailability"
+                type="number"
+                min="0"
+                max="100"
+                placeholder={
+                  library?.bioavailability !== undefined
+                    ? String(Math.round(library.bioavailability * 100))
+                    : "e.g., 80"
+                }
+                value={pkForm.bioavailabilityPercent}
+                onChange={(e) => setPkForm({ ...pkForm, bioavailabilityPercent: e.target.value })}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="formulation">Formulation</Label>
+              <Select
+                id="formulation"
+                value={pkForm.formulation}
+                onChange={(e) =>
+                  setPkForm({ ...pkForm, formulation: e.target.value as Formulation | "" })
+                }
+              >
+                <option value="">
+                  Auto{library?.formulation ? ` (${library.formulation})` : ""}
+                </option>
+                {(Object.keys(FORMULATIONS) as Formulation[]).map((formulation) => (
+                  <option key={formulation} value={formulation}>
+                    {FORMULATIONS[formulation]}
+                  </option>
+                ))}
+              </Select>
+            </div>
+          </div>
+
+          {library?.source && (
+            <p className="text-xs text-slate-500">Library source: {library.source}</p>
+          )}
+
+          <div className="space-y-1 pt-2 border-t border-slate-800">
+            <Label className="text-base font-semibold">Inventory</Label>
+            <p className="text-xs text-slate-500">
+              Amounts in {stockUnit}. Enter the quantity on hand to track stock; every logged dose is deducted.
+            </p>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="stock-unit">Counted in</Label>
+            <Select
+              id="stock-unit"
+              value={inventoryForm.unit}
+              onChange={(e) => setInventoryForm({ ...inventoryForm, unit: e.target.value as DoseUnit | "" })}
+            >
+              <option value="">{compound.unit} (as logged)</option>
+              {DOSE_UNITS.filter((unit) => unit !== compound.unit).map((unit) => (
+                <option key={unit} value={unit}>
+                  {unit}
+                </option>
+              ))}
+            </Select>
+          </div>
+          {stockUnit !== compound.unit && (
+            <StrengthInput
+              unit={stockUnit}
+              form={inventoryForm.strength}
+              onChange={(strength) => setInventoryForm({ ...inventoryForm, strength })}
+              id="stock-strength"
+              hint="Converts logged doses into stock"
+            />
+          )}
+          {!stockConvertible && (
+            <p className="text-xs text-amber-400">
+              Doses in {compound.unit} can&apos;t be converted to {stockUnit}; set the strengths so logging deducts stock.
+            </p>
+          )}
+
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="quantity">On hand ({stockUnit})</Label>
+              <Input
+                id="quantity"
+                type="number"
+                min="0"
+                placeholder="Not tracked"
+                value={inventoryForm.quantity}
+                onChange={(e) => setInventoryForm({ ...inventoryForm, quantity: e.target.value })}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="package-size">Package size ({stockUnit})</Label>
+              <Input
+                id="package-size"
+                type="number"
+                min="0"
+                placeholder="e.g., 60"
+                value={inventoryForm.packageSize}
+                onChange={(e) => setInventoryForm({ ...inventoryForm, packageSize: e.target.value })}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="purchase-date">Purchased</Label>
+              <Input
+                id="purchase-date"
+                type="date"
+                value={inventoryForm.purchaseDate}
+                onChange={(e) => setInventoryForm({ ...inventoryForm, purchaseDate: e.target.value })}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="cost">Cost per package</Label>
+              <Input
+                id="cost"
+                type="number"
+                min="0"
+                step="0.01"
+                placeholder="e.g., 24.99"
+                value={inventoryForm.cost}
+                onChange={(e) => setInventoryForm({ ...inventoryForm, cost: e.target.value })}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="low-stock">Warn below (days)</Label>
+              <Input
+                id="low-stock"
+                type="number"
+                min="0"
+                placeholder="7"
+                value={inventoryForm.lowStockDays}
+                onChange={(e) => setInventoryForm({ ...inventoryForm, lowStockDays: e.target.value })}
+              />
+            </div>
+            <div className="space-y-2 flex flex-col justify-end">
+              <Button
+                variant="outline"
+                onClick={handleRestock}
+                disabled={!inventory?.packageSize}
+                title="Add one package to the stock"
+              >
+                <PackagePlus className="w-4 h-4 mr-2" />
+                Add Package
+              </Button>
+            </div>
+          </div>
+
+          <div className="flex items-center justify-between">
+            <Label htmlFor="prescription">Prescription</Label>
+            <Switch
+              id="prescription"
+              checked={inventoryForm.isPrescription}
+              onCheckedChange={(isPrescription) => setInventoryForm({ ...inventoryForm, isPrescription })}
+            />
+          </div>
+          {inventoryForm.isPrescription && (
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="refill-date">Next refill</Label>
+                <Input
+                  id="refill-date"
+                  type="date"
+                  value={inventoryForm.refillDate}
+                  onChange={(e) => setInventoryForm({ ...inventoryForm, refillDate: e.target.value })}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="refills-remaining">Refills remaining</Label>
+                <Input
+                  id="refills-remaining"
+                  type="number"
+                  min="0"
+                  step="1"
+                  value={inventoryForm.refillsRemaining}
+                  onChange={(e) => setInventoryForm({ ...inventoryForm, refillsRemaining: e.target.value })}
+                />
+              </div>
+            </div>
+          )}
+
+          <div className="space-y-1 pt-2 border-t border-slate-800">
+            <Label className="text-base font-semibold">Safety Limits</Label>
+            <p className="text-xs text-slate-500">
+              Logging past these asks for confirmation and a note. Leave empty for no limit.
+            </p>
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="max-daily-dose">Max per day ({compound.unit})</Label>
+              <Input
+                id="max-daily-dose"
+                type="number"
+                min="0"
+                step="any"
+                value={limitsForm.maxDailyDose}
+                onChange={(e) => setLimitsForm({ ...limitsForm, maxDailyDose: e.target.value })}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="min-interval">Min interval (h)</Label>
+              <Input
+                id="min-interval"
+                type="number"
+                min="0"
+                step="0.5"
+                value={limitsForm.minIntervalHours}
+                onChange={(e) => setLimitsForm({ ...limitsForm, minIntervalHours: e.target.value })}
+              />
+            </div>
+          </div>
+
+          <div className="pt-2 border-t border-slate-800">
+            <CycleProtocolFields form={cycleForm} onChange={setCycleForm} idPrefix="compound" />
+          </div>
+
+          <div className="flex gap-2">
+            <Button variant="outline" onClick={handleReset} className="flex-1">
+              <RotateCcw className="w-4 h-4 mr-2" />
+              {library ? "Use Library Values" : "Clear"}
+            </Button>
+            <Button onClick={handleSave} className="flex-1">
+              <Save className="w-4 h-4 mr-2" />
+              Save
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
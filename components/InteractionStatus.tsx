@@ -0,0 +1,110 @@
+"use client";
+
+import { useMemo } from "react";
+import { useStore } from "@/store/useStore";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { ShieldAlert, Sparkles } from "lucide-react";
+import { checkInteractions } from "@/lib/interactions";
+import { inferInteractions } from "@/lib/interaction-rules";
+import { INTERACTION_SEVERITIES, type InteractionSeverity } from "@/lib/compound-types";
+
+export const SEVERITY_STYLES: Record<InteractionSeverity, string> = {
+  none: "bg-slate-500/20 text-slate-300 border-slate-500/30",
+  minor: "bg-blue-500/20 text-blue-300 border-blue-500/30",
+  moderate: "bg-amber-500/20 text-amber-300 border-amber-500/30",
+  major: "bg-red-500/20 text-red-300 border-red-500/30",
+};
+
+export function InteractionStatus() {
+  const { compounds, stackPresets } = useStore();
+
+  const findings = useMemo(() => checkInteractions(compounds, stackPresets), [compounds, stackPresets]);
+  const inferred = useMemo(() => inferInteractions(compounds, stackPresets), [compounds, stackPresets]);
+
+  if (findings.length === 0 && inferred.length === 0) return null;
+
+  const flagged = findings.filter((finding) => finding.interaction.severity !== "none");
+  const cleared = findings.length - flagged.length;
+  const presetName = (id: string) => stackPresets.find((p) => p.id === id)?.name;
+  const context = (active: boolean, presetIds: string[], source?: string) =>
+    [
+      active ? "Both active" : null,
+      ...presetIds.map((id) => presetName(id)).filter(Boolean).map((name) => `in ${name}`),
+      source,
+    ]
+      .filter(Boolean)
+      .join(" · ");
+
+  return (
+    <Card className="glass border-slate-800">
+      <CardHeader className="pb-2">
+        <CardTitle className="text-lg flex items-center gap-2">
+          <ShieldAlert className="w-5 h-5 text-orange-400" />
+          Interactions
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {flagged.map(({ interaction, compounds: [first, second], presetIds, active }) => (
+          <div key={`${first.id}-${second.id}-${interaction.mechanism}`} className="space-y-1">
+            <div className="flex items-center justify-between gap-2">
+              <p className="text-sm font-medium min-w-0 truncate">
+                <span style={{ color: first.colorHex }}>{first.name}</span>
+                <span className="text-slate-500"> + </span>
+                <span style={{ color: second.colorHex }}>{second.name}</span>
+              </p>
+              <Badge variant="outline" className={SEVERITY_STYLES[interaction.severity]}>
+                {INTERACTION_SEVERITIES[interaction.severity]}
+              </Badge>
+            </div>
+            <p className="text-xs text-slate-400">{interaction.mechanism}</p>
+            <p className="text-xs text-slate-500">{context(active, presetIds, interaction.source)}</p>
+          </div>
+        ))}
+        {cleared > 0 && (
+          <p className="text-xs text-slate-500">
+            {flagged.length > 0 && "Also checked: "}
+            {cleared} {cleared === 1 ? "pair" : "pairs"} in your stack with no known interaction
+          </p>
+        )}
+
+        {/* Inferred from mechanism overlap, for pairs without curated data */}
+        {inferred.length > 0 && (
+          <div className="space-y-3 pt-3 border-t border-dashed border-slate-700">
+            <p className="text-xs font-semibold text-slate-400 flex items-center gap-1">
+              <Sparkles className="w-3 h-3" />
+              Inferred from mechanisms (no curated data for these pairs)
+            </p>
+            {inferred.map(({ compounds: [first, second], severity, matches, presetIds, active }) => (
+              <div key={`${first.id}-${second.id}`} className="space-y-1">
+                <div className="flex items-center justify-between gap-2">
+                  <p className="text-sm font-medium min-w-0 truncate">
+                    <span style={{ color: first.colorHex }}>{first.name}</span>
+                    <span className="text-slate-500"> + </span>
+                    <span style={{ color: second.colorHex }}>{second.name}</span>
+                  </p>
+                  <Badge variant="outline" className={`border-dashed ${SEVERITY_STYLES[severity]}`}>
+                    {INTERACTION_SEVERITIES[severity]} (inferred)
+                  </Badge>
+                </div>
+                {matches.map(({ rule, evidence }) => (
+                  <div key={rule.id} className="text-xs">
+                    <p className="text-slate-300">
+                      Rule: {rule.label}
+                      <span className="text-slate-500">
+                        {" "}
+                        ({first.name}: {evidence[0]}; {second.name}: {evidence[1]})
+                      </span>
+                    </p>
+                    <p className="text-slate-400">{rule.description}</p>
+                  </div>
+                ))}
+                <p className="text-xs text-slate-500">{context(active, presetIds)}</p>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,76 @@
+"use client";
+
+import { useMemo } from "react";
+import { useStore } from "@/store/useStore";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Package } from "lucide-react";
+import { forecastSupply, type SupplyStatus } from "@/lib/inventory";
+
+const STATUS_LABELS: Record<Exclude<SupplyStatus, "ok">, { label: string; className: string }> = {
+  low: { label: "Low stock", className: "bg-amber-500/20 text-amber-300 border-amber-500/30" },
+  out: { label: "Out of stock", className: "bg-red-500/20 text-red-300 border-red-500/30" },
+};
+
+const formatDate = (timestamp: number) =>
+  new Date(timestamp).toLocaleDateString([], { weekday: "short", month: "short", day: "numeric" });
+
+export function InventoryStatus() {
+  const { compounds, logEntries } = useStore();
+
+  const alerts = useMemo(() => {
+    return compounds
+      .filter((compound) => compound.isActive)
+      .map((compound) => ({ compound, supply: forecastSupply(compound, logEntries) }))
+      .filter(
+        (item): item is typeof item & { supply: NonNullable<typeof item.supply> } =>
+          item.supply !== null && (item.supply.status !== "ok" || item.supply.refillDue)
+      );
+  }, [compounds, logEntries]);
+
+  if (alerts.length === 0) return null;
+
+  return (
+    <Card className="glass border-slate-800">
+      <CardHeader className="pb-2">
+        <CardTitle className="text-lg flex items-center gap-2">
+          <Package className="w-5 h-5 text-amber-400" />
+          Supply
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {alerts.map(({ compound, supply }) => {
+          const refills = compound.inventory?.prescription?.refillsRemaining;
+          return (
+            <div key={compound.id} className="flex items-center justify-between gap-2">
+              <div className="flex items-center gap-2 min-w-0">
+                <div
+                  className="w-3 h-3 rounded-full flex-shrink-0"
+                  style={{ backgroundColor: compound.colorHex }}
+                />
+                <div className="min-w-0">
+                  <p className="text-sm font-medium truncate">{compound.name}</p>
+                  <p className="text-xs text-slate-500">
+                    {+supply.quantity.toFixed(2)} {supply.unit} left
+                    {supply.runOutDate !== null && supply.status !== "out" && ` · runs out ${formatDate(supply.runOutDate)}`}
+                    {supply.refillDue && supply.refillDate !== null && ` · refill ${supply.refillDate < Date.now() ? "overdue since" : "due"} ${formatDate(supply.refillDate)}`}
+                    {supply.refillDue && refills !== undefined && ` (${refills} ${refills === 1 ? "refill" : "refills"} left)`}
+                  </p>
+                </div>
+              </div>
+              {supply.status !== "ok" ? (
+                <Badge variant="outline" className={STATUS_LABELS[supply.status].className}>
+                  {STATUS_LABELS[supply.status].label}
+                </Badge>
+              ) : (
+                <Badge variant="outline" className="bg-blue-500/20 text-blue-300 border-blue-500/30">
+                  Refill due
+                </Badge>
+              )}
+            </div>
+          );
+        })}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,271 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { useStore } from "@/store/useStore";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select } from "@/components/ui/select";
+import { Slider } from "@/components/ui/slider";
+import { Textarea } from "@/components/ui/textarea";
+import { Plus, Save, X } from "lucide-react";
+import type { DoseItem, LogEntry, SafetyOverride } from "@/lib/types";
+import { fromDateTimeInput, toDateTimeInput, toLocalDateString } from "@/lib/dates";
+import { getCurrentTimeZone } from "@/lib/travel";
+import { checkDoseSafety, type SafetyIssue } from "@/lib/dose-safety";
+import { SafetyGateDialog } from "@/components/SafetyGateDialog";
+
+interface DoseRow {
+  id: string; // The same compound can appear in several rows, at different times
+  compoundId: string;
+  dose: string;
+  time: string; // datetime-local value
+}
+
+interface LogEntryDialogProps {
+  /** Entry to edit; a new (possibly backdated) entry when null */
+  entry: LogEntry | null;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+// Future times are allowed up to this far ahead (clock drift, typing the next minute)
+const FUTURE_TOLERANCE_MS = 5 * 60 * 1000;
+
+const newRowId = () => Math.random().toString(36).substr(2, 9);
+
+export function LogEntryDialog({ entry, open, onOpenChange }: LogEntryDialogProps) {
+  const { compounds, logEntries, settings, addLog, updateLog } = useStore();
+  const [time, setTime] = useState("");
+  const [doses, setDoses] = useState<DoseRow[]>([]);
+  const [anxiety, setAnxiety] = useState(5);
+  const [functionality, setFunctionality] = useState(5);
+  const [notes, setNotes] = useState("");
+  const [error, setError] = useState("");
+  const [safetyIssues, setSafetyIssues] = useState<SafetyIssue[]>([]);
+
+  // Edits stay in the zone the entry was logged in
+  const timeZone = entry?.timeZone ?? getCurrentTimeZone(settings);
+
+  useEffect(() => {
+    if (!open) return;
+    const timestamp = entry?.timestamp ?? Date.now();
+    setTime(toDateTimeInput(timestamp, timeZone));
+    setDoses(
+      entry
+        ? entry.doseItems.map((item) => ({
+            id: newRowId(),
+            compoundId: item.compoundId,
+            dose: String(item.dose),
+            time: toDateTimeInput(item.timestamp, timeZone),
+          }))
+        : []
+    );
+    setAnxiety(entry?.anxiety ?? 5);
+    setFunctionality(entry?.functionality ?? 5);
+    setNotes(entry?.notes ?? "");
+    setError("");
+    setSafetyIssues([]);
+  }, [open, entry, timeZone]);
+
+  // Doses taken at the entry's time move with it
+  const handleTimeChange = (value: string) => {
+    setDoses((rows) => rows.map((row) => (row.time === time ? { ...row, time: value } : row)));
+    setTime(value);
+  };
+
+  const handleAddDose = (compoundId: string) => {
+    const compound = compounds.find((c) => c.id === compoundId);
+    if (!compound) return;
+    setDoses([...doses, { id: newRowId(), compoundId, dose: String(compound.defaultDose), time }]);
+  };
+
+  const updateRow = (id: string, changes: Partial<DoseRow>) =>
+    setDoses((rows) => rows.map((row) => (row.id === id ? { ...row, ...changes } : row)));
+
+  // Entry values from the form, or an error message
+  const readForm = (): { timestamp: number; doseItems: DoseItem[] } | string => {
+    const timestamp = fromDateTimeInput(time, timeZone);
+    if (timestamp === null) return "Enter a date and time";
+    if (timestamp > Date.now() + FUTURE_TOLERANCE_MS) return "The entry can't be in the future";
+
+    const doseItems: DoseItem[] = [];
+    for (const row of doses) {
+      const dose = parseFloat(row.dose);
+      const doseTime = fromDateTimeInput(row.time, timeZone);
+      if (!(dose > 0)) continue;
+      if (doseTime === null) return "Every dose needs a time";
+      if (doseTime > Date.now() + FUTURE_TOLERANCE_MS) return "Doses can't be in the future";
+      doseItems.push({ compoundId: row.compoundId, dose, timestamp: doseTime });
+    }
+    return { timestamp, doseItems };
+  };
+
+  const saveEntry = (safetyOverride?: SafetyOverride) => {
+    const form = readForm();
+    if (typeof form === "string") return setError(form);
+
+    const values = {
+      date: toLocalDateString(form.timestamp, timeZone),
+      timestamp: form.timestamp,
+      doseItems: form.doseItems,
+      anxiety,
+      functionality,
+      notes,
+    };
+    if (entry) {
+      // A clean re-check clears an override left from before the edit
+      updateLog(entry.id, { ...values, safetyOverride: safetyOverride ?? undefined });
+    } else {
+      addLog({ ...values, timeZone, ...(safetyOverride && { safetyOverride }) });
+    }
+    setSafetyIssues([]);
+    onOpenChange(false);
+  };
+
+  const handleSave = () => {
+    const form = readForm();
+    if (typeof form === "string") return setError(form);
+
+    // Same limits and combination checks as logging now, at each dose's own time;
+    // the entry being edited doesn't count against itself
+    const issues = checkDoseSafety(
+      form.doseItems,
+      compounds,
+      logEntries.filter((log) => log.id !== entry?.id),
+      { timeZone, interactionWindowHours: settings.interactionWindowHours }
+    );
+    if (issues.length > 0) {
+      setSafetyIssues(issues);
+      return;
+    }
+
+    saveEntry();
+  };
+
+  const handleOverride = (note: string) => {
+    saveEntry({ issues: safetyIssues.map((issue) => issue.message), note });
+  };
+
+  return (
+    <>
+      <Dialog open={open} onOpenChange={onOpenChange}>
+        <DialogContent
+          onClose={() => onOpenChange(false)}
+          className="sm:max-w-[500px] bg-slate-900 border-slate-800 max-h-[90vh] overflow-y-auto"
+        >
+          <DialogHeader>
+            <DialogTitle>{entry ? "Edit Log Entry" : "Add Past Entry"}</DialogTitle>
+          </DialogHeader>
+
+          <div className="space-y-6 py-4">
+            <div className="space-y-2">
+              <Label htmlFor="entry-time">When</Label>
+              <Input
+                id="entry-time"
+                type="datetime-local"
+                value={time}
+                onChange={(e) => handleTimeChange(e.target.value)}
+              />
+              {timeZone !== settings.homeTimeZone && (
+                <p className="text-xs text-slate-500">Times in {timeZone.replace(/_/g, " ")}</p>
+              )}
+            </div>
+
+            {/* Dose Items */}
+            <div className="space-y-3">
+              <Label className="text-base font-semibold">Doses</Label>
+              {doses.length === 0 && <p className="text-sm text-slate-500">No doses in this entry</p>}
+              {doses.map((row) => {
+                const compound = compounds.find((c) => c.id === row.compoundId);
+                return (
+                  <div key={row.id} className="space-y-2 p-3 rounded-lg bg-slate-800/50">
+                    <div className="flex items-center justify-between">
+                      <span className="text-sm font-medium" style={{ color: compound?.colorHex }}>
+                        {compound?.name ?? "Deleted compound"}
+                      </span>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        className="h-7 w-7"
+                        onClick={() => setDoses(doses.filter((r) => r.id !== row.id))}
+                      >
+                        <X className="w-4 h-4" />
+                      </Button>
+                    </div>
+                    <div className="grid grid-cols-[1fr_auto] gap-2">
+                      <Input
+                        type="datetime-local"
+                        value={row.time}
+                        onChange={(e) => updateRow(row.id, { time: e.target.value })}
+                      />
+                      <div className="flex items-center gap-1">
+                        <Input
+                          type="number"
+                          min="0"
+                          value={row.dose}
+                          onChange={(e) => updateRow(row.id, { dose: e.target.value })}
+                          className="w-24"
+                        />
+                        <span className="text-xs text-slate-400 w-8">{compound?.unit}</span>
+                      </div>
+                    </div>
+                  </div>
+                );
+              })}
+              {compounds.length > 0 && (
+                <div className="flex items-center gap-2">
+                  <Plus className="w-4 h-4 text-slate-500" />
+                  <Select value="" onChange={(e) => handleAddDose(e.target.value)}>
+                    <option value="">Add a compound...</option>
+                    {compounds.map((compound) => (
+                      <option key={compound.id} value={compound.id}>
+                        {compound.name}
+                      </option>
+                    ))}
+                  </Select>
+                </div>
+              )}
+            </div>
+
+            <div className="space-y-2">
+              <div className="flex items-center justify-between">
+                <Label>Anxiety Level</Label>
+                <span className="text-lg font-bold" style={{ color: "#ff4444" }}>
+                  {anxiety}/10
+                </span>
+              </div>
+              <Slider value={anxiety} onValueChange={setAnxiety} min={1} max={10} step={1} />
+            </div>
+
+            <div className="space-y-2">
+              <div className="flex items-center justify-between">
+                <Label>Functionality Level</Label>
+                <span className="text-lg font-bold" style={{ color: "#10b981" }}>
+                  {functionality}/10
+                </span>
+              </div>
+              <Slider value={functionality} onValueChange={setFunctionality} min={1} max={10} step={1} />
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="entry-notes">Notes (Optional)</Label>
+              <Textarea id="entry-notes" value={notes} onChange={(e) => setNotes(e.target.value)} rows={3} />
+            </div>
+
+            {error && <p className="text-sm text-red-400">{error}</p>}
+
+            <Button onClick={handleSave} className="w-full bg-blue-500 hover:bg-blue-600">
+              <Save className="w-4 h-4 mr-2" />
+              {entry ? "Save Changes" : "Add Entry"}
+            </Button>
+          </div>
+        </DialogContent>
+      </Dialog>
+
+      {/* Pre-Save Safety Gate */}
+      <SafetyGateDialog issues={safetyIssues} onOverride={handleOverride} onCancel={() => setSafetyIssues([])} />
+    </>
+  );
+}
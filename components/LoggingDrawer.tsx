@@ -1,6 +1,6 @@
 "use client";
 
-import { useState, useEffect } from "react";
+import { useState, useEffect, useMemo } from "react";
 import { useStore } from "@/store/useStore";
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
 import { Button } from "@/components/ui/button";
@@ -8,7 +8,15 @@ import { Label } from "@/components/ui/label";
 import { Slider } from "@/components/ui/slider";
 import { Textarea } from "@/components/ui/textarea";
 import { Input } from "@/components/ui/input";
-import { Save, Plus, Minus } from "lucide-react";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Save, Plus, Minus, Moon, Repeat } from "lucide-react";
+import { forecastSleepImpact } from "@/lib/sleep-forecast";
+import { findWashoutConflicts } from "@/lib/cycling";
+import { toLocalDateString } from "@/lib/dates";
+import { getCurrentTimeZone } from "@/lib/travel";
+import { checkDoseSafety, type SafetyIssue } from "@/lib/dose-safety";
+import { SafetyGateDialog } from "@/components/SafetyGateDialog";
+import type { SafetyOverride } from "@/lib/types";
 
 interface DoseInput {
   compoundId: string;
@@ -16,11 +24,13 @@ interface DoseInput {
 }
 
 export function LoggingDrawer({ open, onOpenChange }: { open: boolean; onOpenChange: (open: boolean) => void }) {
-  const { compounds, addLog } = useStore();
+  const { compounds, stackPresets, logEntries, settings, addLog } = useStore();
   const [doseInputs, setDoseInputs] = useState<DoseInput[]>([]);
   const [anxiety, setAnxiety] = useState(5);
   const [functionality, setFunctionality] = useState(5);
   const [notes, setNotes] = useState("");
+  const [confirmWarnings, setConfirmWarnings] = useState(false);
+  const [safetyIssues, setSafetyIssues] = useState<SafetyIssue[]>([]);
 
   // Initialize dose inputs when compounds change
   useEffect(() => {
@@ -38,6 +48,41 @@ export function LoggingDrawer({ open, onOpenChange }: { open: boolean; onOpenCha
 
   const activeCompounds = compounds.filter((c) => c.isActive);
 
+  // Residual load at bedtime with and without the doses being entered
+  const sleepRisk = useMemo(() => {
+    if (!open) return null;
+    const now = Date.now();
+    const planned = doseInputs.map((input) => ({ ...input, timestamp: now }));
+    const timeZone = getCurrentTimeZone(settings, now);
+    const withDoses = forecastSleepImpact(compounds, logEntries, planned, settings.bedtime, now, timeZone);
+    const withoutDoses = forecastSleepImpact(compounds, logEntries, [], settings.bedtime, now, timeZone);
+
+    const addsStimulation = withDoses.stimulantLoad > withoutDoses.stimulantLoad + 0.01;
+    const addsSedation = withDoses.sedativeLoad > withoutDoses.sedativeLoad + 0.01;
+    if (!(withDoses.disruptsSleep && addsStimulation) && !(withDoses.excessSedation && addsSedation)) {
+      return null;
+    }
+    return withDoses;
+  }, [open, doseInputs, compounds, logEntries, settings]);
+
+  // Compounds a cycle protocol has in washout today
+  const washoutConflicts = useMemo(() => {
+    if (!open) return [];
+    const now = Date.now();
+    return findWashoutConflicts(
+      compounds,
+      stackPresets,
+      doseInputs.filter((input) => input.dose > 0).map((input) => input.compoundId),
+      now,
+      getCurrentTimeZone(settings, now)
+    );
+  }, [open, doseInputs, compounds, stackPresets, settings]);
+
+  // Any edit to the doses needs a fresh confirmation
+  useEffect(() => {
+    setConfirmWarnings(false);
+  }, [doseInputs]);
+
   const handleDoseChange = (compoundId: string, delta: number) => {
     setDoseInputs((prev) =>
       prev.map((input) =>
@@ -48,30 +93,60 @@ export function LoggingDrawer({ open, onOpenChange }: { open: boolean; onOpenCha
     );
   };
 
-  const handleSave = () => {
-    const date = new Date().toISOString().split("T")[0];
-    
+  const saveEntry = (now: number, safetyOverride?: SafetyOverride) => {
+    const timeZone = getCurrentTimeZone(settings, now);
+
     addLog({
-      date,
+      date: toLocalDateString(now, timeZone),
+      timeZone,
       doseItems: doseInputs
         .filter((input) => input.dose > 0)
         .map((input) => ({
           compoundId: input.compoundId,
           dose: input.dose,
-          timestamp: Date.now(),
+          timestamp: now,
         })),
       anxiety,
       functionality,
       notes,
+      safetyOverride,
     });
 
     // Reset form
     setAnxiety(5);
     setFunctionality(5);
     setNotes("");
+    setConfirmWarnings(false);
+    setSafetyIssues([]);
     onOpenChange(false);
   };
 
+  const handleSave = () => {
+    if ((sleepRisk || washoutConflicts.length > 0) && !confirmWarnings) {
+      setConfirmWarnings(true);
+      return;
+    }
+
+    // Limits and dangerous combinations hold the save until overridden
+    const now = Date.now();
+    const issues = checkDoseSafety(
+      doseInputs.map((input) => ({ ...input, timestamp: now })),
+      compounds,
+      logEntries,
+      { timeZone: getCurrentTimeZone(settings, now), interactionWindowHours: settings.interactionWindowHours }
+    );
+    if (issues.length > 0) {
+      setSafetyIssues(issues);
+      return;
+    }
+
+    saveEntry(now);
+  };
+
+  const handleOverride = (note: string) => {
+    saveEntry(Date.now(), { issues: safetyIssues.map((issue) => issue.message), note });
+  };
+
   if (activeCompounds.length === 0) {
     return (
       <Dialog open={open} onOpenChange={onOpenChange}>
@@ -91,117 +166,168 @@ export function LoggingDrawer({ open, onOpenChange }: { open: boolean; onOpenCha
   }
 
   return (
-    <Dialog open={open} onOpenChange={onOpenChange}>
-      <DialogContent onClose={() => onOpenChange(false)} className="sm:max-w-[500px] bg-slate-900 border-slate-800 max-h-[90vh] overflow-y-auto">
-        <DialogHeader>
-          <DialogTitle>Manual Log Entry</DialogTitle>
-        </DialogHeader>
-
-        <div className="space-y-6 py-4">
-          {/* Compound Doses */}
-          <div className="space-y-4">
-            <Label className="text-base font-semibold">Compound Doses</Label>
-            {doseInputs.map((input) => {
-              const compound = compounds.find((c) => c.id === input.compoundId);
-              if (!compound) return null;
-
-              return (
-                <div key={compound.id} className="space-y-2">
-                  <div className="flex items-center justify-between">
-                    <Label className="text-sm" style={{ color: compound.colorHex }}>
-                      {compound.name}
-                    </Label>
-                    <span className="text-sm text-slate-400">
-                      {input.dose} {compound.unit}
-                    </span>
-                  </div>
-                  <div className="flex items-center gap-2">
-                    <Button
-                      type="button"
-                      size="icon"
-                      variant="outline"
-                      onClick={() => handleDoseChange(compound.id, -10)}
-                      className="h-8 w-8"
-                    >
-                      <Minus className="w-4 h-4" />
-                    </Button>
-                    <Input
-                      type="number"
-                      value={input.dose}
-                      onChange={(e) =>
-                        setDoseInputs((prev) =>
-                          prev.map((i) =>
-                            i.compoundId === compound.id
-                              ? { ...i, dose: Number(e.target.value) || 0 }
-                              : i
+    <>
+      <Dialog open={open} onOpenChange={onOpenChange}>
+        <DialogContent onClose={() => onOpenChange(false)} className="sm:max-w-[500px] bg-slate-900 border-slate-800 max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>Manual Log Entry</DialogTitle>
+          </DialogHeader>
+
+          <div className="space-y-6 py-4">
+            {/* Compound Doses */}
+            <div className="space-y-4">
+              <Label className="text-base font-semibold">Compound Doses</Label>
+              {doseInputs.map((input) => {
+                const compound = compounds.find((c) => c.id === input.compoundId);
+                if (!compound) return null;
+
+                return (
+                  <div key={compound.id} className="space-y-2">
+                    <div className="flex items-center justify-between">
+                      <Label className="text-sm" style={{ color: compound.colorHex }}>
+                        {compound.name}
+                      </Label>
+                      <span className="text-sm text-slate-400">
+                        {input.dose} {compound.unit}
+                      </span>
+                    </div>
+                    <div className="flex items-center gap-2">
+                      <Button
+                        type="button"
+                        size="icon"
+                        variant="outline"
+                        onClick={() => handleDoseChange(compound.id, -10)}
+                        className="h-8 w-8"
+                      >
+                        <Minus className="w-4 h-4" />
+                      </Button>
+                      <Input
+                        type="number"
+                        value={input.dose}
+                        onChange={(e) =>
+                          setDoseInputs((prev) =>
+                            prev.map((i) =>
+                              i.compoundId === compound.id
+                                ? { ...i, dose: Number(e.target.value) || 0 }
+                                : i
+                            )
                           )
-                        )
-                      }
-                      className="text-center h-8"
-                    />
-                    <Button
-                      type="button"
-                      size="icon"
-                      variant="outline"
-                      onClick={() => handleDoseChange(compound.id, 10)}
-                      className="h-8 w-8"
-                    >
-                      <Plus className="w-4 h-4" />
-                    </Button>
+                        }
+                        className="text-center h-8"
+                      />
+                      <Button
+                        type="button"
+                        size="icon"
+                        variant="outline"
+                        onClick={() => handleDoseChange(compound.id, 10)}
+                        className="h-8 w-8"
+                      >
+                        <Plus className="w-4 h-4" />
+                      </Button>
+                    </div>
                   </div>
-                </div>
-              );
-            })}
-          </div>
-
-          {/* Anxiety Slider */}
-          <div className="space-y-2">
-            <div className="flex items-center justify-between">
-              <Label>Anxiety Level</Label>
-              <span className="text-lg font-bold" style={{ color: "#ff4444" }}>
-                {anxiety}/10
-              </span>
+                );
+              })}
             </div>
-            <Slider value={anxiety} onValueChange={setAnxiety} min={1} max={10} step={1} />
-            <div className="flex justify-between text-xs text-slate-500">
-              <span>Calm</span>
-              <span>High Anxiety</span>
+
+            {/* Anxiety Slider */}
+            <div className="space-y-2">
+              <div className="flex items-center justify-between">
+                <Label>Anxiety Level</Label>
+                <span className="text-lg font-bold" style={{ color: "#ff4444" }}>
+                  {anxiety}/10
+                </span>
+              </div>
+              <Slider value={anxiety} onValueChange={setAnxiety} min={1} max={10} step={1} />
+              <div className="flex justify-between text-xs text-slate-500">
+                <span>Calm</span>
+                <span>High Anxiety</span>
+              </div>
             </div>
-          </div>
 
-          {/* Functionality Slider */}
-          <div className="space-y-2">
-            <div className="flex items-center justify-between">
-              <Label>Functionality Level</Label>
-              <span className="text-lg font-bold" style={{ color: "#10b981" }}>
-                {functionality}/10
-              </span>
+            {/* Functionality Slider */}
+            <div className="space-y-2">
+              <div className="flex items-center justify-between">
+                <Label>Functionality Level</Label>
+                <span className="text-lg font-bold" style={{ color: "#10b981" }}>
+                  {functionality}/10
+                </span>
+              </div>
+              <Slider value={functionality} onValueChange={setFunctionality} min={1} max={10} step={1} />
+              <div className="flex justify-between text-xs text-slate-500">
+                <span>Low</span>
+                <span>Peak Performance</span>
+              </div>
             </div>
-            <Slider value={functionality} onValueChange={setFunctionality} min={1} max={10} step={1} />
-            <div className="flex justify-between text-xs text-slate-500">
-              <span>Low</span>
-              <span>Peak Performance</span>
+
+            {/* Notes */}
+            <div className="space-y-2">
+              <Label>Notes (Optional)</Label>
+              <Textarea
+                placeholder="How are you feeling? Any observations?"
+                value={notes}
+                onChange={(e) => setNotes(e.target.value)}
+                rows={3}
+              />
             </div>
-          </div>
 
-          {/* Notes */}
-          <div className="space-y-2">
-            <Label>Notes (Optional)</Label>
-            <Textarea
-              placeholder="How are you feeling? Any observations?"
-              value={notes}
-              onChange={(e) => setNotes(e.target.value)}
-              rows={3}
-            />
+            {/* Sleep-Impact Warning */}
+            {sleepRisk && (
+              <Alert className="border-indigo-500/40 bg-indigo-950/40">
+                <AlertDescription className="space-y-1">
+                  <div className="flex items-center gap-2 font-medium text-indigo-200">
+                    <Moon className="w-4 h-4" />
+                    {sleepRisk.disruptsSleep
+                      ? `Still stimulating at bedtime (${new Date(sleepRisk.bedtime).toLocaleTimeString([], { hour: "2-digit", minute: "2-digit", timeZone: getCurrentTimeZone(settings) })})`
+                      : "Sedatives stacking up at bedtime"}
+                  </div>
+                  <p className="text-xs text-indigo-200/80">
+                    {sleepRisk.disruptsSleep
+                      ? `Residual stimulation ${(sleepRisk.stimulantLoad * 100).toFixed(0)}% of a peak dose`
+                      : `Residual sedation ${(sleepRisk.sedativeLoad * 100).toFixed(0)}% of a peak dose`}
+                    {" from "}
+                    {sleepRisk.contributors
+                      .filter((c) => (sleepRisk.disruptsSleep ? c.stimulation > 0.05 : c.sedation > 0.05))
+                      .map((c) => `${c.name}${c.daytimeOnly ? " (daytime only)" : ""}`)
+                      .join(", ")}
+                  </p>
+                </AlertDescription>
+              </Alert>
+            )}
+
+            {/* Washout Warning */}
+            {washoutConflicts.length > 0 && (
+              <Alert className="border-amber-500/40 bg-amber-950/40">
+                <AlertDescription className="space-y-1">
+                  <div className="flex items-center gap-2 font-medium text-amber-200">
+                    <Repeat className="w-4 h-4" />
+                    In a washout period
+                  </div>
+                  {washoutConflicts.map(({ compound, source, phase }) => (
+                    <p key={`${compound.id}-${source.type}-${source.id}`} className="text-xs text-amber-200/80">
+                      {compound.name}: day {phase.dayOfPhase} of {phase.phaseLength} off
+                      {source.type === "preset" && ` (${source.name} cycle)`}, back on{" "}
+                      {new Date(phase.nextPhaseStart).toLocaleDateString([], { weekday: "short", month: "short", day: "numeric", timeZone: getCurrentTimeZone(settings) })}
+                    </p>
+                  ))}
+                </AlertDescription>
+              </Alert>
+            )}
+
+            {/* Save Button */}
+            <Button
+              onClick={handleSave}
+              className={confirmWarnings ? "w-full bg-indigo-600 hover:bg-indigo-700" : "w-full bg-blue-500 hover:bg-blue-600"}
+            >
+              <Save className="w-4 h-4 mr-2" />
+              {confirmWarnings ? "Save Anyway" : "Save Log Entry"}
+            </Button>
           </div>
+        </DialogContent>
+      </Dialog>
 
-          {/* Save Button */}
-          <Button onClick={handleSave} className="w-full bg-blue-500 hover:bg-blue-600">
-            <Save className="w-4 h-4 mr-2" />
-            Save Log Entry
-          </Button>
-        </div>
-      </DialogContent>
-    </Dialog>
+      {/* Pre-Save Safety Gate */}
+      <SafetyGateDialog issues={safetyIssues} onOverride={handleOverride} onCancel={() => setSafetyIssues([])} />
+    </>
   );
 }
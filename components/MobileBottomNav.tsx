@@ -1,6 +1,6 @@
 "use client";
 
-import { Home, BookOpen, Settings, BarChart3 } from "lucide-react";
+import { Home, BookOpen, Settings, BarChart3, History } from "lucide-react";
 import Link from "next/link";
 import { usePathname } from "next/navigation";
 
@@ -11,12 +11,13 @@ export function MobileBottomNav() {
     { href: "/", label: "Home", icon: Home },
     { href: "/library", label: "Library", icon: BookOpen },
     { href: "/analytics", label: "Analytics", icon: BarChart3 },
+    { href: "/history", label: "History", icon: History },
     { href: "/settings", label: "Settings", icon: Settings },
   ];
   
   return (
     <nav className="md:hidden fixed bottom-0 left-0 right-0 z-50 bg-slate-900/95 backdrop-blur-lg border-t border-slate-800 safe-area-inset-bottom">
-      <div className="grid grid-cols-4 h-16">
+      <div className="grid grid-cols-5 h-16">
         {navItems.map(({ href, label, icon: Icon }) => {
           const isActive = pathname === href;
           return (
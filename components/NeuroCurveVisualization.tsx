@@ -1,58 +1,123 @@
 "use client";
 
-import { useMemo } from 'react';
+import { useCallback, useMemo, useState } from 'react';
 import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer, Area, AreaChart, ReferenceLine } from 'recharts';
-import { Clock, TrendingUp, AlertTriangle } from 'lucide-react';
+import { Clock, TrendingUp, AlertTriangle, UserCheck, Sigma } from 'lucide-react';
 import {
-  generatePharmacokineticCurve,
-  calculateAggregateEffect,
-  identifyOverloadPeriods,
-  identifyCrashPeriods,
+  simulateMultiDay,
+  simulateUncertaintyBands,
+  bandPercentileCurve,
   formatTime,
-  type PharmacokineticParameters,
+  type CompoundKinetics,
+  type TimedDose,
   type PharmacokineticCurvePoint,
 } from '@/lib/pharmacokinetics';
+import type { PkCalibration } from '@/lib/pk-calibration';
+import {
+  AXIS_OVERLOAD_THRESHOLD,
+  EFFECT_AXIS_INFO,
+  calculateAxisEffects,
+  getActiveAxes,
+  identifyAxisCrashes,
+  identifyAxisOverloads,
+  type EffectAxis,
+  type EffectVector,
+} from '@/lib/pharmacodynamics';
 
 interface CompoundPharmacokinetics {
   name: string;
   color: string;
-  onsetMinutes: number;    // Minutes from start
-  peakMinutes: number;      // Minutes from start
-  durationMinutes: number;  // Total duration
-  doseTime: number;         // Hour of day (0-23)
+  kinetics: CompoundKinetics; // Resolved PK parameters (measured constants or estimates)
+  doses: TimedDose[];       // Dosing history (older doses carry over into the window)
+  calibration?: PkCalibration | null; // Personal fit from logged ratings, drawn next to the default
+  sampleKinetics?: (random: () => number) => CompoundKinetics; // Draws plausible parameters for uncertainty bands
+  potencyByDay?: number[];  // Tolerance-adjusted potency per window day, scales the aggregate
+  effects: EffectVector;    // Signed weight per effect axis
 }
 
 interface NeuroCurveProps {
   compounds: CompoundPharmacokinetics[];
+  windowStart: number;      // Start of the window (ms since epoch, midnight in timeZone)
+  days?: number;            // Window length in days (default 1)
+  timeZone?: string;        // Zone the time axis is read in (default: the device's)
   onPeakOverload?: (time: number, compounds: string[]) => void;
 }
 
 /**
  * Neuro-Curve Visualization - Pharmacokinetics 2.0
- * Maps compound effects on a 24-hour timeline using bi-exponential absorption-elimination model
+ * Maps compound effects on a rolling timeline using bi-exponential absorption-elimination model
  */
-export default function NeuroCurveVisualization({ compounds, onPeakOverload }: NeuroCurveProps) {
-  // Generate pharmacokinetic curves for each compound using advanced math
+export default function NeuroCurveVisualization({ compounds, windowStart, days = 1, timeZone, onPeakOverload }: NeuroCurveProps) {
+  // Lower resolution for long windows keeps the chart responsive
+  const pointsPerHour = days > 3 ? 1 : 2;
+  const labelEveryHours = days === 1 ? 2 : days <= 3 ? 6 : 12;
+  const [showPersonalFit, setShowPersonalFit] = useState(true);
+  const [showUncertainty, setShowUncertainty] = useState(true);
+
+  // Simulate each compound over the window, superimposing every dose with carry-over
   const compoundCurves = useMemo(() => {
-    return compounds.map(compound => {
-      const params: PharmacokineticParameters = {
-        onsetMinutes: compound.onsetMinutes,
-        peakMinutes: compound.peakMinutes,
-        durationMinutes: compound.durationMinutes,
-        doseTime: compound.doseTime,
-      };
-      return {
-        name: compound.name,
-        color: compound.color,
-        curve: generatePharmacokineticCurve(params, 2), // 2 points per hour = every 30 min
-      };
-    });
-  }, [compounds]);
+    return compounds
+      .map(compound => {
+        const simulation = simulateMultiDay(compound.kinetics, compound.doses, {
+          windowStart,
+          days,
+          pointsPerHour,
+        });
+        const fittedCurve = compound.calibration
+          ? simulateMultiDay(compound.calibration.kinetics, compound.doses, {
+              windowStart,
+              days,
+              pointsPerHour,
+            }).curve
+          : null;
+        return {
+          name: compound.name,
+          color: compound.color,
+          formulation: compound.kinetics.formulation,
+          curve: simulation.curve,
+          simulation,
+          calibration: compound.calibration ?? null,
+          fittedCurve,
+          sampleKinetics: compound.sampleKinetics,
+          potencyByDay: compound.potencyByDay,
+          effects: compound.effects,
+          kinetics: compound.kinetics,
+          doses: compound.doses,
+        };
+      })
+      .filter(compoundCurve => compoundCurve.simulation.doseCount > 0);
+  }, [compounds, windowStart, days, pointsPerHour]);
+
+  // Label a curve time (hours since window start) with weekday for multi-day windows
+  const formatCurveTime = useCallback((time: number) => {
+    const clock = formatTime(time % 24);
+    if (days === 1) return clock;
+    const date = new Date(windowStart + time * 60 * 60 * 1000);
+    return `${date.toLocaleDateString([], { weekday: 'short', timeZone })} ${clock}`;
+  }, [windowStart, days, timeZone]);
 
-  // Calculate aggregate effect curve
-  const aggregateCurve = useMemo(() => {
-    const curves = compoundCurves.map(c => c.curve);
-    return calculateAggregateEffect(curves);
+  // p10/p50/p90 bands from sampling each compound's parameter ranges
+  const bands = useMemo(() => {
+    if (!showUncertainty || !compoundCurves.some(c => c.sampleKinetics)) return null;
+    return simulateUncertaintyBands(
+      compoundCurves.map(c => ({
+        sampleKinetics: c.sampleKinetics ?? (() => c.kinetics),
+        doses: c.doses,
+        potencyByDay: c.potencyByDay,
+        axisWeights: c.effects,
+      })),
+      { windowStart, days, pointsPerHour }
+    );
+  }, [compoundCurves, showUncertainty, windowStart, days, pointsPerHour]);
+
+  // Signed per-axis effect curves (stimulation, sedation, ...), tolerance-adjusted
+  const activeAxes = useMemo(() => getActiveAxes(compoundCurves.map(c => c.effects)), [compoundCurves]);
+  const axisCurves = useMemo(() => {
+    return calculateAxisEffects(
+      compoundCurves.map(c => c.curve),
+      compoundCurves.map(c => c.effects),
+      compoundCurves.map(c => c.potencyByDay)
+    );
   }, [compoundCurves]);
 
   // Generate timeline data for the chart
@@ -66,53 +131,92 @@ export default function NeuroCurveVisualization({ compounds, onPeakOverload }: N
       const time = compoundCurves[0].curve[i].time;
       const dataPoint: any = {
         time,
-        timeLabel: formatTime(time),
-        aggregate: aggregateCurve[i]?.concentration || 0,
+        timeLabel: formatCurveTime(time),
       };
 
+      activeAxes.forEach(axis => {
+        dataPoint[`axis:${axis}`] = axisCurves[axis][i]?.concentration || 0;
+      });
+
+      // Shaded p10-p90 ranges (recharts draws [low, high] values as a band)
+      if (bands) {
+        activeAxes.forEach(axis => {
+          const band = bands.axes[axis]?.[i];
+          if (band) dataPoint[`axis:${axis} band`] = [band.p10, band.p90];
+        });
+        compoundCurves.forEach(({ name }, idx) => {
+          dataPoint[`${name} band`] = [bands.compounds[idx][i].p10, bands.compounds[idx][i].p90];
+        });
+      }
+
       // Add each compound's concentration
-      compoundCurves.forEach(({ name, curve }) => {
+      compoundCurves.forEach(({ name, curve, fittedCurve }) => {
         dataPoint[name] = curve[i]?.concentration || 0;
+        if (fittedCurve) {
+          dataPoint[`${name} (personal)`] = fittedCurve[i]?.concentration || 0;
+        }
       });
 
       dataPoints.push(dataPoint);
     }
 
     return dataPoints;
-  }, [compoundCurves, aggregateCurve]);
+  }, [compoundCurves, activeAxes, axisCurves, bands, formatCurveTime]);
 
-  // Identify peak overload periods using advanced detection
+  // Identify overload periods per effect axis. With uncertainty bands,
+  // overload of the median is "likely" and of the p90 "possible".
   const overloadPeriods = useMemo(() => {
-    const detectedPeriods = identifyOverloadPeriods(aggregateCurve, 2.5);
-    
-    return detectedPeriods.map(period => {
-      // Find which compounds are contributing during this period
-      const peakingCompounds = compounds
-        .filter(compound => {
-          const compoundCurve = compoundCurves.find(c => c.name === compound.name);
-          if (!compoundCurve) return false;
-          
-          // Check if compound has significant effect during this period
-          const relevantPoints = compoundCurve.curve.filter(
-            point => point.time >= period.start && point.time <= period.end
-          );
-          return relevantPoints.some(point => point.concentration > 0.6);
-        })
-        .map(c => c.name);
-      
-      return {
-        start: period.start,
-        end: period.end,
-        compounds: peakingCompounds,
-        peak: period.peak,
-      };
-    });
-  }, [aggregateCurve, compounds, compoundCurves]);
+    const detect = (
+      curves: Partial<Record<EffectAxis, PharmacokineticCurvePoint[]>>,
+      compoundSeries: PharmacokineticCurvePoint[][],
+      likelihood: 'expected' | 'likely' | 'possible'
+    ) =>
+      identifyAxisOverloads(curves).map(period => {
+        // Find which compounds push this axis during this period
+        const peakingCompounds = compoundCurves
+          .filter((compound, idx) => {
+            if (compound.effects[period.axis] <= 0) return false;
+            const relevantPoints = compoundSeries[idx].filter(
+              point => point.time >= period.start && point.time <= period.end
+            );
+            return relevantPoints.some(point => point.concentration > 0.6);
+          })
+          .map(c => c.name);
+
+        return {
+          ...period,
+          compounds: peakingCompounds,
+          likelihood,
+        };
+      });
+
+    if (!bands) {
+      return detect(axisCurves, compoundCurves.map(c => c.curve), 'expected');
+    }
+
+    const percentileCurves = (key: 'p50' | 'p90') =>
+      Object.fromEntries(
+        Object.entries(bands.axes).map(([axis, band]) => [axis, bandPercentileCurve(band, key)])
+      ) as Partial<Record<EffectAxis, PharmacokineticCurvePoint[]>>;
+
+    const likely = detect(
+      percentileCurves('p50'),
+      bands.compounds.map(band => bandPercentileCurve(band, 'p50')),
+      'likely'
+    );
+    const possible = detect(
+      percentileCurves('p90'),
+      bands.compounds.map(band => bandPercentileCurve(band, 'p90')),
+      'possible'
+    ).filter(period => !likely.some(l => l.axis === period.axis && l.start <= period.end && l.end >= period.start));
+
+    return [...likely, ...possible].sort((a, b) => a.start - b.start);
+  }, [axisCurves, compoundCurves, bands]);
 
-  // Identify crash periods using advanced detection
+  // Identify crash points per effect axis
   const crashPeriods = useMemo(() => {
-    return identifyCrashPeriods(aggregateCurve, 0.5);
-  }, [aggregateCurve]);
+    return identifyAxisCrashes(axisCurves).sort((a, b) => a.time - b.time);
+  }, [axisCurves]);
 
   const CustomTooltip = ({ active, payload, label }: any) => {
     if (active && payload && payload.length) {
@@ -120,7 +224,7 @@ export default function NeuroCurveVisualization({ compounds, onPeakOverload }: N
         <div className="bg-slate-900 border border-slate-700 rounded-lg p-3 shadow-xl">
           <p className="text-sm font-semibold text-white mb-2">{label}</p>
           {payload.map((entry: any, index: number) => (
-            entry.dataKey !== 'aggregate' && entry.value > 0 && (
+            !String(entry.dataKey).startsWith('axis:') && !Array.isArray(entry.value) && entry.value > 0 && (
               <div key={index} className="flex items-center gap-2 text-xs">
                 <div
                   className="w-3 h-3 rounded-full"
@@ -133,14 +237,25 @@ export default function NeuroCurveVisualization({ compounds, onPeakOverload }: N
               </div>
             )
           ))}
-          <div className="mt-2 pt-2 border-t border-slate-700">
-            <div className="flex items-center gap-2 text-xs">
-              <TrendingUp className="w-3 h-3 text-purple-400" />
-              <span className="text-slate-400">Total Effect:</span>
-              <span className="text-purple-400 font-semibold">
-                {((payload[0]?.payload?.aggregate || 0) * 100).toFixed(0)}%
-              </span>
-            </div>
+          <div className="mt-2 pt-2 border-t border-slate-700 space-y-1">
+            {activeAxes.map(axis => {
+              const value = payload[0]?.payload?.[`axis:${axis}`] || 0;
+              const band = payload[0]?.payload?.[`axis:${axis} band`];
+              return (
+                <div key={axis} className="flex items-center gap-2 text-xs">
+                  <TrendingUp className="w-3 h-3" style={{ color: EFFECT_AXIS_INFO[axis].color }} />
+                  <span className="text-slate-400">{EFFECT_AXIS_INFO[axis].label}:</span>
+                  <span className="font-semibold" style={{ color: EFFECT_AXIS_INFO[axis].color }}>
+                    {(value * 100).toFixed(0)}%
+                  </span>
+                  {band && (
+                    <span className="text-slate-500">
+                      ({(band[0] * 100).toFixed(0)}–{(band[1] * 100).toFixed(0)}%)
+                    </span>
+                  )}
+                </div>
+              );
+            })}
           </div>
         </div>
       );
@@ -154,29 +269,55 @@ export default function NeuroCurveVisualization({ compounds, onPeakOverload }: N
       <div className="bg-slate-900/50 rounded-lg p-4 border border-slate-800">
         <div className="flex items-center gap-2 mb-4">
           <Clock className="h-5 w-5 text-blue-400" />
-          <h3 className="text-lg font-semibold text-white">24-Hour Neuro-Curve</h3>
+          <h3 className="text-lg font-semibold text-white">
+            {days === 1 ? '24-Hour' : `${days}-Day`} Neuro-Curve
+          </h3>
+          {compoundCurves.some(c => c.sampleKinetics) && (
+            <button
+              type="button"
+              onClick={() => setShowUncertainty(!showUncertainty)}
+              className={`ml-auto flex items-center gap-1 text-xs px-2 py-1 rounded border ${
+                showUncertainty
+                  ? 'border-purple-500/50 text-purple-300 bg-purple-900/20'
+                  : 'border-slate-700 text-slate-400'
+              }`}
+            >
+              <Sigma className="h-3 w-3" />
+              Uncertainty
+            </button>
+          )}
+          {compoundCurves.some(c => c.fittedCurve) && (
+            <button
+              type="button"
+              onClick={() => setShowPersonalFit(!showPersonalFit)}
+              className={`${compoundCurves.some(c => c.sampleKinetics) ? '' : 'ml-auto '}flex items-center gap-1 text-xs px-2 py-1 rounded border ${
+                showPersonalFit
+                  ? 'border-blue-500/50 text-blue-300 bg-blue-900/20'
+                  : 'border-slate-700 text-slate-400'
+              }`}
+            >
+              <UserCheck className="h-3 w-3" />
+              Personal fit
+            </button>
+          )}
         </div>
 
         <ResponsiveContainer width="100%" height={300}>
           <AreaChart data={timelineData}>
             <defs>
-              {compounds.map((compound, idx) => (
+              {compoundCurves.map((compound, idx) => (
                 <linearGradient key={idx} id={`gradient-${idx}`} x1="0" y1="0" x2="0" y2="1">
                   <stop offset="5%" stopColor={compound.color} stopOpacity={0.8} />
                   <stop offset="95%" stopColor={compound.color} stopOpacity={0.1} />
                 </linearGradient>
               ))}
-              <linearGradient id="gradientAggregate" x1="0" y1="0" x2="0" y2="1">
-                <stop offset="5%" stopColor="#a78bfa" stopOpacity={0.4} />
-                <stop offset="95%" stopColor="#a78bfa" stopOpacity={0.0} />
-              </linearGradient>
             </defs>
             <CartesianGrid strokeDasharray="3 3" stroke="#334155" />
             <XAxis
               dataKey="timeLabel"
               stroke="#94a3b8"
               style={{ fontSize: '12px' }}
-              interval={3}
+              interval={labelEveryHours * pointsPerHour - 1}
             />
             <YAxis
               stroke="#94a3b8"
@@ -184,19 +325,33 @@ export default function NeuroCurveVisualization({ compounds, onPeakOverload }: N
               label={{ value: 'Effect Intensity', angle: -90, position: 'insideLeft', fill: '#94a3b8' }}
             />
             <Tooltip content={<CustomTooltip />} />
-            
-            {/* Aggregate effect area */}
-            <Area
-              type="monotone"
-              dataKey="aggregate"
-              stroke="#a78bfa"
-              strokeWidth={3}
-              fill="url(#gradientAggregate)"
-              name="Total Effect"
-            />
 
+            {/* p10-p90 uncertainty bands */}
+            {bands && activeAxes.map(axis => (
+              <Area
+                key={`axis-band-${axis}`}
+                type="monotone"
+                dataKey={`axis:${axis} band`}
+                stroke="none"
+                fill={EFFECT_AXIS_INFO[axis].color}
+                fillOpacity={0.12}
+                activeDot={false}
+              />
+            ))}
+            {bands && compoundCurves.map((compound, idx) => (
+              <Area
+                key={`band-${idx}`}
+                type="monotone"
+                dataKey={`${compound.name} band`}
+                stroke="none"
+                fill={compound.color}
+                fillOpacity={0.12}
+                activeDot={false}
+              />
+            ))}
+            
             {/* Individual compound lines */}
-            {compounds.map((compound, idx) => (
+            {compoundCurves.map((compound, idx) => (
               <Area
                 key={idx}
                 type="monotone"
@@ -207,9 +362,34 @@ export default function NeuroCurveVisualization({ compounds, onPeakOverload }: N
               />
             ))}
 
+            {/* Personally fitted curves, dashed over the library default */}
+            {showPersonalFit && compoundCurves.map((compound, idx) => compound.fittedCurve && (
+              <Area
+                key={`fitted-${idx}`}
+                type="monotone"
+                dataKey={`${compound.name} (personal)`}
+                stroke={compound.color}
+                strokeWidth={2}
+                strokeDasharray="6 4"
+                fill="none"
+              />
+            ))}
+
+            {/* Per-axis effect lines (signed, so opposing compounds cancel) */}
+            {activeAxes.map(axis => (
+              <Area
+                key={`axis-${axis}`}
+                type="monotone"
+                dataKey={`axis:${axis}`}
+                stroke={EFFECT_AXIS_INFO[axis].color}
+                strokeWidth={3}
+                fill="none"
+              />
+            ))}
+
             {/* Reference lines for overload zones */}
             <ReferenceLine
-              y={2.5}
+              y={AXIS_OVERLOAD_THRESHOLD}
               stroke="#ef4444"
               strokeDasharray="5 5"
               label={{ value: 'Overload Threshold', fill: '#ef4444', fontSize: 10 }}
@@ -225,22 +405,29 @@ export default function NeuroCurveVisualization({ compounds, onPeakOverload }: N
           <div className="bg-red-900/20 border border-red-500/30 rounded-lg p-4">
             <div className="flex items-center gap-2 mb-3">
               <AlertTriangle className="h-5 w-5 text-red-400" />
-              <h4 className="font-semibold text-red-300">Peak Overload Periods</h4>
+              <h4 className="font-semibold text-red-300">Overload Periods</h4>
             </div>
             <div className="space-y-2">
               {overloadPeriods.map((period, idx) => (
                 <div key={idx} className="text-sm">
                   <div className="text-red-200 font-medium">
-                    {formatHour(period.start)} - {formatHour(period.end)}
+                    {EFFECT_AXIS_INFO[period.axis].overloadLabel}: {formatCurveTime(period.start)} - {formatCurveTime(period.end)}
+                    {period.likelihood !== 'expected' && (
+                      <span className={period.likelihood === 'likely' ? 'text-red-300 text-xs' : 'text-red-300/60 text-xs'}>
+                        {' '}({period.likelihood === 'likely' ? 'likely, median' : 'possible, p90'})
+                      </span>
+                    )}
                   </div>
                   <div className="text-red-300/80 text-xs">
-                    Multiple compounds peaking: {period.compounds.join(', ')}
+                    {period.compounds.length > 0
+                      ? `Driven by: ${period.compounds.join(', ')}`
+                      : 'Carry-over from several doses'}
                   </div>
                 </div>
               ))}
             </div>
             <p className="text-xs text-red-400/70 mt-3">
-              ⚠️ Consider spacing these compounds to avoid overstimulation
+              ⚠️ Consider spacing compounds that act on the same axis
             </p>
           </div>
         )}
@@ -256,10 +443,10 @@ export default function NeuroCurveVisualization({ compounds, onPeakOverload }: N
               {crashPeriods.map((period, idx) => (
                 <div key={idx} className="text-sm">
                   <div className="text-orange-200 font-medium">
-                    Around {formatHour(period.time)}
+                    {EFFECT_AXIS_INFO[period.axis].crashLabel} around {formatCurveTime(period.time)}
                   </div>
                   <div className="text-orange-300/80 text-xs">
-                    Effect drops significantly (severity: {period.severity.toFixed(1)})
+                    {EFFECT_AXIS_INFO[period.axis].label} drops significantly (severity: {period.severity.toFixed(1)})
                   </div>
                 </div>
               ))}
@@ -272,53 +459,104 @@ export default function NeuroCurveVisualization({ compounds, onPeakOverload }: N
       </div>
 
       {/* Legend */}
+      {activeAxes.length > 0 && (
+        <div className="flex flex-wrap gap-3 items-center text-sm">
+          <span className="text-slate-400">Effects:</span>
+          {activeAxes.map(axis => (
+            <div key={axis} className="flex items-center gap-2">
+              <div className="w-4 h-0.5" style={{ backgroundColor: EFFECT_AXIS_INFO[axis].color }} />
+              <span className="text-slate-300">{EFFECT_AXIS_INFO[axis].label}</span>
+            </div>
+          ))}
+        </div>
+      )}
       <div className="flex flex-wrap gap-3 items-center text-sm">
         <span className="text-slate-400">Compounds:</span>
-        {compounds.map((compound, idx) => (
+        {compoundCurves.map((compound, idx) => (
           <div key={idx} className="flex items-center gap-2">
             <div
               className="w-3 h-3 rounded-full"
               style={{ backgroundColor: compound.color }}
             />
-            <span className="text-slate-300">{compound.name}</span>
+            <span className="text-slate-300">
+              {compound.name}
+              {compound.formulation && compound.formulation !== 'IR' && (
+                <span className="text-slate-500"> ({compound.formulation})</span>
+              )}
+              {compound.simulation.doseCount > 1 && (
+                <span className="text-slate-500"> ×{compound.simulation.doseCount}</span>
+              )}
+              {compound.potencyByDay && compound.potencyByDay[compound.potencyByDay.length - 1] < 0.95 && (
+                <span className="text-amber-300/80">
+                  {' '}· {(compound.potencyByDay[compound.potencyByDay.length - 1] * 100).toFixed(0)}% potency
+                </span>
+              )}
+            </span>
           </div>
         ))}
       </div>
-    </div>
-  );
-}
 
-/**
- * Format hour as 12-hour time (alias for formatTime from pharmacokinetics lib)
- */
-function formatHour(hour: number): string {
-  return formatTime(hour);
-}
-
-/**
- * Parse pharmacokinetic string (e.g., "30-60 min / 2-3 hrs / 6-8 hrs")
- * Returns onset, peak, and duration in minutes
- */
-export function parsePharmacokineticString(pkString: string): {
-  onsetMinutes: number;
-  peakMinutes: number;
-  durationMinutes: number;
-} {
-  const parts = pkString.split('/').map(s => s.trim());
-  
-  const parseTime = (timeStr: string): number => {
-    const match = timeStr.match(/(\d+)(?:-(\d+))?\s*(min|hr|hour)/i);
-    if (!match) return 0;
-    
-    const value = match[2] ? (parseInt(match[1]) + parseInt(match[2])) / 2 : parseInt(match[1]);
-    const unit = match[3].toLowerCase();
-    
-    return unit.startsWith('hr') ? value * 60 : value;
-  };
+      {/* Personal Calibration */}
+      {showPersonalFit && compoundCurves.some(c => c.calibration) && (
+        <div className="bg-slate-900/50 rounded-lg p-4 border border-slate-800 space-y-2">
+          <h4 className="text-sm font-semibold text-slate-300">Personal Calibration</h4>
+          {compoundCurves
+            .filter(c => c.calibration)
+            .map(({ name, color, calibration }) => (
+              <div key={name} className="flex flex-wrap items-center justify-between gap-2 text-xs">
+                <span style={{ color }}>{name}</span>
+                <span className="text-slate-400">
+                  t½ {calibration!.halfLifeHours.toFixed(1)}h (default {calibration!.defaultHalfLifeHours.toFixed(1)}h)
+                  {' · '}Tmax {calibration!.tmaxHours.toFixed(1)}h (default {calibration!.defaultTmaxHours.toFixed(1)}h)
+                  {' · '}r {calibration!.correlation.toFixed(2)} vs {calibration!.defaultCorrelation.toFixed(2)}
+                  {' · '}{calibration!.sampleCount} ratings
+                  {' · '}
+                  <span
+                    className={
+                      calibration!.confidence === 'high'
+                        ? 'text-emerald-400'
+                        : calibration!.confidence === 'moderate'
+                          ? 'text-amber-300'
+                          : 'text-slate-500'
+                    }
+                  >
+                    {calibration!.confidence} confidence
+                  </span>
+                </span>
+              </div>
+            ))}
+          <p className="text-xs text-slate-500">
+            Dashed curves are fitted to your anxiety and functionality ratings. Ratings reflect your whole stack, so treat low-confidence fits as a hint.
+          </p>
+        </div>
+      )}
 
-  return {
-    onsetMinutes: parts[0] ? parseTime(parts[0]) : 30,
-    peakMinutes: parts[1] ? parseTime(parts[1]) : 120,
-    durationMinutes: parts[2] ? parseTime(parts[2]) : 360,
-  };
+      {/* Accumulation & Steady State */}
+      {compoundCurves.some(c => c.simulation.dosingIntervalHours !== null) && (
+        <div className="bg-slate-900/50 rounded-lg p-4 border border-slate-800 space-y-2">
+          <h4 className="text-sm font-semibold text-slate-300">Accumulation</h4>
+          {compoundCurves
+            .filter(c => c.simulation.dosingIntervalHours !== null)
+            .map(({ name, color, simulation }) => (
+              <div key={name} className="flex flex-wrap items-center justify-between gap-2 text-xs">
+                <span style={{ color }}>{name}</span>
+                <span className="text-slate-400">
+                  t½ {simulation.halfLifeHours.toFixed(1)}h · every {simulation.dosingIntervalHours!.toFixed(1)}h
+                  {simulation.accumulationRatio !== null && ` · ×${simulation.accumulationRatio.toFixed(2)} accumulation`}
+                  {' · '}
+                  {simulation.isSteadyState ? (
+                    <span className="text-emerald-400">steady state</span>
+                  ) : (
+                    <span className="text-amber-300">
+                      {(simulation.steadyStateFraction * 100).toFixed(0)}% of steady state
+                      ({(simulation.hoursToSteadyState / 24).toFixed(1)}d to go)
+                    </span>
+                  )}
+                </span>
+              </div>
+            ))}
+        </div>
+      )}
+    </div>
+  );
 }
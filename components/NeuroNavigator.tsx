@@ -21,10 +21,12 @@ import {
 import { getRouteAwareInsight, checkAIAvailability } from "@/lib/ai/actions";
 import type { RouteInsight, RouteContext } from "@/lib/ai/types";
 import { useStore } from "@/store/useStore";
+import { countDayStreak, toLocalDateString } from "@/lib/dates";
+import { getCurrentTimeZone } from "@/lib/travel";
 
 export function NeuroNavigator() {
   const pathname = usePathname();
-  const { compounds, logEntries } = useStore();
+  const { compounds, logEntries, settings } = useStore();
   
   const [showDialog, setShowDialog] = useState(false);
   const [insight, setInsight] = useState<RouteInsight | null>(null);
@@ -77,19 +79,10 @@ export function NeuroNavigator() {
       : 0;
 
     // Calculate streak
-    const sortedDates = [...new Set(logEntries.map((log) => log.date))].sort();
-    let streak = 0;
-    for (let i = sortedDates.length - 1; i >= 0; i--) {
-      const date = sortedDates[i];
-      const expectedDate = new Date(Date.now() - streak * 24 * 60 * 60 * 1000)
-        .toISOString()
-        .split("T")[0];
-      if (date === expectedDate) {
-        streak++;
-      } else {
-        break;
-      }
-    }
+    const streak = countDayStreak(
+      logEntries.map((log) => log.date),
+      toLocalDateString(Date.now(), getCurrentTimeZone(settings))
+    );
 
     return {
       route: pathname,
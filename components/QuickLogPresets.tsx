@@ -9,33 +9,62 @@ import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/u
 import { Label } from "@/components/ui/label";
 import { Slider } from "@/components/ui/slider";
 import { Textarea } from "@/components/ui/textarea";
+import { SafetyGateDialog } from "@/components/SafetyGateDialog";
+import { checkDoseSafety, type SafetyIssue } from "@/lib/dose-safety";
+import { getCurrentTimeZone } from "@/lib/travel";
+import type { SafetyOverride } from "@/lib/types";
 
 interface QuickLogPresetsProps {
   onOpenDrawer: () => void;
 }
 
 export function QuickLogPresets({ onOpenDrawer }: QuickLogPresetsProps) {
-  const { stackPresets, logPreset, compounds } = useStore();
+  const { stackPresets, logPreset, compounds, logEntries, settings } = useStore();
   const [selectedPresetId, setSelectedPresetId] = useState<string | null>(null);
   const [anxiety, setAnxiety] = useState(5);
   const [functionality, setFunctionality] = useState(5);
   const [notes, setNotes] = useState("");
   const [showDialog, setShowDialog] = useState(false);
+  const [safetyIssues, setSafetyIssues] = useState<SafetyIssue[]>([]);
 
   const handlePresetClick = (presetId: string) => {
     setSelectedPresetId(presetId);
     setShowDialog(true);
   };
 
+  const saveQuickLog = (presetId: string, safetyOverride?: SafetyOverride) => {
+    logPreset(presetId, anxiety, functionality, notes, safetyOverride);
+    setShowDialog(false);
+    setAnxiety(5);
+    setFunctionality(5);
+    setNotes("");
+    setSelectedPresetId(null);
+    setSafetyIssues([]);
+  };
+
   const handleQuickLog = () => {
-    if (selectedPresetId) {
-      logPreset(selectedPresetId, anxiety, functionality, notes);
-      setShowDialog(false);
-      setAnxiety(5);
-      setFunctionality(5);
-      setNotes("");
-      setSelectedPresetId(null);
+    const preset = stackPresets.find((p) => p.id === selectedPresetId);
+    if (!preset) return;
+
+    // Limits and dangerous combinations hold the save until overridden
+    const now = Date.now();
+    const issues = checkDoseSafety(
+      preset.doseItems.map((item) => ({ ...item, timestamp: now })),
+      compounds,
+      logEntries,
+      { timeZone: getCurrentTimeZone(settings, now), interactionWindowHours: settings.interactionWindowHours }
+    );
+    if (issues.length > 0) {
+      setSafetyIssues(issues);
+      return;
     }
+
+    saveQuickLog(preset.id);
+  };
+
+  const handleOverride = (note: string) => {
+    if (!selectedPresetId) return;
+    saveQuickLog(selectedPresetId, { issues: safetyIssues.map((issue) => issue.message), note });
   };
 
   if (stackPresets.length === 0) {
@@ -165,6 +194,9 @@ export function QuickLogPresets({ onOpenDrawer }: QuickLogPresetsProps) {
           </div>
         </DialogContent>
       </Dialog>
+
+      {/* Pre-Save Safety Gate */}
+      <SafetyGateDialog issues={safetyIssues} onOverride={handleOverride} onCancel={() => setSafetyIssues([])} />
     </>
   );
 }
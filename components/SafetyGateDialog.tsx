@@ -0,0 +1,87 @@
+"use client";
+
+import { useState } from "react";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { AlertTriangle, Clock, Gauge, ShieldAlert } from "lucide-react";
+import type { SafetyIssue, SafetyIssueType } from "@/lib/dose-safety";
+
+const ISSUE_ICONS: Record<SafetyIssueType, typeof Gauge> = {
+  "daily-max": Gauge,
+  "min-interval": Clock,
+  interaction: ShieldAlert,
+};
+
+interface SafetyGateDialogProps {
+  issues: SafetyIssue[];
+  onOverride: (note: string) => void;
+  onCancel: () => void;
+}
+
+export function SafetyGateDialog({ issues, onOverride, onCancel }: SafetyGateDialogProps) {
+  const [note, setNote] = useState("");
+
+  const handleCancel = () => {
+    setNote("");
+    onCancel();
+  };
+
+  const handleOverride = () => {
+    onOverride(note.trim());
+    setNote("");
+  };
+
+  return (
+    <Dialog open={issues.length > 0} onOpenChange={(open) => !open && handleCancel()}>
+      <DialogContent onClose={handleCancel} className="sm:max-w-[450px] bg-slate-900 border-red-900/60">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2 text-red-300">
+            <AlertTriangle className="w-5 h-5" />
+            Check Before Logging
+          </DialogTitle>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <ul className="space-y-2">
+            {issues.map((issue) => {
+              const Icon = ISSUE_ICONS[issue.type];
+              return (
+                <li key={issue.message} className="flex gap-2 text-sm text-slate-200">
+                  <Icon className="w-4 h-4 mt-0.5 shrink-0 text-red-400" />
+                  {issue.message}
+                </li>
+              );
+            })}
+          </ul>
+
+          <div className="space-y-2">
+            <Label htmlFor="safety-override-note">Why log it anyway?</Label>
+            <Textarea
+              id="safety-override-note"
+              placeholder="e.g. Prescriber approved the higher dose"
+              value={note}
+              onChange={(e) => setNote(e.target.value)}
+              rows={2}
+            />
+            <p className="text-xs text-slate-500">Saved with the entry so you can review it later.</p>
+          </div>
+
+          <div className="flex gap-3">
+            <Button variant="outline" onClick={handleCancel} className="flex-1">
+              Cancel
+            </Button>
+            <Button
+              onClick={handleOverride}
+              disabled={!note.trim()}
+              className="flex-1 bg-red-600 hover:bg-red-700"
+            >
+              Override &amp; Log
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
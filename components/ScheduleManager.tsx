@@ -0,0 +1,398 @@
+"use client";
+
+import { useState } from "react";
+import { useStore } from "@/store/useStore";
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Select } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { CalendarClock, Plus, Trash2, X } from "lucide-react";
+import type { DoseSchedule, ScheduleRecurrence } from "@/lib/types";
+import { toLocalDateString } from "@/lib/dates";
+
+const WEEKDAYS = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+
+type RecurrenceType = ScheduleRecurrence["type"];
+
+interface ScheduleForm {
+  targetType: "compound" | "preset";
+  targetId: string;
+  dose: string;
+  timesOfDay: string[];
+  recurrenceType: RecurrenceType;
+  daysOfWeek: number[];
+  everyDays: string;
+  daysOn: string;
+  daysOff: string;
+  startDate: string;
+  endDate: string;
+}
+
+const today = () => toLocalDateString();
+
+const emptyForm = (): ScheduleForm => ({
+  targetType: "compound",
+  targetId: "",
+  dose: "",
+  timesOfDay: ["08:00"],
+  recurrenceType: "daily",
+  daysOfWeek: [1, 2, 3, 4, 5],
+  everyDays: "2",
+  daysOn: "5",
+  daysOff: "2",
+  startDate: today(),
+  endDate: "",
+});
+
+export function describeRecurrence(recurrence: ScheduleRecurrence): string {
+  switch (recurrence.type) {
+    case "daily":
+      return "Every day";
+    case "weekly":
+      return recurrence.daysOfWeek.map((day) => WEEKDAYS[day]).join(", ");
+    case "interval":
+      return `Every ${recurrence.everyDays} days`;
+    case "cycle":
+      return `${recurrence.daysOn} on / ${recurrence.daysOff} off`;
+  }
+}
+
+export function ScheduleManager() {
+  const { compounds, stackPresets, schedules, addSchedule, updateSchedule, deleteSchedule } = useStore();
+  const [showDialog, setShowDialog] = useState(false);
+  const [form, setForm] = useState<ScheduleForm>(emptyForm);
+  const [error, setError] = useState("");
+
+  const targetName = (schedule: DoseSchedule) => {
+    if (schedule.target.type === "compound") {
+      const target = schedule.target;
+      const compound = compounds.find((c) => c.id === target.compoundId);
+      return compound ? `${compound.name} ${target.dose}${compound.unit}` : "Unknown compound";
+    }
+    const target = schedule.target;
+    return `${stackPresets.find((p) => p.id === target.presetId)?.name ?? "Unknown preset"} (preset)`;
+  };
+
+  const buildRecurrence = (): ScheduleRecurrence | null => {
+    const positive = (value: string) => {
+      const number = parseInt(value, 10);
+      return Number.isFinite(number) && number > 0 ? number : null;
+    };
+    switch (form.recurrenceType) {
+      case "daily":
+        return { type: "daily" };
+      case "weekly":
+        return form.daysOfWeek.length > 0 ? { type: "weekly", daysOfWeek: [...form.daysOfWeek].sort() } : null;
+      case "interval": {
+        const everyDays = positive(form.everyDays);
+        return everyDays ? { type: "interval", everyDays } : null;
+      }
+      case "cycle": {
+        const daysOn = positive(form.daysOn);
+        const daysOff = parseInt(form.daysOff, 10);
+        return daysOn && daysOff >= 0 ? { type: "cycle", daysOn, daysOff } : null;
+      }
+    }
+  };
+
+  const handleSave = () => {
+    const timesOfDay = [...new Set(form.timesOfDay.filter(Boolean))].sort();
+    const recurrence = buildRecurrence();
+    const dose = parseFloat(form.dose);
+
+    if (!form.targetId) return setError("Choose a compound or preset");
+    if (form.targetType === "compound" && !(dose > 0)) return setError("Enter a dose");
+    if (timesOfDay.length === 0) return setError("Add at least one time of day");
+    if (!recurrence) return setError("Check the repeat settings");
+
+    addSchedule({
+      target:
+        form.targetType === "compound"
+          ? { type: "compound", compoundId: form.targetId, dose }
+          : { type: "preset", presetId: form.targetId },
+      timesOfDay,
+      recurrence,
+      startDate: form.startDate || today(),
+      endDate: form.endDate || undefined,
+      isActive: true,
+    });
+    setForm(emptyForm());
+    setError("");
+    setShowDialog(false);
+  };
+
+  return (
+    <>
+      <Card className="glass border-slate-800">
+        <CardHeader>
+          <div className="flex items-center justify-between">
+            <div>
+              <CardTitle className="flex items-center gap-2">
+                <CalendarClock className="w-5 h-5 text-cyan-400" />
+                Dose Schedules
+              </CardTitle>
+              <CardDescription className="mt-1">
+                Planned doses for adherence tracking
+              </CardDescription>
+            </div>
+            <Button onClick={() => setShowDialog(true)} size="sm" disabled={compounds.length === 0}>
+              <Plus className="w-4 h-4 mr-2" />
+              Add
+            </Button>
+          </div>
+        </CardHeader>
+        <CardContent>
+          {schedules.length === 0 ? (
+            <p className="text-sm text-slate-400 text-center py-4">No schedules yet</p>
+          ) : (
+            <div className="space-y-3">
+              {schedules.map((schedule) => (
+                <div
+                  key={schedule.id}
+                  className="flex items-center justify-between p-3 rounded-lg bg-slate-900/50 border border-slate-800"
+                >
+                  <div className="min-w-0">
+                    <p className="font-medium truncate">{targetName(schedule)}</p>
+                    <p className="text-xs text-slate-400">
+                      {schedule.timesOfDay.join(", ")} · {describeRecurrence(schedule.recurrence)}
+                      {schedule.endDate && ` · until ${schedule.endDate}`}
+                    </p>
+                  </div>
+                  <div className="flex items-center gap-2">
+                    <Switch
+                      checked={schedule.isActive}
+                      onCheckedChange={(isActive) => updateSchedule(schedule.id, { isActive })}
+                    />
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      onClick={() => deleteSchedule(schedule.id)}
+                      className="text-red-400 hover:text-red-300"
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </Button>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Dialog open={showDialog} onOpenChange={setShowDialog}>
+        <DialogContent
+          onClose={() => setShowDialog(false)}
+          className="sm:max-w-[450px] bg-slate-900 border-slate-800 max-h-[90vh] overflow-y-auto"
+        >
+          <DialogHeader>
+            <DialogTitle>Add Dose Schedule</DialogTitle>
+          </DialogHeader>
+          <div className="space-y-4 py-4">
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="schedule-target-type">Schedule</Label>
+                <Select
+                  id="schedule-target-type"
+                  value={form.targetType}
+                  onChange={(e) =>
+                    setForm({ ...form, targetType: e.target.value as ScheduleForm["targetType"], targetId: "" })
+                  }
+                >
+                  <option value="compound">Compound</option>
+                  <option value="preset" disabled={stackPresets.length === 0}>
+                    Preset
+                  </option>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="schedule-target">{form.targetType === "compound" ? "Compound" : "Preset"}</Label>
+                <Select
+                  id="schedule-target"
+                  value={form.targetId}
+                  onChange={(e) => {
+                    const compound = compounds.find((c) => c.id === e.target.value);
+                    setForm({
+                      ...form,
+                      targetId: e.target.value,
+                      dose: compound && !form.dose ? String(compound.defaultDose) : form.dose,
+                    });
+                  }}
+                >
+                  <option value="">Choose...</option>
+                  {form.targetType === "compound"
+                    ? compounds.map((compound) => (
+                        <option key={compound.id} value={compound.id}>
+                          {compound.name}
+                        </option>
+                      ))
+                    : stackPresets.map((preset) => (
+                        <option key={preset.id} value={preset.id}>
+                          {preset.name}
+                        </option>
+                      ))}
+                </Select>
+              </div>
+            </div>
+
+            {form.targetType === "compound" && (
+              <div className="space-y-2">
+                <Label htmlFor="schedule-dose">
+                  Dose ({compounds.find((c) => c.id === form.targetId)?.unit ?? "unit"})
+                </Label>
+                <Input
+                  id="schedule-dose"
+                  type="number"
+                  min="0"
+                  value={form.dose}
+                  onChange={(e) => setForm({ ...form, dose: e.target.value })}
+                />
+              </div>
+            )}
+
+            <div className="space-y-2">
+              <Label>Times of Day</Label>
+              {form.timesOfDay.map((time, idx) => (
+                <div key={idx} className="flex gap-2">
+                  <Input
+                    type="time"
+                    value={time}
+                    onChange={(e) =>
+                      setForm({
+                        ...form,
+                        timesOfDay: form.timesOfDay.map((t, i) => (i === idx ? e.target.value : t)),
+                      })
+                    }
+                  />
+                  {form.timesOfDay.length > 1 && (
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      onClick={() =>
+                        setForm({ ...form, timesOfDay: form.timesOfDay.filter((_, i) => i !== idx) })
+                      }
+                    >
+                      <X className="w-4 h-4" />
+                    </Button>
+                  )}
+                </div>
+              ))}
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => setForm({ ...form, timesOfDay: [...form.timesOfDay, "20:00"] })}
+              >
+                <Plus className="w-4 h-4 mr-2" />
+                Add Time
+              </Button>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="schedule-repeat">Repeat</Label>
+              <Select
+                id="schedule-repeat"
+                value={form.recurrenceType}
+                onChange={(e) => setForm({ ...form, recurrenceType: e.target.value as RecurrenceType })}
+              >
+                <option value="daily">Every day</option>
+                <option value="weekly">Days of the week</option>
+                <option value="interval">Every N days</option>
+                <option value="cycle">Cycle (days on / days off)</option>
+              </Select>
+            </div>
+
+            {form.recurrenceType === "weekly" && (
+              <div className="flex flex-wrap gap-1">
+                {WEEKDAYS.map((label, day) => {
+                  const selected = form.daysOfWeek.includes(day);
+                  return (
+                    <Button
+                      key={label}
+                      size="sm"
+                      variant={selected ? "default" : "outline"}
+                      onClick={() =>
+                        setForm({
+                          ...form,
+                          daysOfWeek: selected
+                            ? form.daysOfWeek.filter((d) => d !== day)
+                            : [...form.daysOfWeek, day],
+                        })
+                      }
+                    >
+                      {label}
+                    </Button>
+                  );
+                })}
+              </div>
+            )}
+            {form.recurrenceType === "interval" && (
+              <div className="space-y-2">
+                <Label htmlFor="schedule-every">Every (days)</Label>
+                <Input
+                  id="schedule-every"
+                  type="number"
+                  min="1"
+                  value={form.everyDays}
+                  onChange={(e) => setForm({ ...form, everyDays: e.target.value })}
+                />
+              </div>
+            )}
+            {form.recurrenceType === "cycle" && (
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="schedule-on">Days on</Label>
+                  <Input
+                    id="schedule-on"
+                    type="number"
+                    min="1"
+                    value={form.daysOn}
+                    onChange={(e) => setForm({ ...form, daysOn: e.target.value })}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="schedule-off">Days off</Label>
+                  <Input
+                    id="schedule-off"
+                    type="number"
+                    min="0"
+                    value={form.daysOff}
+                    onChange={(e) => setForm({ ...form, daysOff: e.target.value })}
+                  />
+                </div>
+              </div>
+            )}
+
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="schedule-start">Starts</Label>
+                <Input
+                  id="schedule-start"
+                  type="date"
+                  value={form.startDate}
+                  onChange={(e) => setForm({ ...form, startDate: e.target.value })}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="schedule-end">Ends (optional)</Label>
+                <Input
+                  id="schedule-end"
+                  type="date"
+                  value={form.endDate}
+                  onChange={(e) => setForm({ ...form, endDate: e.target.value })}
+                />
+              </div>
+            </div>
+
+            {error && <p className="text-sm text-red-400">{error}</p>}
+
+            <Button onClick={handleSave} className="w-full">
+              Add Schedule
+            </Button>
+          </div>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
@@ -0,0 +1,72 @@
+"use client";
+
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select } from "@/components/ui/select";
+import type { DoseUnit, MassUnit } from "@/lib/types";
+import { MASS_UNITS, isMassUnit } from "@/lib/units";
+
+export interface StrengthForm {
+  amount: string;
+  unit: MassUnit;
+}
+
+export const emptyStrengthForm = (): StrengthForm => ({ amount: "", unit: "mg" });
+
+/**
+ * Strength applies only to units without a mass of their own
+ */
+export function fromStrengthForm(unit: DoseUnit, form: StrengthForm): { amount: number; unit: MassUnit } | undefined {
+  const amount = parseFloat(form.amount);
+  if (isMassUnit(unit) || !(amount > 0)) return undefined;
+  return { amount, unit: form.unit };
+}
+
+/**
+ * "1 pill = [18] [mg]" — hidden for mass units
+ */
+export function StrengthInput({
+  unit,
+  form,
+  onChange,
+  id,
+  hint = "Lets doses count towards mass totals in charts",
+}: {
+  unit: DoseUnit;
+  form: StrengthForm;
+  onChange: (form: StrengthForm) => void;
+  id: string;
+  hint?: string;
+}) {
+  if (isMassUnit(unit)) return null;
+
+  const single = unit === "pills" ? "pill" : unit;
+  return (
+    <div className="space-y-2">
+      <Label htmlFor={id}>Strength (1 {single} =)</Label>
+      <div className="flex gap-2">
+        <Input
+          id={id}
+          type="number"
+          min="0"
+          step="any"
+          placeholder="Unknown"
+          value={form.amount}
+          onChange={(e) => onChange({ ...form, amount: e.target.value })}
+        />
+        <Select
+          value={form.unit}
+          onChange={(e) => onChange({ ...form, unit: e.target.value as MassUnit })}
+          className="w-24"
+        >
+          {MASS_UNITS.map((massUnit) => (
+            <option key={massUnit} value={massUnit}>
+              {massUnit}
+            </option>
+          ))}
+        </Select>
+      </div>
+      <p className="text-xs text-slate-500">{hint}</p>
+    </div>
+  );
+}
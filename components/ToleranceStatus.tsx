@@ -0,0 +1,74 @@
+"use client";
+
+import { useMemo } from "react";
+import { useStore } from "@/store/useStore";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Gauge } from "lucide-react";
+import { getCompoundDoses } from "@/lib/compound-kinetics";
+import { computeToleranceState, getToleranceProfile, type ToleranceStatus as Status } from "@/lib/tolerance";
+import { getCurrentTimeZone } from "@/lib/travel";
+
+const STATUS_LABELS: Record<Exclude<Status, "none">, { label: string; className: string }> = {
+  building: { label: "Tolerance building", className: "bg-amber-500/20 text-amber-300 border-amber-500/30" },
+  stable: { label: "Tolerance stable", className: "bg-slate-500/20 text-slate-300 border-slate-500/30" },
+  recovering: { label: "Recovering", className: "bg-blue-500/20 text-blue-300 border-blue-500/30" },
+  "washout-complete": { label: "Washout complete", className: "bg-emerald-500/20 text-emerald-300 border-emerald-500/30" },
+};
+
+export function ToleranceStatus() {
+  const { compounds, logEntries, settings } = useStore();
+  const timeZone = getCurrentTimeZone(settings);
+
+  const tolerances = useMemo(() => {
+    return compounds
+      .map((compound) => {
+        const profile = getToleranceProfile(compound);
+        return {
+          compound,
+          profile,
+          state: computeToleranceState(getCompoundDoses(compound, logEntries), profile, Date.now(), timeZone),
+        };
+      })
+      .filter(({ state }) => state.status !== "none");
+  }, [compounds, logEntries, timeZone]);
+
+  if (tolerances.length === 0) return null;
+
+  return (
+    <Card className="glass border-slate-800">
+      <CardHeader className="pb-2">
+        <CardTitle className="text-lg flex items-center gap-2">
+          <Gauge className="w-5 h-5 text-amber-400" />
+          Tolerance
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {tolerances.map(({ compound, profile, state }) => {
+          const status = STATUS_LABELS[state.status as Exclude<Status, "none">];
+          return (
+            <div key={compound.id} className="flex items-center justify-between gap-2">
+              <div className="flex items-center gap-2 min-w-0">
+                <div
+                  className="w-3 h-3 rounded-full flex-shrink-0"
+                  style={{ backgroundColor: compound.colorHex }}
+                />
+                <div className="min-w-0">
+                  <p className="text-sm font-medium truncate">{compound.name}</p>
+                  <p className="text-xs text-slate-500">
+                    {(state.potency * 100).toFixed(0)}% potency · {profile.risk} risk
+                    {state.status === "building" && ` · ${state.consecutiveDays} days in a row`}
+                    {state.status === "recovering" && ` · ~${state.daysToWashout} days to washout`}
+                  </p>
+                </div>
+              </div>
+              <Badge variant="outline" className={status.className}>
+                {status.label}
+              </Badge>
+            </div>
+          );
+        })}
+      </CardContent>
+    </Card>
+  );
+}
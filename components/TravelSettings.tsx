@@ -0,0 +1,161 @@
+"use client";
+
+import { useMemo, useState } from "react";
+import { useStore } from "@/store/useStore";
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select } from "@/components/ui/select";
+import { Plane, Home } from "lucide-react";
+import type { TravelPlan } from "@/lib/types";
+import { addDays, getDeviceTimeZone, listTimeZones, toLocalDateString } from "@/lib/dates";
+import { TRAVEL_STRATEGIES, formatTimeZoneOffset, isTravelling, type TravelStrategy } from "@/lib/travel";
+
+const zoneLabel = (timeZone: string) => `${timeZone.replace(/_/g, " ")} (${formatTimeZoneOffset(timeZone)})`;
+
+export function TravelSettings() {
+  const { settings, updateSettings } = useStore();
+  const timeZones = useMemo(() => listTimeZones(), []);
+  const deviceTimeZone = getDeviceTimeZone();
+  const homeToday = toLocalDateString(Date.now(), settings.homeTimeZone);
+  const [tripForm, setTripForm] = useState<TravelPlan>({
+    timeZone: deviceTimeZone !== settings.homeTimeZone ? deviceTimeZone : "",
+    startDate: homeToday,
+    strategy: "gradual",
+  });
+
+  const travel = settings.travel;
+  const isAway = isTravelling(travel, homeToday);
+  const isUpcoming = travel !== null && travel.startDate > homeToday;
+
+  const handleStartTrip = () => {
+    if (!tripForm.timeZone) return;
+    updateSettings({ travel: { ...tripForm, endDate: tripForm.endDate || undefined } });
+  };
+
+  // Yesterday was the last day away; a trip that hasn't started is dropped
+  const handleEndTrip = () => {
+    if (!travel) return;
+    const lastDay = addDays(homeToday, -1);
+    updateSettings({ travel: lastDay >= travel.startDate ? { ...travel, endDate: lastDay } : null });
+  };
+
+  return (
+    <Card className="glass border-slate-800">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Plane className="w-5 h-5 text-sky-400" />
+          Time Zone & Travel
+        </CardTitle>
+        <CardDescription className="mt-1">
+          Dose schedules use your home time zone; a trip moves them and the Neuro-Curve to the local clock
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="space-y-2">
+          <Label htmlFor="home-time-zone">Home Time Zone</Label>
+          <div className="flex gap-2">
+            <Select
+              id="home-time-zone"
+              value={settings.homeTimeZone}
+              onChange={(e) => updateSettings({ homeTimeZone: e.target.value })}
+            >
+              {timeZones.map((zone) => (
+                <option key={zone} value={zone}>
+                  {zoneLabel(zone)}
+                </option>
+              ))}
+            </Select>
+            {settings.homeTimeZone !== deviceTimeZone && (
+              <Button
+                variant="outline"
+                size="icon"
+                onClick={() => updateSettings({ homeTimeZone: deviceTimeZone })}
+                title={`Use this device's zone (${deviceTimeZone})`}
+              >
+                <Home className="w-4 h-4" />
+              </Button>
+            )}
+          </div>
+        </div>
+
+        {travel && (isAway || isUpcoming) ? (
+          <div className="flex items-center justify-between gap-2 p-3 rounded-lg bg-sky-950/40 border border-sky-500/30">
+            <div className="min-w-0">
+              <p className="text-sm font-medium truncate">
+                {isAway ? "Travelling in" : "Trip to"} {zoneLabel(travel.timeZone)}
+              </p>
+              <p className="text-xs text-slate-400">
+                {isUpcoming ? `From ${travel.startDate}` : `Since ${travel.startDate}`}
+                {travel.endDate && ` until ${travel.endDate}`} · {TRAVEL_STRATEGIES[travel.strategy].label}
+              </p>
+            </div>
+            <Button variant="outline" size="sm" onClick={handleEndTrip}>
+              {isAway ? "Back Home" : "Cancel"}
+            </Button>
+          </div>
+        ) : (
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="trip-zone">Travelling To</Label>
+              <Select
+                id="trip-zone"
+                value={tripForm.timeZone}
+                onChange={(e) => setTripForm({ ...tripForm, timeZone: e.target.value })}
+              >
+                <option value="">Choose a time zone...</option>
+                {timeZones
+                  .filter((zone) => zone !== settings.homeTimeZone)
+                  .map((zone) => (
+                    <option key={zone} value={zone}>
+                      {zoneLabel(zone)}
+                    </option>
+                  ))}
+              </Select>
+            </div>
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="trip-start">Leaving</Label>
+                <Input
+                  id="trip-start"
+                  type="date"
+                  value={tripForm.startDate}
+                  onChange={(e) => setTripForm({ ...tripForm, startDate: e.target.value || homeToday })}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="trip-end">Last Day (optional)</Label>
+                <Input
+                  id="trip-end"
+                  type="date"
+                  value={tripForm.endDate ?? ""}
+                  onChange={(e) => setTripForm({ ...tripForm, endDate: e.target.value || undefined })}
+                />
+              </div>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="trip-strategy">Dose Schedules</Label>
+              <Select
+                id="trip-strategy"
+                value={tripForm.strategy}
+                onChange={(e) => setTripForm({ ...tripForm, strategy: e.target.value as TravelStrategy })}
+              >
+                {(Object.keys(TRAVEL_STRATEGIES) as TravelStrategy[]).map((strategy) => (
+                  <option key={strategy} value={strategy}>
+                    {TRAVEL_STRATEGIES[strategy].label}
+                  </option>
+                ))}
+              </Select>
+              <p className="text-xs text-slate-500">{TRAVEL_STRATEGIES[tripForm.strategy].description}</p>
+            </div>
+            <Button onClick={handleStartTrip} disabled={!tripForm.timeZone} className="w-full">
+              <Plane className="w-4 h-4 mr-2" />
+              Start Trip
+            </Button>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
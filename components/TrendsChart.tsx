@@ -13,6 +13,8 @@ import {
   Legend,
   ResponsiveContainer,
 } from "recharts";
+import { sumDoses } from "@/lib/units";
+import { parseLocalDate } from "@/lib/dates";
 
 export function TrendsChart() {
   const { logEntries, compounds } = useStore();
@@ -28,9 +30,13 @@ export function TrendsChart() {
       logs: typeof logEntries;
     }>();
 
+    // Only doses with a known mass are added up (in mg)
+    let unconvertedDoses = 0;
     logEntries.forEach((log) => {
       const existing = dateMap.get(log.date);
-      const totalDose = log.doseItems.reduce((sum, item) => sum + item.dose, 0);
+      const totals = sumDoses(compounds, log.doseItems);
+      const totalDose = totals.milligrams;
+      unconvertedDoses += totals.unconvertedCount;
 
       if (existing) {
         existing.anxiety += log.anxiety;
@@ -51,23 +57,24 @@ export function TrendsChart() {
     });
 
     // Calculate averages and format for chart
+    // Dates are local calendar days; sort them before formatting
     const data = Array.from(dateMap.values())
+      .sort((a, b) => a.date.localeCompare(b.date))
       .map((item) => ({
-        date: new Date(item.date).toLocaleDateString("en-US", {
+        date: new Date(parseLocalDate(item.date)).toLocaleDateString("en-US", {
           month: "short",
           day: "numeric",
         }),
         anxiety: Number((item.anxiety / item.count).toFixed(1)),
         functionality: Number((item.functionality / item.count).toFixed(1)),
-        totalDose: Number(item.totalDose.toFixed(0)),
+        totalDose: Number(item.totalDose.toFixed(1)),
       }))
-      .sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime())
       .slice(-30); // Last 30 days
 
-    return data;
-  }, [logEntries]);
+    return { data, unconvertedDoses };
+  }, [logEntries, compounds]);
 
-  if (chartData.length === 0) {
+  if (chartData.data.length === 0) {
     return (
       <div className="h-[300px] flex items-center justify-center text-slate-500">
         <p>No data to display. Start logging to see trends!</p>
@@ -76,63 +83,72 @@ export function TrendsChart() {
   }
 
   return (
-    <ResponsiveContainer width="100%" height={300}>
-      <ComposedChart data={chartData}>
-        <CartesianGrid strokeDasharray="3 3" stroke="#334155" />
-        <XAxis
-          dataKey="date"
-          stroke="#94a3b8"
-          tick={{ fill: "#94a3b8" }}
-          style={{ fontSize: "12px" }}
-        />
-        <YAxis
-          yAxisId="left"
-          stroke="#94a3b8"
-          tick={{ fill: "#94a3b8" }}
-          label={{ value: "Score (1-10)", angle: -90, position: "insideLeft", fill: "#94a3b8" }}
-        />
-        <YAxis
-          yAxisId="right"
-          orientation="right"
-          stroke="#94a3b8"
-          tick={{ fill: "#94a3b8" }}
-          label={{ value: "Total Dose (mg)", angle: 90, position: "insideRight", fill: "#94a3b8" }}
-        />
-        <Tooltip
-          contentStyle={{
-            backgroundColor: "#1e293b",
-            border: "1px solid #334155",
-            borderRadius: "8px",
-            color: "#f1f5f9",
-          }}
-        />
-        <Legend wrapperStyle={{ paddingTop: "20px" }} />
-        <Bar
-          yAxisId="right"
-          dataKey="totalDose"
-          fill="#3b82f6"
-          opacity={0.6}
-          name="Total Dose"
-        />
-        <Line
-          yAxisId="left"
-          type="monotone"
-          dataKey="anxiety"
-          stroke="#ff4444"
-          strokeWidth={2}
-          dot={{ fill: "#ff4444", r: 4 }}
-          name="Anxiety"
-        />
-        <Line
-          yAxisId="left"
-          type="monotone"
-          dataKey="functionality"
-          stroke="#10b981"
-          strokeWidth={2}
-          dot={{ fill: "#10b981", r: 4 }}
-          name="Functionality"
-        />
-      </ComposedChart>
-    </ResponsiveContainer>
+    <>
+      <ResponsiveContainer width="100%" height={300}>
+        <ComposedChart data={chartData.data}>
+          <CartesianGrid strokeDasharray="3 3" stroke="#334155" />
+          <XAxis
+            dataKey="date"
+            stroke="#94a3b8"
+            tick={{ fill: "#94a3b8" }}
+            style={{ fontSize: "12px" }}
+          />
+          <YAxis
+            yAxisId="left"
+            stroke="#94a3b8"
+            tick={{ fill: "#94a3b8" }}
+            label={{ value: "Score (1-10)", angle: -90, position: "insideLeft", fill: "#94a3b8" }}
+          />
+          <YAxis
+            yAxisId="right"
+            orientation="right"
+            stroke="#94a3b8"
+            tick={{ fill: "#94a3b8" }}
+            label={{ value: "Total Dose (mg)", angle: 90, position: "insideRight", fill: "#94a3b8" }}
+          />
+          <Tooltip
+            contentStyle={{
+              backgroundColor: "#1e293b",
+              border: "1px solid #334155",
+              borderRadius: "8px",
+              color: "#f1f5f9",
+            }}
+          />
+          <Legend wrapperStyle={{ paddingTop: "20px" }} />
+          <Bar
+            yAxisId="right"
+            dataKey="totalDose"
+            fill="#3b82f6"
+            opacity={0.6}
+            name="Total Dose (mg)"
+          />
+          <Line
+            yAxisId="left"
+            type="monotone"
+            dataKey="anxiety"
+            stroke="#ff4444"
+            strokeWidth={2}
+            dot={{ fill: "#ff4444", r: 4 }}
+            name="Anxiety"
+          />
+          <Line
+            yAxisId="left"
+            type="monotone"
+            dataKey="functionality"
+            stroke="#10b981"
+            strokeWidth={2}
+            dot={{ fill: "#10b981", r: 4 }}
+            name="Functionality"
+          />
+        </ComposedChart>
+      </ResponsiveContainer>
+      {chartData.unconvertedDoses > 0 && (
+        <p className="text-xs text-slate-500 mt-2">
+          {chartData.unconvertedDoses} {chartData.unconvertedDoses === 1 ? "dose" : "doses"} in pills, ml or IU
+          without a strength {chartData.unconvertedDoses === 1 ? "isn't" : "aren't"} included in the total. Set a
+          strength in the compound&apos;s settings to count {chartData.unconvertedDoses === 1 ? "it" : "them"}.
+        </p>
+      )}
+    </>
   );
 }
@@ -0,0 +1,210 @@
+import type { DoseSchedule, LogEntry, StackPreset } from './types';
+import { addDays, dayOfWeek, daysBetween, getDeviceTimeZone, toLocalDateString } from './dates';
+import { scheduleTimestamp, type TravelSettings } from './travel';
+
+/**
+ * Schedules & Adherence
+ *
+ * Expands recurring schedules into dated dose slots and matches logged dose
+ * items against them, per compound. Each slot takes the earliest unmatched
+ * dose within its window: up to an hour early or an hour late counts as
+ * taken, up to LATE_WINDOW_HOURS as late; after that the slot is missed.
+ * Logged doses that match no slot are extra.
+ *
+ * Schedule days are calendar days in the home time zone; a trip can move
+ * the slots (see lib/travel).
+ */
+
+/** How early or late a dose still counts as on time */
+export const ON_TIME_WINDOW_HOURS = 1;
+
+/** How late a dose can be and still count towards its slot */
+export const LATE_WINDOW_HOURS = 4;
+
+const HOUR_MS = 60 * 60 * 1000;
+
+export type SlotStatus = 'taken' | 'late' | 'missed' | 'pending';
+
+export interface ScheduledSlot {
+  scheduleId: string;
+  compoundId: string;
+  dose: number;
+  time: number;
+}
+
+export interface SlotResult extends ScheduledSlot {
+  status: SlotStatus;
+  /** Matching logged dose, if any */
+  takenAt: number | null;
+}
+
+export interface ExtraDose {
+  compoundId: string;
+  dose: number;
+  time: number;
+}
+
+export interface CompoundAdherence {
+  compoundId: string;
+  taken: number;
+  late: number;
+  missed: number;
+  pending: number;
+  extra: number;
+  /** Share of due slots taken on time or late (null with none due) */
+  adherence: number | null;
+  /** Share of due slots taken on time */
+  onTime: number | null;
+}
+
+/**
+ * Whether a schedule doses on a given day ("YYYY-MM-DD")
+ */
+export function isScheduledDay(schedule: DoseSchedule, date: string): boolean {
+  if (date < schedule.startDate) return false;
+  if (schedule.endDate && date > schedule.endDate) return false;
+
+  const daysSinceStart = daysBetween(schedule.startDate, date);
+  const recurrence = schedule.recurrence;
+  switch (recurrence.type) {
+    case 'daily':
+      return true;
+    case 'weekly':
+      return recurrence.daysOfWeek.includes(dayOfWeek(date));
+    case 'interval':
+      return daysSinceStart % Math.max(1, recurrence.everyDays) === 0;
+    case 'cycle':
+      return daysSinceStart % Math.max(1, recurrence.daysOn + recurrence.daysOff) < recurrence.daysOn;
+  }
+}
+
+/**
+ * Dose slots of the active schedules between two times
+ * Preset schedules become one slot per preset item.
+ *
+ * @param timing Home zone and trip; defaults to the device's zone, no travel
+ */
+export function expandSchedules(
+  schedules: DoseSchedule[],
+  presets: StackPreset[],
+  from: number,
+  to: number,
+  timing: TravelSettings = { homeTimeZone: getDeviceTimeZone(), travel: null }
+): ScheduledSlot[] {
+  const slots: ScheduledSlot[] = [];
+  // A day either side, as a trip can move slots across midnight
+  const firstDay = addDays(toLocalDateString(from, timing.homeTimeZone), -1);
+  const lastDay = addDays(toLocalDateString(to, timing.homeTimeZone), 1);
+
+  schedules
+    .filter(schedule => schedule.isActive)
+    .forEach(schedule => {
+      const items =
+        schedule.target.type === 'compound'
+          ? [{ compoundId: schedule.target.compoundId, dose: schedule.target.dose }]
+          : presets.find(preset => preset.id === (schedule.target as { presetId: string }).presetId)?.doseItems ?? [];
+
+      for (let day = firstDay; day <= lastDay; day = addDays(day, 1)) {
+        if (!isScheduledDay(schedule, day)) continue;
+        schedule.timesOfDay.forEach(clock => {
+          const time = scheduleTimestamp(timing, day, clock);
+          if (time < from || time > to) return;
+          items.forEach(item => slots.push({ scheduleId: schedule.id, compoundId: item.compoundId, dose: item.dose, time }));
+        });
+      }
+    });
+
+  return slots.sort((a, b) => a.time - b.time);
+}
+
+/**
+ * Match logged doses to scheduled slots
+ *
+ * @param schedules All schedules
+ * @param presets Presets (for preset schedules)
+ * @param logEntries Logged history
+ * @param from Start of the evaluated period
+ * @param now End of the evaluated period (slots still in their window are pending)
+ * @param timing Home zone and trip (see expandSchedules)
+ */
+export function evaluateAdherence(
+  schedules: DoseSchedule[],
+  presets: StackPreset[],
+  logEntries: LogEntry[],
+  from: number,
+  now: number = Date.now(),
+  timing?: TravelSettings
+): { slots: SlotResult[]; extra: ExtraDose[] } {
+  const slots = expandSchedules(schedules, presets, from, now, timing);
+
+  // Doses just before the period can belong to its first slots
+  const doses = logEntries
+    .flatMap(entry => entry.doseItems)
+    .filter(item => item.dose > 0 && item.timestamp >= from - ON_TIME_WINDOW_HOURS * HOUR_MS && item.timestamp <= now)
+    .sort((a, b) => a.timestamp - b.timestamp);
+  const used = new Set<number>();
+
+  const results: SlotResult[] = slots.map(slot => {
+    const matchIdx = doses.findIndex(
+      (dose, idx) =>
+        !used.has(idx) &&
+        dose.compoundId === slot.compoundId &&
+        dose.timestamp >= slot.time - ON_TIME_WINDOW_HOURS * HOUR_MS &&
+        dose.timestamp <= slot.time + LATE_WINDOW_HOURS * HOUR_MS
+    );
+
+    if (matchIdx >= 0) {
+      used.add(matchIdx);
+      const takenAt = doses[matchIdx].timestamp;
+      const status = takenAt <= slot.time + ON_TIME_WINDOW_HOURS * HOUR_MS ? 'taken' : 'late';
+      return { ...slot, status, takenAt };
+    }
+    const status = slot.time + LATE_WINDOW_HOURS * HOUR_MS < now ? 'missed' : 'pending';
+    return { ...slot, status, takenAt: null };
+  });
+
+  // Only compounds with a schedule can have "extra" doses
+  const scheduledCompounds = new Set(slots.map(slot => slot.compoundId));
+  const extra = doses
+    .filter((dose, idx) => !used.has(idx) && dose.timestamp >= from && scheduledCompounds.has(dose.compoundId))
+    .map(dose => ({ compoundId: dose.compoundId, dose: dose.dose, time: dose.timestamp }));
+
+  return { slots: results, extra };
+}
+
+/**
+ * Adherence counts and percentages per compound
+ */
+export function summarizeAdherence(
+  slots: SlotResult[],
+  extra: ExtraDose[]
+): CompoundAdherence[] {
+  const byCompound = new Map<string, CompoundAdherence>();
+  const entry = (compoundId: string) => {
+    if (!byCompound.has(compoundId)) {
+      byCompound.set(compoundId, {
+        compoundId,
+        taken: 0,
+        late: 0,
+        missed: 0,
+        pending: 0,
+        extra: 0,
+        adherence: null,
+        onTime: null,
+      });
+    }
+    return byCompound.get(compoundId)!;
+  };
+
+  slots.forEach(slot => entry(slot.compoundId)[slot.status]++);
+  extra.forEach(dose => entry(dose.compoundId).extra++);
+
+  return [...byCompound.values()].map(summary => {
+    const due = summary.taken + summary.late + summary.missed;
+    return {
+      ...summary,
+      adherence: due > 0 ? (summary.taken + summary.late) / due : null,
+      onTime: due > 0 ? summary.taken / due : null,
+    };
+  });
+}
@@ -0,0 +1,133 @@
+import { Compound, LogEntry } from './types';
+import { CompoundDetail, Formulation, PharmacokineticProfile } from './compound-types';
+import { findLibraryCompound } from './compound-library';
+import { singleDoseRanges, singleDoseTiming } from './onset-parser';
+import { getDoseScale, kineticsFromProfile, type CompoundKinetics, type TimedDose } from './pharmacokinetics';
+
+/**
+ * Defaults used when neither the user nor the library knows a compound's timing
+ */
+export const DEFAULT_KINETICS: CompoundKinetics = {
+  onsetMinutes: 30,
+  peakMinutes: 120,
+  durationMinutes: 360,
+};
+
+/**
+ * Onset/peak/duration estimates from the library's parsed timing string
+ */
+function kineticsFromLibraryTiming(detail: CompoundDetail | undefined): CompoundKinetics {
+  const timing = singleDoseTiming(detail?.onset);
+  return {
+    onsetMinutes: timing.onset ?? DEFAULT_KINETICS.onsetMinutes,
+    peakMinutes: timing.peak ?? DEFAULT_KINETICS.peakMinutes,
+    durationMinutes: timing.duration ?? DEFAULT_KINETICS.durationMinutes,
+  };
+}
+
+/**
+ * Name patterns that identify a product's release mechanism, checked in order
+ * (biphasic brands before the generic XR suffixes they also carry)
+ */
+const FORMULATION_PATTERNS: [Formulation, RegExp][] = [
+  ['biphasic', /\b(adderall xr|mydayis|ritalin la|metadate cd|focalin xr|aptensio|biphasic)\b/i],
+  ['transdermal', /\b(patch|transdermal|daytrana|emsam|xelstrym)\b/i],
+  ['sublingual', /\b(sublingual|sl|buccal|lozenge)\b/i],
+  ['XR', /\b(xr|er|sr|cr|xl|la|concerta|extended[- ]release|sustained[- ]release|controlled[- ]release)\b/i],
+];
+
+/**
+ * Guess the formulation from a compound's name, e.g. "Methylphenidate ER"
+ */
+export function inferFormulation(name: string): Formulation | undefined {
+  return FORMULATION_PATTERNS.find(([, pattern]) => pattern.test(name))?.[0];
+}
+
+/**
+ * Merge the user's PK constants over the library's, field by field
+ * The formulation falls back to one inferred from the compound's name.
+ */
+function resolveProfile(compound: Compound, detail: CompoundDetail | undefined): PharmacokineticProfile {
+  const own = compound.pharmacokinetics;
+  const library = detail?.pharmacokinetics;
+  return {
+    halfLifeHours: own?.halfLifeHours ?? library?.halfLifeHours,
+    tmaxHours: own?.tmaxHours ?? library?.tmaxHours,
+    bioavailability: own?.bioavailability ?? library?.bioavailability,
+    formulation: own?.formulation ?? inferFormulation(compound.name) ?? library?.formulation,
+  };
+}
+
+/**
+ * Resolve the kinetic parameters the engine should use for a pharmacy compound
+ * 
+ * Precedence: the user's own PK constants, then the library's measured
+ * constants, then the library's onset/peak/duration heuristics, then defaults.
+ */
+export function resolveCompoundKinetics(compound: Compound): CompoundKinetics {
+  const detail = findLibraryCompound(compound);
+  return kineticsFromProfile(resolveProfile(compound, detail), kineticsFromLibraryTiming(detail));
+}
+
+/**
+ * Relative spread assumed for values without a library range
+ * (measured constants still vary between people)
+ */
+const POINT_ESTIMATE_SPREAD = 0.25;
+
+/**
+ * Draw uniformly from a min/max range, or around a point estimate
+ */
+function sampleValue(
+  random: () => number,
+  min: number | undefined,
+  max: number | undefined,
+  pointEstimate: number
+): number {
+  if (min !== undefined && max !== undefined && max > min) {
+    return min + (max - min) * random();
+  }
+  const value = min ?? max ?? pointEstimate;
+  return value * (1 + POINT_ESTIMATE_SPREAD * (2 * random() - 1));
+}
+
+/**
+ * Build a sampler of plausible kinetic parameters for Monte Carlo bands
+ * 
+ * Onset/peak/duration are drawn across the library's min/max ranges; measured
+ * constants and values without a range vary by ±25% around their estimate.
+ * Precedence between the sources is the same as resolveCompoundKinetics.
+ */
+export function createKineticsSampler(compound: Compound): (random: () => number) => CompoundKinetics {
+  const detail = findLibraryCompound(compound);
+  const profile = resolveProfile(compound, detail);
+  const { onset, peak, duration } = singleDoseRanges(detail?.onset);
+
+  return random => {
+    const fallback: CompoundKinetics = {
+      onsetMinutes: sampleValue(random, onset?.min, onset?.max, DEFAULT_KINETICS.onsetMinutes),
+      peakMinutes: sampleValue(random, peak?.min, peak?.max, DEFAULT_KINETICS.peakMinutes),
+      durationMinutes: sampleValue(random, duration?.min, duration?.max, DEFAULT_KINETICS.durationMinutes),
+    };
+    const sampled: PharmacokineticProfile = {
+      ...profile,
+      halfLifeHours: profile.halfLifeHours && sampleValue(random, undefined, undefined, profile.halfLifeHours),
+      tmaxHours: profile.tmaxHours && sampleValue(random, undefined, undefined, profile.tmaxHours),
+    };
+    return kineticsFromProfile(sampled, fallback);
+  };
+}
+
+/**
+ * Every logged dose of a compound, scaled to its default dose
+ */
+export function getCompoundDoses(compound: Compound, logEntries: LogEntry[]): TimedDose[] {
+  return logEntries.flatMap(log =>
+    log.doseItems
+      .filter(item => item.compoundId === compound.id)
+      .map(item => ({
+        timestamp: item.timestamp,
+        doseScale: getDoseScale(item.dose, compound.defaultDose),
+      }))
+  );
+}
@@ -1,4 +1,4 @@
-import { CompoundDetail, CompoundIndexEntry, CompoundFilters } from './compound-types';
+import { CompoundDetail, CompoundIndexEntry, CompoundFilters, TimingConfidence } from './compound-types';
 import compoundsData from './data/compounds.json';
 import searchIndexData from './data/compound-search-index.json';
 
@@ -70,6 +70,23 @@ export function getCompoundById(id: string): CompoundDetail | undefined {
   return compounds.find(c => c.id === id);
 }
 
+/**
+ * Find the library entry for a pharmacy compound
+ * Uses the stored library id, falling back to a name/alias match
+ */
+export function findLibraryCompound(compound: { name: string; libraryId?: string }): CompoundDetail | undefined {
+  if (compound.libraryId) {
+    const byId = getCompoundById(compound.libraryId);
+    if (byId) return byId;
+  }
+  
+  const nameLower = normalizeQuery(compound.name);
+  return compounds.find(c =>
+    normalizeQuery(c.name) === nameLower ||
+    c.aliases.some(alias => normalizeQuery(alias) === nameLower)
+  );
+}
+
 /**
  * Get all compounds
  */
@@ -205,8 +222,8 @@ export function formatOnsetPeakDuration(compound: CompoundDetail): {
     return { onset: 'N/A', peak: 'N/A', duration: 'N/A' };
   }
   
-  const formatTime = (min?: number, max?: number): string => {
-    if (!min) return 'N/A';
+  const formatTime = (min?: number, max?: number, confidence?: TimingConfidence): string => {
+    if (!min) return confidence === 'cumulative' ? 'With repeated use' : 'N/A';
     
     const formatMinutes = (minutes: number): string => {
       if (minutes < 60) return `${minutes}m`;
@@ -214,20 +231,25 @@ export function formatOnsetPeakDuration(compound: CompoundDetail): {
         const hours = Math.round(minutes / 60 * 10) / 10;
         return `${hours}h`;
       }
+      if (minutes >= 10080 && minutes % 10080 === 0) return `${minutes / 10080}w`;
       const days = Math.round(minutes / 1440 * 10) / 10;
       return `${days}d`;
     };
     
-    if (!max || min === max) {
-      return formatMinutes(min);
-    }
-    
-    return `${formatMinutes(min)}-${formatMinutes(max)}`;
+    const range =
+      max === undefined
+        ? `${formatMinutes(min)}+`
+        : !max || min === max
+          ? formatMinutes(min)
+          : `${formatMinutes(min)}-${formatMinutes(max)}`;
+    if (confidence === 'approximate') return `~${range}`;
+    if (confidence === 'cumulative') return `${range} (with repeated use)`;
+    return range;
   };
   
   return {
-    onset: formatTime(onset.onsetMin, onset.onsetMax),
-    peak: formatTime(onset.peakMin, onset.peakMax),
-    duration: formatTime(onset.durationMin, onset.durationMax),
+    onset: formatTime(onset.onsetMin, onset.onsetMax, onset.confidence?.onset),
+    peak: formatTime(onset.peakMin, onset.peakMax, onset.confidence?.peak),
+    duration: formatTime(onset.durationMin, onset.durationMax, onset.confidence?.duration),
   };
 }
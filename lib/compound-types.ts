@@ -9,16 +9,11 @@ export interface CompoundDetail {
   mechanisticTags: string[]; // e.g., ["ADHD", "Dopamine", "Stimulant"]
   acuteEffect: boolean; // Does it work after one dose?
   onset: OnsetPeakDuration;
+  pharmacokinetics?: PharmacokineticProfile; // Measured PK constants, when known
   recreational: RecreationalRisk;
   dependenceTolerance: string;
   daytimeNighttime: string; // "Daytime only", "Nighttime", "Either"
   
-  // Interactions
-  interactions: {
-    voxra: string; // Interaction with Bupropion
-    ssri: string; // Interaction with Escitalopram
-  };
-  
   // Evidence
   evidence: {
     strength: string; // A-H letter grade
@@ -29,18 +24,92 @@ export interface CompoundDetail {
   efficacyScore: number; // 0-10
   safetyScore: number; // 0-10
   
+  fdaApproved?: string; // Regulatory status, e.g. "Yes", "OTC", "No (EU)"
+  defaultDosage?: string; // Typical dose range, e.g. "100-200 mg"
+  
   // Computed fields
   categoryTags: string[]; // Derived from effectType and mechanisticTags
+  provenance?: CompoundProvenance; // Which data source each field came from
+}
+
+// Library data sources, highest precedence first (see scripts/generate-compound-index.js)
+export type CompoundDataSource = 'master' | 'balanced-1' | 'balanced-2' | 'common';
+
+export const COMPOUND_DATA_SOURCES: Record<CompoundDataSource, string> = {
+  master: 'Compound master sheet',
+  'balanced-1': 'Balanced-efficacy compound sheet',
+  'balanced-2': 'Balanced-efficacy compound sheet 2',
+  common: 'Common compounds list',
+};
+
+// Where a merged library compound's data came from
+export interface CompoundProvenance {
+  sources: CompoundDataSource[]; // Every source listing the compound
+  fields: Partial<Record<string, CompoundDataSource>>; // Source of each merged field, by field name
 }
 
 export interface OnsetPeakDuration {
   raw: string; // Raw string from CSV
-  onsetMin?: number; // Minutes
+  onsetMin?: number; // Minutes; the max is left out for open-ended times ("12+ hours")
   onsetMax?: number;
   peakMin?: number;
   peakMax?: number;
   durationMin?: number;
   durationMax?: number;
+  confidence?: Record<TimingPart, TimingConfidence>; // How each part was read (see lib/onset-parser.ts)
+}
+
+export type TimingPart = 'onset' | 'peak' | 'duration';
+
+// exact: just a time range; approximate: a range among other words ("~2h", ">20 hrs");
+// cumulative: the time for an effect that builds with repeated doses ("1-2 weeks for full effect",
+// or any onset or peak of a day or more);
+// missing: blank or "N/A"; unparsed: text with no readable time
+export type TimingConfidence = 'exact' | 'approximate' | 'cumulative' | 'missing' | 'unparsed';
+
+// Release mechanism of a product; changes the absorption model
+export type Formulation = 'IR' | 'XR' | 'biphasic' | 'transdermal' | 'sublingual';
+
+export const FORMULATIONS: Record<Formulation, string> = {
+  IR: 'Immediate release',
+  XR: 'Extended release',
+  biphasic: 'Biphasic (IR + delayed pulse)',
+  transdermal: 'Transdermal patch',
+  sublingual: 'Sublingual',
+};
+
+// Structured pharmacokinetic constants (from data/pharmacokinetics.csv or user edits)
+export interface PharmacokineticProfile {
+  halfLifeHours?: number; // Elimination half-life
+  tmaxHours?: number; // Time to peak plasma concentration
+  bioavailability?: number; // Fraction absorbed (0-1)
+  formulation?: Formulation; // Release mechanism
+  source?: string; // Where the values come from
+}
+
+// How much a drug-drug interaction matters, least to most serious
+export type InteractionSeverity = 'none' | 'minor' | 'moderate' | 'major';
+
+export const INTERACTION_SEVERITIES: Record<InteractionSeverity, string> = {
+  none: 'No known interaction',
+  minor: 'Minor',
+  moderate: 'Moderate',
+  major: 'Major',
+};
+
+// One side of an interaction; libraryId is set when the name matches a library compound
+export interface InteractionParty {
+  name: string;
+  libraryId?: string;
+}
+
+// Pairwise drug-drug interaction (from data/interactions.csv or AI search)
+export interface CompoundInteraction {
+  compoundA: InteractionParty;
+  compoundB: InteractionParty;
+  severity: InteractionSeverity;
+  mechanism: string;
+  source?: string;
 }
 
 export type RecreationalRisk = 'No' | 'Low' | 'Mild' | 'Moderate' | 'Yes' | 'High';
@@ -0,0 +1,98 @@
+/**
+ * WebCrypto helpers for PIN-based encryption
+ *
+ * PBKDF2-SHA256 turns the PIN into either a verification hash or an AES-GCM
+ * key, always with separate random salts so the stored hash reveals nothing
+ * about the encryption key. Binary values are carried as base64 strings.
+ */
+
+export const PBKDF2_ITERATIONS = 250_000;
+
+const SALT_BYTES = 16;
+const IV_BYTES = 12;
+
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+
+function toBase64(bytes: ArrayBuffer | Uint8Array): string {
+  const array = bytes instanceof Uint8Array ? bytes : new Uint8Array(bytes);
+  let binary = '';
+  array.forEach(byte => {
+    binary += String.fromCharCode(byte);
+  });
+  return btoa(binary);
+}
+
+function fromBase64(value: string): Uint8Array<ArrayBuffer> {
+  const binary = atob(value);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+  return bytes;
+}
+
+export function randomSalt(): string {
+  return toBase64(crypto.getRandomValues(new Uint8Array(SALT_BYTES)));
+}
+
+async function pinKeyMaterial(pin: string): Promise<CryptoKey> {
+  return crypto.subtle.importKey('raw', encoder.encode(pin), 'PBKDF2', false, ['deriveBits', 'deriveKey']);
+}
+
+/**
+ * Salted PBKDF2 hash of a PIN, for verification only
+ */
+export async function hashPin(pin: string, salt: string, iterations: number = PBKDF2_ITERATIONS): Promise<string> {
+  const bits = await crypto.subtle.deriveBits(
+    { name: 'PBKDF2', hash: 'SHA-256', salt: fromBase64(salt), iterations },
+    await pinKeyMaterial(pin),
+    256
+  );
+  return toBase64(bits);
+}
+
+/**
+ * Compare a PIN against a stored hash without short-circuiting on the first difference
+ */
+export async function verifyPin(pin: string, salt: string, hash: string, iterations?: number): Promise<boolean> {
+  const candidate = await hashPin(pin, salt, iterations);
+  if (candidate.length !== hash.length) return false;
+  let diff = 0;
+  for (let i = 0; i < hash.length; i++) diff |= candidate.charCodeAt(i) ^ hash.charCodeAt(i);
+  return diff === 0;
+}
+
+/**
+ * AES-256-GCM key derived from a PIN (non-extractable)
+ */
+export async function deriveKey(pin: string, salt: string, iterations: number = PBKDF2_ITERATIONS): Promise<CryptoKey> {
+  return crypto.subtle.deriveKey(
+    { name: 'PBKDF2', hash: 'SHA-256', salt: fromBase64(salt), iterations },
+    await pinKeyMaterial(pin),
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['encrypt', 'decrypt']
+  );
+}
+
+export interface EncryptedPayload {
+  iv: string;
+  data: string;
+}
+
+export async function encryptString(key: CryptoKey, plaintext: string): Promise<EncryptedPayload> {
+  const iv = crypto.getRandomValues(new Uint8Array(IV_BYTES));
+  const data = await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, key, encoder.encode(plaintext));
+  return { iv: toBase64(iv), data: toBase64(data) };
+}
+
+/**
+ * Decrypt a payload; throws if the key is wrong or the data was tampered with
+ */
+export async function decryptString(key: CryptoKey, payload: EncryptedPayload): Promise<string> {
+  const plaintext = await crypto.subtle.decrypt(
+    { name: 'AES-GCM', iv: fromBase64(payload.iv) },
+    key,
+    fromBase64(payload.data)
+  );
+  return decoder.decode(plaintext);
+}
@@ -0,0 +1,147 @@
+import type { Compound, CycleProtocol, StackPreset } from './types';
+import type { ToleranceRisk } from './tolerance';
+import { getToleranceProfile } from './tolerance';
+import { addDays, daysBetween, getDeviceTimeZone, toLocalDateString, zonedTimestamp } from './dates';
+
+/**
+ * Cycling & Washout
+ *
+ * A cycle protocol alternates days on and days off ("3 weeks on, 1 week
+ * off"), counted in calendar days from its start date in the zone the user
+ * is in (the destination while travelling, like log dates). Protocols can
+ * sit on a compound or on a preset; a compound is in washout when any
+ * protocol covering it is in its off phase.
+ */
+
+/** Starting points offered when setting up a cycle, by tolerance risk */
+export const SUGGESTED_CYCLES: Record<ToleranceRisk, Pick<CycleProtocol, 'onDays' | 'offDays'>> = {
+  high: { onDays: 21, offDays: 7 },
+  moderate: { onDays: 28, offDays: 7 },
+  low: { onDays: 56, offDays: 14 },
+};
+
+export type CyclePhaseName = 'upcoming' | 'on' | 'off';
+
+export interface CyclePhase {
+  phase: CyclePhaseName;
+  /** 1-based day within the current phase (0 while upcoming) */
+  dayOfPhase: number;
+  phaseLength: number;
+  /** Days left in the phase, including today (days until the start while upcoming) */
+  daysRemaining: number;
+  /** Local midnight the next phase begins */
+  nextPhaseStart: number;
+  /** 1-based cycle count (0 while upcoming) */
+  cycleNumber: number;
+}
+
+export interface CycleSource {
+  type: 'compound' | 'preset';
+  id: string;
+  name: string;
+  protocol: CycleProtocol;
+}
+
+export interface WashoutConflict {
+  compound: Compound;
+  source: CycleSource;
+  phase: CyclePhase;
+}
+
+/**
+ * Suggested on/off lengths from tolerance risk; for several compounds (a
+ * preset) the most cautious one wins
+ */
+export function suggestCycle(
+  compounds: Array<Pick<Compound, 'name' | 'libraryId'>>
+): Pick<CycleProtocol, 'onDays' | 'offDays'> {
+  const risks = compounds.map(compound => getToleranceProfile(compound).risk);
+  const risk = (['high', 'moderate', 'low'] as const).find(r => risks.includes(r)) ?? 'moderate';
+  return SUGGESTED_CYCLES[risk];
+}
+
+/**
+ * Where a protocol stands on a given day
+ *
+ * @param timeZone Zone whose calendar days count (see getCurrentTimeZone)
+ */
+export function getCyclePhase(
+  protocol: CycleProtocol,
+  now: number = Date.now(),
+  timeZone: string = getDeviceTimeZone()
+): CyclePhase {
+  const today = toLocalDateString(now, timeZone);
+  const day = daysBetween(protocol.startDate, today);
+  const midnight = (date: string) => zonedTimestamp(date, '00:00', timeZone);
+  const onDays = Math.max(1, protocol.onDays);
+  const offDays = Math.max(0, protocol.offDays);
+
+  if (day < 0) {
+    return { phase: 'upcoming', dayOfPhase: 0, phaseLength: -day, daysRemaining: -day, nextPhaseStart: midnight(protocol.startDate), cycleNumber: 0 };
+  }
+
+  const position = day % (onDays + offDays);
+  const cycleNumber = Math.floor(day / (onDays + offDays)) + 1;
+  const isOn = position < onDays;
+  const daysRemaining = isOn ? onDays - position : onDays + offDays - position;
+
+  return {
+    phase: isOn ? 'on' : 'off',
+    dayOfPhase: isOn ? position + 1 : position - onDays + 1,
+    phaseLength: isOn ? onDays : offDays,
+    daysRemaining,
+    nextPhaseStart: midnight(addDays(today, daysRemaining)),
+    cycleNumber,
+  };
+}
+
+/**
+ * Every protocol on the pharmacy and its presets
+ */
+export function getCycleSources(compounds: Compound[], presets: StackPreset[]): CycleSource[] {
+  return [
+    ...compounds
+      .filter(compound => compound.cycle)
+      .map(compound => ({ type: 'compound' as const, id: compound.id, name: compound.name, protocol: compound.cycle! })),
+    ...presets
+      .filter(preset => preset.cycle)
+      .map(preset => ({ type: 'preset' as const, id: preset.id, name: preset.name, protocol: preset.cycle! })),
+  ];
+}
+
+/**
+ * Compounds about to be dosed that a protocol has in washout
+ *
+ * @param compounds The pharmacy
+ * @param presets Presets (their protocols cover each of their compounds)
+ * @param compoundIds Compounds being dosed
+ * @param timeZone Zone whose calendar days count (see getCurrentTimeZone)
+ */
+export function findWashoutConflicts(
+  compounds: Compound[],
+  presets: StackPreset[],
+  compoundIds: string[],
+  now: number = Date.now(),
+  timeZone: string = getDeviceTimeZone()
+): WashoutConflict[] {
+  const dosed = new Set(compoundIds);
+  const conflicts: WashoutConflict[] = [];
+
+  getCycleSources(compounds, presets).forEach(source => {
+    const phase = getCyclePhase(source.protocol, now, timeZone);
+    if (phase.phase !== 'off') return;
+    const covered =
+      source.type === 'compound'
+        ? [source.id]
+        : presets.find(preset => preset.id === source.id)?.doseItems.map(item => item.compoundId) ?? [];
+
+    covered
+      .filter(id => dosed.has(id))
+      .forEach(id => {
+        const compound = compounds.find(c => c.id === id);
+        if (compound) conflicts.push({ compound, source, phase });
+      });
+  });
+
+  return conflicts;
+}
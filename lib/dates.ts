@@ -0,0 +1,146 @@
+/**
+ * Local Calendar Dates
+ *
+ * Dates the user picks ("YYYY-MM-DD") are local calendar days, not UTC.
+ * Helpers taking a timeZone work in that IANA zone instead of the device's,
+ * for entries logged while travelling.
+ */
+
+const MINUTE_MS = 60 * 1000;
+
+/** Local midnight for a "YYYY-MM-DD" date */
+export function parseLocalDate(date: string): number {
+  const [year, month, day] = date.split('-').map(Number);
+  return new Date(year, (month || 1) - 1, day || 1).getTime();
+}
+
+/** IANA zone the device is set to, e.g. "America/New_York" */
+export function getDeviceTimeZone(): string {
+  return Intl.DateTimeFormat().resolvedOptions().timeZone || 'UTC';
+}
+
+/** IANA zones the browser knows, for pickers */
+export function listTimeZones(): string[] {
+  const zones = typeof Intl.supportedValuesOf === 'function' ? Intl.supportedValuesOf('timeZone') : [];
+  const device = getDeviceTimeZone();
+  return zones.includes(device) ? zones : [device, ...zones];
+}
+
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+// Wall-clock fields of an instant in a zone
+function zonedParts(timestamp: number, timeZone?: string) {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit',
+  }).formatToParts(timestamp);
+  const field = (type: Intl.DateTimeFormatPartTypes) => Number(parts.find(part => part.type === type)?.value);
+  return {
+    year: field('year'),
+    month: field('month'),
+    day: field('day'),
+    hour: field('hour'),
+    minute: field('minute'),
+    second: field('second'),
+  };
+}
+
+const pad = (value: number) => String(value).padStart(2, '0');
+
+/**
+ * Calendar day ("YYYY-MM-DD") of an instant, in the device's zone or the given one
+ */
+export function toLocalDateString(timestamp: number = Date.now(), timeZone?: string): string {
+  const { year, month, day } = zonedParts(timestamp, timeZone);
+  return `${year}-${pad(month)}-${pad(day)}`;
+}
+
+/** Shift a "YYYY-MM-DD" date by whole days */
+export function addDays(date: string, days: number): string {
+  const [year, month, day] = date.split('-').map(Number);
+  const shifted = new Date(Date.UTC(year, (month || 1) - 1, (day || 1) + days));
+  return shifted.toISOString().slice(0, 10);
+}
+
+/** Whole days from one "YYYY-MM-DD" date to another */
+export function daysBetween(from: string, to: string): number {
+  const utc = (date: string) => {
+    const [year, month, day] = date.split('-').map(Number);
+    return Date.UTC(year, (month || 1) - 1, day || 1);
+  };
+  return Math.round((utc(to) - utc(from)) / (24 * 60 * MINUTE_MS));
+}
+
+/** Day of the week of a "YYYY-MM-DD" date (0 = Sunday) */
+export function dayOfWeek(date: string): number {
+  const [year, month, day] = date.split('-').map(Number);
+  return new Date(Date.UTC(year, (month || 1) - 1, day || 1)).getUTCDay();
+}
+
+/**
+ * Minutes a zone is ahead of UTC at an instant (negative west of Greenwich)
+ */
+export function getTimeZoneOffsetMinutes(timeZone: string, at: number = Date.now()): number {
+  const { year, month, day, hour, minute, second } = zonedParts(at, timeZone);
+  const asUtc = Date.UTC(year, month - 1, day, hour, minute, second);
+  return Math.round((asUtc - Math.floor(at / 1000) * 1000) / MINUTE_MS);
+}
+
+/**
+ * The instant a zone's clocks show a date and time ("HH:MM")
+ * Times skipped by a DST change resolve an hour early; repeated times to the first occurrence.
+ */
+export function zonedTimestamp(date: string, clock: string, timeZone: string): number {
+  const [year, month, day] = date.split('-').map(Number);
+  const [hours, minutes] = clock.split(':').map(Number);
+  const wallClock = Date.UTC(year, (month || 1) - 1, day || 1, hours || 0, minutes || 0);
+
+  // The offset at the guess can differ from the offset at the answer around DST changes
+  let timestamp = wallClock - getTimeZoneOffsetMinutes(timeZone, wallClock) * MINUTE_MS;
+  timestamp = wallClock - getTimeZoneOffsetMinutes(timeZone, timestamp) * MINUTE_MS;
+  return timestamp;
+}
+
+/**
+ * Value for a datetime-local input ("YYYY-MM-DDTHH:MM") showing an instant in a zone
+ */
+export function toDateTimeInput(timestamp: number, timeZone?: string): string {
+  const { hour, minute } = zonedParts(timestamp, timeZone);
+  return `${toLocalDateString(timestamp, timeZone)}T${pad(hour)}:${pad(minute)}`;
+}
+
+/**
+ * Instant for a datetime-local input's value read in a zone (null if incomplete)
+ */
+export function fromDateTimeInput(value: string, timeZone: string = getDeviceTimeZone()): number | null {
+  const [date, clock] = value.split('T');
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(date ?? '') || !/^\d{2}:\d{2}/.test(clock ?? '')) return null;
+  return zonedTimestamp(date, clock.slice(0, 5), timeZone);
+}
+
+/**
+ * Consecutive days with entries, ending today
+ */
+export function countDayStreak(dates: string[], today: string = toLocalDateString()): number {
+  const logged = new Set(dates);
+  let day = today;
+  let streak = 0;
+  while (logged.has(day)) {
+    streak++;
+    day = addDays(day, -1);
+  }
+  return streak;
+}
@@ -0,0 +1,269 @@
+import type { ScheduleResult, ScheduleSlot } from './gemini-bio-coach';
+import {
+  formatTime,
+  generateMultiDoseCurve,
+  getTerminalHalfLife,
+  type CompoundKinetics,
+  type DoseEvent,
+  type PharmacokineticCurvePoint,
+} from './pharmacokinetics';
+import {
+  EFFECT_AXIS_INFO,
+  calculateAxisEffects,
+  identifyAxisOverloads,
+  type EffectVector,
+} from './pharmacodynamics';
+import { STIMULANT_RESIDUAL_THRESHOLD } from './sleep-forecast';
+
+/**
+ * Local Dose Planner
+ *
+ * Deterministic alternative to the Gemini auto-scheduler: searches dose times
+ * on the PK engine's timeline so each compound covers the target hours, while
+ * penalising per-axis overloads and stimulation left over at bedtime. Returns
+ * the same ScheduleResult shape as autoScheduleCompounds.
+ */
+
+export const DEFAULT_WAKE_TIME = '07:00';
+
+export interface PlannerCompound {
+  name: string;
+  dose: string; // Display string, e.g. "100 mg"
+  kinetics: CompoundKinetics;
+  effects: EffectVector;
+}
+
+export interface PlannerOptions {
+  wakeTime: string; // "HH:MM"
+  bedtime: string; // "HH:MM"
+  /** Hours after waking the stack should cover */
+  targetCoverageHours: number;
+}
+
+/** Level (fraction of a dose's peak) that counts as covered */
+const COVERAGE_LEVEL = 0.5;
+
+/** Candidate spacing for dose times, in hours */
+const STEP_HOURS = 0.5;
+
+/** Timeline resolution */
+const POINTS_PER_HOUR = 4;
+
+/** Coverage below this fraction tries a second dose */
+const SECOND_DOSE_BELOW = 0.8;
+
+/** Objective weights */
+const OVERLOAD_PENALTY = 2;
+const BEDTIME_PENALTY = 10;
+const DAYTIME_SEDATION_PENALTY = 1;
+/** Small cost per extra dose so a split dose must add real coverage */
+const EXTRA_DOSE_COST = 0.05;
+
+/** Sedating compounds are planned for the hour before bed instead of the day */
+const isSedating = (compound: PlannerCompound) =>
+  compound.effects.sedation >= 0.5 && compound.effects.stimulation <= 0;
+
+function parseClock(clock: string): number {
+  const [hours, minutes] = clock.split(':').map(Number);
+  return (hours || 0) + (minutes || 0) / 60;
+}
+
+interface Placement {
+  times: number[]; // Hours since waking
+  curve: PharmacokineticCurvePoint[];
+}
+
+/**
+ * Plan dose times for a stack
+ *
+ * The timeline starts at wake time; yesterday's doses are included at -24h so
+ * long half-life compounds are planned at their daily steady state.
+ *
+ * @param compounds Active compounds with resolved kinetics and effect vectors
+ * @param options Wake/sleep window and coverage target
+ */
+export function planDoses(compounds: PlannerCompound[], options: PlannerOptions): ScheduleResult {
+  const wake = parseClock(options.wakeTime);
+  const awakeHours = (((parseClock(options.bedtime) - wake) % 24) + 24) % 24 || 16;
+  const coverageEnd = Math.min(options.targetCoverageHours, awakeHours);
+
+  const candidates: number[] = [];
+  for (let t = 0; t <= awakeHours - 1; t += STEP_HOURS) candidates.push(t);
+
+  const curveFor = (compound: PlannerCompound, times: number[]) => {
+    const doses: DoseEvent[] = times.flatMap(time => [
+      { time, doseScale: 1 },
+      { time: time - 24, doseScale: 1 },
+    ]);
+    return generateMultiDoseCurve(compound.kinetics, doses, POINTS_PER_HOUR);
+  };
+
+  // Share of a compound's target window spent at or above the coverage level
+  const coverageOf = (compound: PlannerCompound, curve: PharmacokineticCurvePoint[]) => {
+    const [from, to] = isSedating(compound)
+      ? [awakeHours - 1, Math.min(awakeHours + 2, 24)]
+      : [0, coverageEnd];
+    const window = curve.filter(point => point.time >= from && point.time < to);
+    if (window.length === 0) return 1;
+    return window.filter(point => point.concentration >= COVERAGE_LEVEL).length / window.length;
+  };
+
+  const placedOf = (placements: (Placement | null)[]) =>
+    compounds.flatMap((compound, idx) => {
+      const placement = placements[idx];
+      return placement ? [{ compound, placement }] : [];
+    });
+
+  const objective = (placements: (Placement | null)[]) => {
+    const placed = placedOf(placements);
+    if (placed.length === 0) return 0;
+
+    const coverage = placed.reduce((sum, { compound, placement }) => sum + coverageOf(compound, placement.curve), 0);
+    const axes = calculateAxisEffects(
+      placed.map(({ placement }) => placement.curve),
+      placed.map(({ compound }) => compound.effects)
+    );
+
+    const overloadHours = identifyAxisOverloads(axes).reduce(
+      (sum, period) => sum + period.end - period.start + 1 / POINTS_PER_HOUR,
+      0
+    );
+
+    // Stimulation still above the sleep threshold during the first hours of sleep
+    const bedtimeExcess = axes.stimulation
+      .filter(point => point.time >= awakeHours && point.time <= awakeHours + 2)
+      .reduce((max, point) => Math.max(max, point.concentration - STIMULANT_RESIDUAL_THRESHOLD), 0);
+
+    // Sedation during the working part of the day
+    const daytimeSedation = axes.sedation
+      .filter(point => point.time < awakeHours - 2)
+      .reduce((sum, point) => sum + Math.max(0, point.concentration - 0.5), 0) / POINTS_PER_HOUR;
+
+    return (
+      coverage -
+      OVERLOAD_PENALTY * overloadHours -
+      BEDTIME_PENALTY * bedtimeExcess -
+      DAYTIME_SEDATION_PENALTY * daytimeSedation
+    );
+  };
+
+  // Candidate dose-time sets for one compound: single doses, then split doses
+  const optionsFor = (compound: PlannerCompound): number[][] => {
+    const singles = candidates.map(time => [time]);
+    if (isSedating(compound)) return singles;
+    const pairs: number[][] = [];
+    for (const first of candidates) {
+      for (let gap = 2; gap <= 8; gap += STEP_HOURS) {
+        if (first + gap <= awakeHours - 1) pairs.push([first, first + gap]);
+      }
+    }
+    return [...singles, ...pairs];
+  };
+
+  // Greedy placement (most stimulating first), then one refinement pass
+  const order = compounds
+    .map((compound, idx) => ({ compound, idx }))
+    .sort((a, b) => b.compound.effects.stimulation - a.compound.effects.stimulation)
+    .map(({ idx }) => idx);
+  const placements: (Placement | null)[] = compounds.map(() => null);
+
+  const placeBest = (idx: number) => {
+    const compound = compounds[idx];
+    const singleCoverage = new Map<number, number>();
+    let best: { placement: Placement; score: number } | null = null;
+    for (const times of optionsFor(compound)) {
+      const placement = { times, curve: curveFor(compound, times) };
+      if (times.length === 1) singleCoverage.set(times[0], coverageOf(compound, placement.curve));
+      // A second dose has to earn its place
+      if (times.length > 1 && (singleCoverage.get(times[0]) ?? 0) >= SECOND_DOSE_BELOW) continue;
+      placements[idx] = placement;
+      const score = objective(placements) - (times.length - 1) * EXTRA_DOSE_COST;
+      if (!best || score > best.score + 1e-9) best = { placement, score };
+    }
+    placements[idx] = best?.placement ?? null;
+  };
+
+  order.forEach(placeBest);
+  order.forEach(placeBest);
+
+  // Assemble the ScheduleResult
+  const clockOf = (hoursSinceWake: number) => (wake + hoursSinceWake) % 24;
+  const slotOf = (clock: number): ScheduleSlot['timeOfDay'] =>
+    clock >= 4 && clock < 12 ? 'Morning' : clock >= 12 && clock < 17 ? 'Afternoon' : 'Evening';
+
+  const slots = new Map<ScheduleSlot['timeOfDay'], { times: Set<number>; compounds: ScheduleSlot['compounds'] }>();
+  compounds.forEach((compound, idx) => {
+    const placement = placements[idx];
+    if (!placement) return;
+    const coverage = coverageOf(compound, placement.curve);
+    const halfLife = getTerminalHalfLife(compound.kinetics);
+
+    placement.times.forEach((time, doseIdx) => {
+      const clock = clockOf(time);
+      const slot = slotOf(clock);
+      const entry = slots.get(slot) ?? { times: new Set<number>(), compounds: [] };
+      entry.times.add(clock);
+
+      let reason: string;
+      if (halfLife >= 24) {
+        reason = `t½ ${halfLife.toFixed(0)}h: levels stay near steady state, so timing matters little`;
+      } else if (isSedating(compound)) {
+        reason = `Timed for sleep onset at ${formatTime(clockOf(awakeHours))}`;
+      } else if (doseIdx > 0) {
+        reason = `Second dose extends coverage to ${(coverage * 100).toFixed(0)}% of the target window`;
+      } else {
+        reason = `Covers ${(coverage * 100).toFixed(0)}% of the ${coverageEnd.toFixed(0)}h target window`;
+      }
+
+      entry.compounds.push({ name: compound.name, dose: `${compound.dose} at ${formatTime(clock)}`, reason });
+      slots.set(slot, entry);
+    });
+  });
+
+  const schedule: ScheduleSlot[] = (['Morning', 'Afternoon', 'Evening'] as const)
+    .filter(slot => slots.has(slot))
+    .map(slot => ({
+      timeOfDay: slot,
+      compounds: slots.get(slot)!.compounds,
+      optimalTime: [...slots.get(slot)!.times].sort((a, b) => a - b).map(formatTime).join(', '),
+    }));
+
+  // Report what the plan could not avoid
+  const placed = placedOf(placements);
+  const finalAxes = calculateAxisEffects(
+    placed.map(({ placement }) => placement.curve),
+    placed.map(({ compound }) => compound.effects)
+  );
+  const warnings: string[] = identifyAxisOverloads(finalAxes).map(
+    period =>
+      `${EFFECT_AXIS_INFO[period.axis].overloadLabel} likely around ${formatTime(clockOf(period.start))} - ${formatTime(clockOf(period.end))}`
+  );
+  const bedtimeStimulation = Math.max(
+    0,
+    ...finalAxes.stimulation.filter(point => point.time >= awakeHours && point.time <= awakeHours + 2).map(point => point.concentration)
+  );
+  if (bedtimeStimulation > STIMULANT_RESIDUAL_THRESHOLD) {
+    warnings.push(
+      `Stimulation still at ${(bedtimeStimulation * 100).toFixed(0)}% of a peak dose at bedtime; consider a lower dose or dropping a compound`
+    );
+  }
+  placed.forEach(({ placement, compound }) => {
+    if (!isSedating(compound) && coverageOf(compound, placement.curve) < 0.5) {
+      warnings.push(`${compound.name} can't cover the ${coverageEnd.toFixed(0)}h window at the default dose`);
+    }
+  });
+
+  const totalCoverage =
+    placed.reduce((sum, { placement, compound }) => sum + coverageOf(compound, placement.curve), 0) /
+    Math.max(compounds.length, 1);
+
+  return {
+    schedule,
+    explanation:
+      `Planned locally from the pharmacokinetic model for a ${formatTime(wake)} - ${formatTime(clockOf(awakeHours))} day. ` +
+      `Compounds average ${(totalCoverage * 100).toFixed(0)}% coverage of their target windows ` +
+      `(first ${coverageEnd.toFixed(0)}h after waking, or bedtime for sedatives), ` +
+      `with dose times chosen to avoid overloads and stimulation at bedtime.`,
+    warnings,
+  };
+}
@@ -0,0 +1,177 @@
+import type { Compound, DoseItem, LogEntry } from './types';
+import { INTERACTION_SEVERITIES, type InteractionSeverity } from './compound-types';
+import { findCuratedInteractions } from './interactions';
+import { inferPairRisks } from './interaction-rules';
+import { toLocalDateString } from './dates';
+
+/**
+ * Pre-Save Safety Gate
+ *
+ * Doses about to be logged, now or backdated, are checked against each
+ * compound's limits (daily maximum, minimum interval) and for dangerous
+ * combinations with each other and with anything taken within the look-back
+ * window of them. Issues hold
+ * the save until the user overrides them with a note, which is kept on the
+ * log entry.
+ */
+
+export const DEFAULT_INTERACTION_WINDOW_HOURS = 24;
+
+/** Curated interactions at these severities stop a save */
+const BLOCKING_SEVERITIES: InteractionSeverity[] = ['moderate', 'major'];
+
+/** Inferred (mechanism-based) risks only stop a save when major */
+const BLOCKING_INFERRED_SEVERITY: InteractionSeverity = 'major';
+
+const HOUR_MS = 60 * 60 * 1000;
+
+export type SafetyIssueType = 'daily-max' | 'min-interval' | 'interaction';
+
+export interface SafetyIssue {
+  type: SafetyIssueType;
+  compoundIds: string[];
+  message: string;
+}
+
+export interface SafetyCheckOptions {
+  /** Zone whose calendar day the daily maximum applies to (default: device) */
+  timeZone?: string;
+  interactionWindowHours?: number;
+}
+
+const formatAmount = (amount: number, compound: Compound) => `${+amount.toFixed(2)} ${compound.unit}`;
+
+const formatHours = (ms: number) => {
+  const hours = ms / HOUR_MS;
+  return hours < 1 ? `${Math.round(hours * 60)} min` : `${+hours.toFixed(1)} h`;
+};
+
+/**
+ * Issues with logging `planned` on top of the existing log (leave an entry
+ * being edited out of `logEntries`, or it counts against itself)
+ */
+export function checkDoseSafety(
+  planned: DoseItem[],
+  compounds: Compound[],
+  logEntries: LogEntry[],
+  { timeZone, interactionWindowHours = DEFAULT_INTERACTION_WINDOW_HOURS }: SafetyCheckOptions = {}
+): SafetyIssue[] {
+  const issues: SafetyIssue[] = [];
+  const doses = planned.filter(item => item.dose > 0);
+  if (doses.length === 0) return issues;
+  const logged = logEntries.flatMap(log => log.doseItems);
+  const compoundById = new Map(compounds.map(c => [c.id, c]));
+
+  // Daily maximum, per compound and calendar day of the planned doses
+  const plannedIds = Array.from(new Set(doses.map(item => item.compoundId)));
+  const today = toLocalDateString(Date.now(), timeZone);
+  const plannedDays = new Map<string, DoseItem[]>();
+  doses.forEach(item => {
+    const key = `${item.compoundId}|${toLocalDateString(item.timestamp, timeZone)}`;
+    plannedDays.set(key, [...(plannedDays.get(key) ?? []), item]);
+  });
+  plannedDays.forEach((items, key) => {
+    const [compoundId, day] = key.split('|');
+    const compound = compoundById.get(compoundId);
+    const max = compound?.limits?.maxDailyDose;
+    if (!compound || !max) return;
+
+    const taken = logged
+      .filter(item => item.compoundId === compoundId && toLocalDateString(item.timestamp, timeZone) === day)
+      .reduce((sum, item) => sum + item.dose, 0);
+    const total = taken + items.reduce((sum, item) => sum + item.dose, 0);
+    if (total > max) {
+      issues.push({
+        type: 'daily-max',
+        compoundIds: [compoundId],
+        message: `${compound.name}: ${formatAmount(total, compound)} for ${day === today ? 'the day' : day}, over the ${formatAmount(max, compound)} maximum${
+          taken > 0 ? ` (${formatAmount(taken, compound)} already taken)` : ''
+        }`,
+      });
+    }
+  });
+
+  // Minimum interval to the nearest other dose of the same compound, logged or
+  // planned (backdated doses can fall just before a logged one)
+  const sortedDoses = [...doses].sort((a, b) => a.timestamp - b.timestamp);
+  sortedDoses.forEach((item, index) => {
+    const compound = compoundById.get(item.compoundId);
+    const minInterval = compound?.limits?.minIntervalHours;
+    if (!compound || !minInterval) return;
+
+    // Pairs of planned doses are reported once, at the later dose
+    const others = [...logged, ...sortedDoses.slice(0, index)]
+      .filter(other => other.compoundId === item.compoundId)
+      .map(other => other.timestamp - item.timestamp);
+    if (others.length === 0) return;
+    const nearest = others.reduce((closest, gap) => (Math.abs(gap) < Math.abs(closest) ? gap : closest));
+    if (Math.abs(nearest) < minInterval * HOUR_MS) {
+      issues.push({
+        type: 'min-interval',
+        compoundIds: [item.compoundId],
+        message: `${compound.name}: ${formatHours(Math.abs(nearest))} ${
+          nearest <= 0 ? 'after the previous' : 'before the next'
+        } dose, minimum interval is ${formatHours(minInterval * HOUR_MS)}`,
+      });
+    }
+  });
+
+  // Dangerous combinations among the planned doses and with doses logged
+  // within the look-back window of them (either side, for backdated doses)
+  const windowMs = interactionWindowHours * HOUR_MS;
+  // Signed gap from the planned doses to the closest logged dose of each compound
+  const nearestTaken = new Map<string, number>();
+  logged.forEach(item =>
+    doses.forEach(dose => {
+      const gap = item.timestamp - dose.timestamp;
+      const closest = nearestTaken.get(item.compoundId);
+      if (Math.abs(gap) <= windowMs && (closest === undefined || Math.abs(gap) < Math.abs(closest))) {
+        nearestTaken.set(item.compoundId, gap);
+      }
+    })
+  );
+
+  const checkedPairs = new Set<string>();
+  const partners = [...plannedIds, ...Array.from(nearestTaken.keys())];
+  plannedIds.forEach(compoundId => {
+    partners.forEach(partnerId => {
+      const key = [compoundId, partnerId].sort().join(':');
+      if (partnerId === compoundId || checkedPairs.has(key)) return;
+      checkedPairs.add(key);
+
+      const compound = compoundById.get(compoundId);
+      const partner = compoundById.get(partnerId);
+      if (!compound || !partner) return;
+
+      const gap = nearestTaken.get(partnerId);
+      const when = plannedIds.includes(partnerId) || gap === undefined
+        ? 'in this entry'
+        : `taken ${formatHours(Math.abs(gap))} ${gap <= 0 ? 'earlier' : 'later'}`;
+
+      const curated = findCuratedInteractions(compound, partner);
+      curated
+        .filter(interaction => BLOCKING_SEVERITIES.includes(interaction.severity))
+        .forEach(interaction => {
+          issues.push({
+            type: 'interaction',
+            compoundIds: [compoundId, partnerId],
+            message: `${compound.name} + ${partner.name} (${when}): ${INTERACTION_SEVERITIES[interaction.severity]} interaction. ${interaction.mechanism}`,
+          });
+        });
+
+      // Mechanism rules only speak for pairs without curated data
+      if (curated.length > 0) return;
+      inferPairRisks(compound, partner)
+        .filter(({ rule }) => rule.severity === BLOCKING_INFERRED_SEVERITY)
+        .forEach(({ rule }) => {
+          issues.push({
+            type: 'interaction',
+            compoundIds: [compoundId, partnerId],
+            message: `${compound.name} + ${partner.name} (${when}): ${rule.label} (inferred). ${rule.description}`,
+          });
+        });
+    });
+  });
+
+  return issues;
+}
@@ -4,7 +4,9 @@
  * Supports multiple Gemini models: 1.5 Pro, 1.5 Flash, and 2.0 Flash
  */
 
-import { CompoundDetail } from './compound-types';
+import { z } from 'zod';
+import { CompoundDetail, CompoundInteraction, INTERACTION_SEVERITIES, InteractionSeverity } from './compound-types';
+import { parseOnsetPeakDuration } from './onset-parser';
 
 export type GeminiModel = 
   | 'gemini-3-pro-preview'  // Gemini 3.0 Pro Preview (November 2025) - LATEST & MOST ADVANCED
@@ -25,6 +27,7 @@ export interface GeminiSearchOptions {
 
 export interface GeminiSearchResult {
   compound: Partial<CompoundDetail>;
+  interactions?: CompoundInteraction[]; // Pairs with the searched compound, when requested
   source: 'gemini-api';
   confidence: number;
   references?: string[];
@@ -118,6 +121,9 @@ export async function searchCompoundWithGemini(
     
     return {
       compound: parsedCompound,
+      ...(options.includeInteractions && {
+        interactions: parseGeminiInteractions(textResponse, parsedCompound.name || options.query),
+      }),
       source: 'gemini-api',
       confidence: 0.8, // Gemini Pro confidence
       references: extractReferences(textResponse),
@@ -154,7 +160,7 @@ Please provide the following information in a structured JSON format:
   "recreational": "Yes/No/Low-Medium/etc.",
   "dependenceRisk": "Risk level",
   "bestTiming": "Daytime/Nighttime/Either",
-  ${includeInteractions ? '"interactions": { "bupropion": "interaction summary", "ssri": "interaction summary" },' : ''}
+  ${includeInteractions ? '"interactions": [{ "with": "commonly co-prescribed drug or supplement", "severity": "none/minor/moderate/major", "mechanism": "interaction summary" }],' : ''}
   ${includeMechanism ? '"detailedMechanism": "Detailed mechanism of action",' : ''}
   ${includeDosage ? '"dosageRange": "Typical dosage range",' : ''}
   "evidenceGrade": "A-E letter grade based on evidence quality",
@@ -188,22 +194,12 @@ function parseGeminiResponse(response: string, query: string): Partial<CompoundD
         mechanism: parsed.mechanism || '',
         mechanisticTags: parsed.mechanisticTags || [],
         acuteEffect: parsed.acuteEffect === 'Yes' || parsed.acuteEffect === true,
-        onset: {
-          raw: `${parsed.timing?.onset || ''} / ${parsed.timing?.peak || ''} / ${parsed.timing?.duration || ''}`,
-          onsetMin: 0,
-          onsetMax: 0,
-          peakMin: 0,
-          peakMax: 0,
-          durationMin: 0,
-          durationMax: 0,
-        },
+        onset: parseOnsetPeakDuration(
+          `${parsed.timing?.onset || ''} / ${parsed.timing?.peak || ''} / ${parsed.timing?.duration || ''}`
+        ),
         recreational: (parsed.recreational || 'No') as any,
         dependenceTolerance: parsed.dependenceRisk || '',
         daytimeNighttime: parsed.bestTiming || '',
-        interactions: {
-          voxra: parsed.interactions?.bupropion || '',
-          ssri: parsed.interactions?.ssri || '',
-        },
         evidence: {
           strength: parsed.evidenceGrade || 'E',
           summary: parsed.evidenceSummary || '',
@@ -224,11 +220,10 @@ function parseGeminiResponse(response: string, query: string): Partial<CompoundD
       mechanism: '',
       mechanisticTags: [],
       acuteEffect: false,
-      onset: { raw: '' },
+      onset: parseOnsetPeakDuration(''),
       recreational: 'No' as any,
       dependenceTolerance: '',
       daytimeNighttime: '',
-      interactions: { voxra: '', ssri: '' },
       evidence: { strength: 'E', summary: '' },
       efficacyScore: 0,
       safetyScore: 5,
@@ -245,11 +240,10 @@ function parseGeminiResponse(response: string, query: string): Partial<CompoundD
       mechanism: '',
       mechanisticTags: [],
       acuteEffect: false,
-      onset: { raw: '' },
+      onset: parseOnsetPeakDuration(''),
       recreational: 'No' as any,
       dependenceTolerance: '',
       daytimeNighttime: '',
-      interactions: { voxra: '', ssri: '' },
       evidence: { strength: 'E', summary: '' },
       efficacyScore: 0,
       safetyScore: 5,
@@ -258,6 +252,49 @@ function parseGeminiResponse(response: string, query: string): Partial<CompoundD
   }
 }
 
+// One entry of Gemini's interaction list; severities are matched case-insensitively
+const GeminiInteractionSchema = z.object({
+  with: z.string().trim().min(1),
+  severity: z
+    .string()
+    .trim()
+    .toLowerCase()
+    .pipe(z.enum(Object.keys(INTERACTION_SEVERITIES) as [InteractionSeverity, ...InteractionSeverity[]])),
+  mechanism: z.string().optional(),
+});
+
+/**
+ * Parse Gemini's interaction list into pairs with the searched compound
+ *
+ * Items with a missing partner or an unrecognised severity are dropped rather
+ * than guessed. The pairs are only returned in the search-gemini API response;
+ * nothing feeds them into the interaction checks.
+ */
+function parseGeminiInteractions(response: string, name: string): CompoundInteraction[] {
+  try {
+    const jsonMatch = response.match(/\{[\s\S]*\}/);
+    const parsed: unknown = jsonMatch ? JSON.parse(jsonMatch[0]) : null;
+    const items = z.object({ interactions: z.array(z.unknown()) }).safeParse(parsed);
+    if (!items.success) return [];
+
+    return items.data.interactions.flatMap(raw => {
+      const item = GeminiInteractionSchema.safeParse(raw);
+      if (!item.success) return [];
+      return [
+        {
+          compoundA: { name },
+          compoundB: { name: item.data.with },
+          severity: item.data.severity,
+          mechanism: item.data.mechanism ?? '',
+          source: 'Gemini AI search',
+        },
+      ];
+    });
+  } catch {
+    return [];
+  }
+}
+
 /**
  * Extract references from Gemini response
  */
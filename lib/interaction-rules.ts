@@ -0,0 +1,154 @@
+import type { Compound, StackPreset } from './types';
+import type { CompoundDetail, InteractionSeverity } from './compound-types';
+import { findLibraryCompound } from './compound-library';
+import { compareSeverity, findCuratedInteractions, getStackPairs, type StackPair } from './interactions';
+
+/**
+ * Mechanism-Based Interaction Inference
+ *
+ * Most pairs have no curated interaction data. For those, compounds are
+ * classified by mechanism (from the library entry's effect type, mechanism
+ * and tags, or the pharmacy name) and rules flag risky overlaps. Inferred
+ * risks are reported separately from curated ones and never override them:
+ * a pair with curated data is skipped.
+ */
+
+export type MechanismTrait = 'serotonergic' | 'maoInhibitor' | 'releaser' | 'cnsDepressant';
+
+export const MECHANISM_TRAITS: Record<MechanismTrait, { label: string; pattern: RegExp }> = {
+  serotonergic: {
+    label: 'Raises serotonin',
+    pattern:
+      /\b(ssri|snri)\b|serotonin(-norepinephrine)? reuptake inhibitor|norepinephrine-serotonin reuptake|serotonin modulator|\bsert\b[^,;]*inhibit|increases serotonin(?! reuptake)|5-ht1a (partial )?agonist|5-htp|tryptophan|dextromethorphan|tramadol|st\.? john/,
+  },
+  maoInhibitor: {
+    label: 'MAO inhibitor',
+    pattern: /\bmaoi\b|\bmao(-?[ab])? ?\(?inhibitor|monoamine oxidase inhibitor/,
+  },
+  releaser: {
+    label: 'Monoamine releaser or precursor',
+    pattern: /(dopamine|norepinephrine|monoamine|serotonin)[^,;()]*releas|amphetamine|sympathomimetic|ephedrine|levodopa|l-dopa/,
+  },
+  cnsDepressant: {
+    label: 'CNS depressant',
+    pattern:
+      /gabaergic|gaba-?[ab]?\b[^,;]*\b(agonist|enhancer|modulator)|benzodiazepine|gabapentinoid|barbiturat|z-drug|hypnotic|antihistamine|\bh1 (receptor )?(antagonist|inverse agonist)|opioid agonist|phenibut/,
+  },
+};
+
+export interface InteractionRule {
+  id: string;
+  label: string;
+  description: string;
+  severity: InteractionSeverity;
+  /** Fires when one compound has the first trait and the other the second */
+  traits: [MechanismTrait, MechanismTrait];
+}
+
+/** Most serious first */
+export const INTERACTION_RULES: InteractionRule[] = [
+  {
+    id: 'mao-serotonergic',
+    label: 'MAO inhibition + serotonergic',
+    description: 'MAO inhibitors stop serotonin being broken down; adding another serotonergic drug risks serotonin syndrome.',
+    severity: 'major',
+    traits: ['maoInhibitor', 'serotonergic'],
+  },
+  {
+    id: 'mao-releaser',
+    label: 'MAO inhibition + releaser',
+    description: 'Monoamines released or made while MAO is inhibited can build up, risking a hypertensive crisis.',
+    severity: 'major',
+    traits: ['maoInhibitor', 'releaser'],
+  },
+  {
+    id: 'serotonergic-load',
+    label: 'Serotonergic load',
+    description: 'Two drugs that raise serotonin stack their effect; watch for agitation, tremor, sweating or fever.',
+    severity: 'moderate',
+    traits: ['serotonergic', 'serotonergic'],
+  },
+  {
+    id: 'cns-depression',
+    label: 'Additive CNS depression',
+    description: 'Sedative and GABAergic effects add up: more drowsiness and impairment, and slowed breathing at high doses.',
+    severity: 'moderate',
+    traits: ['cnsDepressant', 'cnsDepressant'],
+  },
+];
+
+export interface RuleMatch {
+  rule: InteractionRule;
+  /** Text that gave each compound its trait, in pair order */
+  evidence: [string, string];
+}
+
+export interface InferredInteraction extends StackPair {
+  /** Highest severity among the matched rules */
+  severity: InteractionSeverity;
+  matches: RuleMatch[];
+}
+
+/**
+ * Mechanism traits of a compound, each with the text that matched
+ */
+export function classifyMechanisms(
+  detail: Pick<CompoundDetail, 'effectType' | 'mechanism' | 'mechanisticTags'> | undefined,
+  name: string = ''
+): Partial<Record<MechanismTrait, string>> {
+  const text = [name, detail?.effectType ?? '', detail?.mechanism ?? '', ...(detail?.mechanisticTags ?? [])]
+    .join(' ; ')
+    .toLowerCase();
+  const traits: Partial<Record<MechanismTrait, string>> = {};
+  (Object.keys(MECHANISM_TRAITS) as MechanismTrait[]).forEach(trait => {
+    const match = text.match(MECHANISM_TRAITS[trait].pattern);
+    if (match) traits[trait] = match[0];
+  });
+  return traits;
+}
+
+/**
+ * Rules that fire for two sets of traits, in pair order
+ */
+export function matchRules(
+  first: Partial<Record<MechanismTrait, string>>,
+  second: Partial<Record<MechanismTrait, string>>
+): RuleMatch[] {
+  return INTERACTION_RULES.flatMap(rule => {
+    const [a, b] = rule.traits;
+    if (first[a] && second[b]) return [{ rule, evidence: [first[a]!, second[b]!] as [string, string] }];
+    if (first[b] && second[a]) return [{ rule, evidence: [first[b]!, second[a]!] as [string, string] }];
+    return [];
+  });
+}
+
+/**
+ * Rules that fire for two pharmacy compounds, in pair order
+ */
+export function inferPairRisks(first: Compound, second: Compound): RuleMatch[] {
+  return matchRules(
+    classifyMechanisms(findLibraryCompound(first), first.name),
+    classifyMechanisms(findLibraryCompound(second), second.name)
+  );
+}
+
+/**
+ * Inferred risks for stack pairs without curated interaction data, most serious first
+ */
+export function inferInteractions(compounds: Compound[], presets: StackPreset[]): InferredInteraction[] {
+  const traits = new Map(compounds.map(c => [c.id, classifyMechanisms(findLibraryCompound(c), c.name)]));
+
+  return getStackPairs(compounds, presets)
+    .filter(pair => findCuratedInteractions(...pair.compounds).length === 0)
+    .flatMap(pair => {
+      const matches = matchRules(traits.get(pair.compounds[0].id)!, traits.get(pair.compounds[1].id)!);
+      if (matches.length === 0) return [];
+      const severity = matches
+        .map(match => match.rule.severity)
+        .reduce((worst, severity) => (compareSeverity(severity, worst) > 0 ? severity : worst));
+      return [{ ...pair, severity, matches }];
+    })
+    .sort(
+      (a, b) => compareSeverity(b.severity, a.severity) || a.compounds[0].name.localeCompare(b.compounds[0].name)
+    );
+}
@@ -0,0 +1,130 @@
+import type { Compound, StackPreset } from './types';
+import type { CompoundDetail, CompoundInteraction, InteractionParty, InteractionSeverity } from './compound-types';
+import { findLibraryCompound } from './compound-library';
+import interactionsData from './data/interactions.json';
+
+/**
+ * Drug-Drug Interactions
+ *
+ * A pairwise matrix (compound A, compound B, severity, mechanism, source)
+ * generated from data/interactions.csv. Pharmacy compounds are matched to
+ * either side by library id or by name, so medications outside the library
+ * (e.g. "Escitalopram") still match a compound the user named the same way.
+ */
+
+const interactions = interactionsData as CompoundInteraction[];
+
+/** Least to most serious */
+export const SEVERITY_ORDER: InteractionSeverity[] = ['none', 'minor', 'moderate', 'major'];
+
+export interface InteractionFinding extends StackPair {
+  interaction: CompoundInteraction;
+}
+
+const normalizeName = (name: string) =>
+  name
+    .toLowerCase()
+    .replace(/[^a-z0-9\s]/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+
+// Names a pharmacy compound goes by: its own, the parts of "Brand (Generic)", and the library entry's
+function candidateNames(compound: Pick<Compound, 'name' | 'libraryId'>): Set<string> {
+  const names = [compound.name, ...compound.name.split(/[()]/)];
+  const libraryCompound = findLibraryCompound(compound);
+  if (libraryCompound) names.push(libraryCompound.name, ...libraryCompound.aliases);
+  return new Set(names.map(normalizeName).filter(Boolean));
+}
+
+function matchesParty(party: InteractionParty, libraryId: string | undefined, names: Set<string>): boolean {
+  if (party.libraryId && party.libraryId === libraryId) return true;
+  return names.has(normalizeName(party.name));
+}
+
+export function compareSeverity(a: InteractionSeverity, b: InteractionSeverity): number {
+  return SEVERITY_ORDER.indexOf(a) - SEVERITY_ORDER.indexOf(b);
+}
+
+/**
+ * Known interactions involving a library compound, with the other side first
+ */
+export function getInteractionsFor(compound: CompoundDetail): Array<{ other: InteractionParty; interaction: CompoundInteraction }> {
+  const names = new Set([compound.name, ...compound.aliases].map(normalizeName));
+  return interactions
+    .flatMap(interaction => {
+      if (matchesParty(interaction.compoundA, compound.id, names)) return [{ other: interaction.compoundB, interaction }];
+      if (matchesParty(interaction.compoundB, compound.id, names)) return [{ other: interaction.compoundA, interaction }];
+      return [];
+    })
+    .sort((a, b) => compareSeverity(b.interaction.severity, a.interaction.severity) || a.other.name.localeCompare(b.other.name));
+}
+
+/** Two pharmacy compounds taken together: both active, or dosed in the same preset */
+export interface StackPair {
+  compounds: [Compound, Compound];
+  /** Presets that dose both compounds together */
+  presetIds: string[];
+  /** Both compounds are active in the pharmacy */
+  active: boolean;
+}
+
+/**
+ * Every pair among the active compounds and within each preset
+ */
+export function getStackPairs(compounds: Compound[], presets: StackPreset[]): StackPair[] {
+  const pairs = new Map<string, StackPair>();
+
+  const add = (first: Compound, second: Compound, presetId?: string) => {
+    if (first.id === second.id) return;
+    const key = [first.id, second.id].sort().join(':');
+    const pair = pairs.get(key) ?? {
+      compounds: [first, second],
+      presetIds: [],
+      active: first.isActive && second.isActive,
+    };
+    if (presetId && !pair.presetIds.includes(presetId)) pair.presetIds.push(presetId);
+    pairs.set(key, pair);
+  };
+
+  const active = compounds.filter(c => c.isActive);
+  active.forEach((first, i) => active.slice(i + 1).forEach(second => add(first, second)));
+
+  presets.forEach(preset => {
+    const members = preset.doseItems
+      .map(item => compounds.find(c => c.id === item.compoundId))
+      .filter((c): c is Compound => !!c);
+    members.forEach((first, i) => members.slice(i + 1).forEach(second => add(first, second, preset.id)));
+  });
+
+  return Array.from(pairs.values());
+}
+
+/**
+ * Curated interactions between two pharmacy compounds, listed in the order given
+ */
+export function findCuratedInteractions(first: Compound, second: Compound): CompoundInteraction[] {
+  const a = { libraryId: findLibraryCompound(first)?.id, names: candidateNames(first) };
+  const b = { libraryId: findLibraryCompound(second)?.id, names: candidateNames(second) };
+  return interactions.flatMap(interaction => {
+    if (matchesParty(interaction.compoundA, a.libraryId, a.names) && matchesParty(interaction.compoundB, b.libraryId, b.names)) {
+      return [interaction];
+    }
+    if (matchesParty(interaction.compoundA, b.libraryId, b.names) && matchesParty(interaction.compoundB, a.libraryId, a.names)) {
+      return [{ ...interaction, compoundA: interaction.compoundB, compoundB: interaction.compoundA }];
+    }
+    return [];
+  });
+}
+
+/**
+ * Every curated pair among the active compounds and within each preset, most serious first
+ */
+export function checkInteractions(compounds: Compound[], presets: StackPreset[]): InteractionFinding[] {
+  return getStackPairs(compounds, presets)
+    .flatMap(pair => findCuratedInteractions(...pair.compounds).map(interaction => ({ ...pair, interaction })))
+    .sort(
+      (a, b) =>
+        compareSeverity(b.interaction.severity, a.interaction.severity) ||
+        a.compounds[0].name.localeCompare(b.compounds[0].name)
+    );
+}
@@ -0,0 +1,170 @@
+import type { Compound, CompoundInventory, DoseItem, DoseUnit, LogEntry } from './types';
+import { parseLocalDate } from './dates';
+import { convertDose } from './units';
+
+/**
+ * Inventory & Refills
+ *
+ * Stock is counted in the compound's own unit or in a unit of its own (pills
+ * of a compound logged in mg, converted through the strengths) and goes down
+ * with every logged dose. Each entry records what it took out, so deleting or
+ * editing it puts back exactly that. Run-out dates are projected from the average daily use over the last
+ * two weeks, so a recently changed dose shows up quickly.
+ */
+
+/** Warn when projected supply drops below this many days (unless set per compound) */
+export const DEFAULT_LOW_STOCK_DAYS = 7;
+
+/** Remind about prescription refills this many days ahead */
+export const REFILL_NOTICE_DAYS = 7;
+
+/** Days of history used for the consumption rate */
+const CONSUMPTION_WINDOW_DAYS = 14;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export type SupplyStatus = 'ok' | 'low' | 'out';
+
+export interface SupplyForecast {
+  compoundId: string;
+  quantity: number;
+  /** Stock unit of the quantity and daily use */
+  unit: DoseUnit;
+  /** Average amount used per day (null without recent use) */
+  dailyUse: number | null;
+  daysLeft: number | null;
+  runOutDate: number | null;
+  status: SupplyStatus;
+  /** Prescription refill due within REFILL_NOTICE_DAYS (or overdue) */
+  refillDue: boolean;
+  refillDate: number | null;
+}
+
+/**
+ * Unit the compound's stock is counted in, with the strength to convert it
+ */
+export function stockUnit(compound: Compound): Pick<Compound, 'unit' | 'strength'> {
+  const inventory = compound.inventory;
+  return inventory?.unit && inventory.unit !== compound.unit
+    ? { unit: inventory.unit, strength: inventory.strength }
+    : compound;
+}
+
+/**
+ * A dose in the compound's stock unit (null when it can't be converted)
+ */
+export function toStockAmount(compound: Compound, dose: number): number | null {
+  return convertDose(compound, stockUnit(compound), dose);
+}
+
+/**
+ * Take logged doses out of stock
+ *
+ * Stock stops at zero, so the amount actually taken out is returned for the
+ * log entry to keep (see returnStock).
+ */
+export function deductStock(
+  compounds: Compound[],
+  doseItems: Array<Pick<DoseItem, 'compoundId' | 'dose'>>
+): { compounds: Compound[]; deducted: Record<string, number> } {
+  const deducted: Record<string, number> = {};
+  const updated = compounds.map(compound => {
+    if (!compound.inventory) return compound;
+    const total = doseItems
+      .filter(item => item.compoundId === compound.id)
+      .reduce((sum, item) => sum + (toStockAmount(compound, item.dose) ?? 0), 0);
+    const taken = Math.min(total, compound.inventory.quantity);
+    if (!(taken > 0)) return compound;
+    deducted[compound.id] = taken;
+    return { ...compound, inventory: { ...compound.inventory, quantity: compound.inventory.quantity - taken } };
+  });
+  return { compounds: updated, deducted };
+}
+
+/**
+ * Put back what a log entry took out of stock
+ *
+ * Entries saved before deductions were recorded return their doses.
+ */
+export function returnStock(compounds: Compound[], entry: Pick<LogEntry, 'doseItems' | 'stockDeducted'>): Compound[] {
+  return compounds.map(compound => {
+    if (!compound.inventory) return compound;
+    const amount = entry.stockDeducted
+      ? entry.stockDeducted[compound.id] ?? 0
+      : entry.doseItems
+          .filter(item => item.compoundId === compound.id)
+          .reduce((sum, item) => sum + (toStockAmount(compound, item.dose) ?? 0), 0);
+    if (!(amount > 0)) return compound;
+    return { ...compound, inventory: { ...compound.inventory, quantity: compound.inventory.quantity + amount } };
+  });
+}
+
+/**
+ * Restock one package; a prescription refill uses up one of the remaining refills
+ */
+export function restockPackage(inventory: CompoundInventory, today: string): CompoundInventory {
+  const prescription = inventory.prescription;
+  return {
+    ...inventory,
+    quantity: inventory.quantity + (inventory.packageSize ?? 0),
+    purchaseDate: today,
+    prescription:
+      prescription?.refillsRemaining !== undefined
+        ? { ...prescription, refillsRemaining: Math.max(0, prescription.refillsRemaining - 1) }
+        : prescription,
+  };
+}
+
+/**
+ * Average daily use over the recent window, in the stock unit, counted from
+ * the first dose if the compound is newer than that
+ */
+function dailyConsumption(compound: Compound, logEntries: LogEntry[], now: number): number | null {
+  const windowStart = now - CONSUMPTION_WINDOW_DAYS * DAY_MS;
+  const doses = logEntries.flatMap(entry =>
+    entry.doseItems
+      .filter(item => item.compoundId === compound.id && item.timestamp >= windowStart && item.timestamp <= now)
+      .map(item => ({ timestamp: item.timestamp, dose: toStockAmount(compound, item.dose) ?? 0 }))
+  );
+  if (doses.length === 0) return null;
+
+  const firstDose = Math.min(...doses.map(dose => dose.timestamp));
+  // The first day of use counts as a full day
+  const days = Math.floor((now - firstDose) / DAY_MS) + 1;
+  return doses.reduce((sum, dose) => sum + dose.dose, 0) / days;
+}
+
+/**
+ * Project when a compound's stock runs out
+ * Returns null for compounds without inventory tracking.
+ */
+export function forecastSupply(
+  compound: Compound,
+  logEntries: LogEntry[],
+  now: number = Date.now()
+): SupplyForecast | null {
+  const inventory = compound.inventory;
+  if (!inventory) return null;
+
+  const dailyUse = dailyConsumption(compound, logEntries, now);
+  const daysLeft = dailyUse ? inventory.quantity / dailyUse : null;
+  const lowStockDays = inventory.lowStockDays ?? DEFAULT_LOW_STOCK_DAYS;
+
+  let status: SupplyStatus = 'ok';
+  if (inventory.quantity <= 0) status = 'out';
+  else if (daysLeft !== null && daysLeft < lowStockDays) status = 'low';
+
+  const refillDate = inventory.prescription?.refillDate ? parseLocalDate(inventory.prescription.refillDate) : null;
+
+  return {
+    compoundId: compound.id,
+    quantity: inventory.quantity,
+    unit: stockUnit(compound).unit,
+    dailyUse,
+    daysLeft,
+    runOutDate: daysLeft !== null ? now + daysLeft * DAY_MS : null,
+    status,
+    refillDue: refillDate !== null && refillDate - now <= REFILL_NOTICE_DAYS * DAY_MS,
+    refillDate,
+  };
+}
@@ -0,0 +1,104 @@
+import type { Compound, DoseItem, LogEntry, StackPreset } from './types';
+
+/**
+ * Log History
+ *
+ * Filtering for the history view, and readable summaries of what an edit
+ * changed (from the audit trail's before/after snapshots).
+ */
+
+export interface LogFilters {
+  /** First day, inclusive ("YYYY-MM-DD") */
+  from?: string;
+  /** Last day, inclusive ("YYYY-MM-DD") */
+  to?: string;
+  compoundId?: string;
+  presetId?: string;
+}
+
+/**
+ * Entries matching every set filter, newest first
+ */
+export function filterLogEntries(logEntries: LogEntry[], filters: LogFilters): LogEntry[] {
+  return logEntries
+    .filter(log => !filters.from || log.date >= filters.from)
+    .filter(log => !filters.to || log.date <= filters.to)
+    .filter(log => !filters.compoundId || log.doseItems.some(item => item.compoundId === filters.compoundId))
+    .filter(log => !filters.presetId || log.presetId === filters.presetId)
+    .sort((a, b) => b.timestamp - a.timestamp);
+}
+
+/**
+ * Format an instant in the zone an entry was logged in
+ */
+export function formatLogTime(timestamp: number, timeZone?: string, withDate = false): string {
+  return new Date(timestamp).toLocaleString([], {
+    timeZone,
+    hour: '2-digit',
+    minute: '2-digit',
+    ...(withDate ? { month: 'short', day: 'numeric' } : {}),
+  });
+}
+
+/**
+ * One line per changed field between two versions of an entry
+ */
+export function describeLogChanges(
+  before: LogEntry,
+  after: LogEntry,
+  compounds: Compound[],
+  presets: StackPreset[] = []
+): string[] {
+  const changes: string[] = [];
+  const time = (timestamp: number) => formatLogTime(timestamp, after.timeZone, true);
+  const name = (compoundId: string) => compounds.find(c => c.id === compoundId)?.name ?? 'Deleted compound';
+  const amount = (compoundId: string, dose: number) =>
+    `${dose} ${compounds.find(c => c.id === compoundId)?.unit ?? ''}`.trim();
+
+  if (before.timestamp !== after.timestamp) {
+    changes.push(`Time ${time(before.timestamp)} → ${time(after.timestamp)}`);
+  }
+
+  // Doses grouped by compound and paired in order, so repeat doses of one compound each count
+  const doseLists = new Map<string, { before: DoseItem[]; after: DoseItem[] }>();
+  const listFor = (compoundId: string) => {
+    const lists = doseLists.get(compoundId) ?? { before: [], after: [] };
+    doseLists.set(compoundId, lists);
+    return lists;
+  };
+  after.doseItems.forEach(item => listFor(item.compoundId).after.push(item));
+  before.doseItems.forEach(item => listFor(item.compoundId).before.push(item));
+
+  doseLists.forEach((lists, compoundId) => {
+    const count = Math.max(lists.before.length, lists.after.length);
+    for (let i = 0; i < count; i++) {
+      const label = count > 1 ? `${name(compoundId)} (dose ${i + 1})` : name(compoundId);
+      const previous = lists.before[i];
+      const item = lists.after[i];
+      if (!previous) {
+        changes.push(`Added ${label} ${amount(compoundId, item.dose)}`);
+      } else if (!item) {
+        changes.push(`Removed ${label} ${amount(compoundId, previous.dose)}`);
+      } else {
+        if (previous.dose !== item.dose) {
+          changes.push(`${label} ${previous.dose} → ${amount(compoundId, item.dose)}`);
+        }
+        if (previous.timestamp !== item.timestamp) {
+          changes.push(`${label} taken ${time(previous.timestamp)} → ${time(item.timestamp)}`);
+        }
+      }
+    }
+  });
+
+  if (before.anxiety !== after.anxiety) changes.push(`Anxiety ${before.anxiety} → ${after.anxiety}`);
+  if (before.functionality !== after.functionality) {
+    changes.push(`Functionality ${before.functionality} → ${after.functionality}`);
+  }
+  if (before.notes !== after.notes) changes.push('Notes edited');
+  if (before.presetId !== after.presetId) {
+    const preset = after.presetId ? presets.find(p => p.id === after.presetId)?.name ?? 'a preset' : null;
+    changes.push(preset ? `Linked to ${preset}` : 'Unlinked from preset');
+  }
+
+  return changes;
+}
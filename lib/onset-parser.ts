@@ -0,0 +1,157 @@
+import type { OnsetPeakDuration, TimingConfidence, TimingPart } from './compound-types';
+
+/**
+ * Onset/Peak/Duration Parsing
+ *
+ * The one parser for timing strings, used by scripts/generate-compound-index.js
+ * at build time and by the app for AI search results. It reads the sheet format
+ * ("30-60m / 2-4h / 3-6h"), the labelled format ("Onset: 30-60 min; Peak: 2 hrs;
+ * Duration: >20 hrs"), minutes through weeks, "N/A" parts and prose such as
+ * "1-2 weeks for full effect" or "Days to weeks". Every part reports how it was read; a part that
+ * can't be read stays empty rather than taking a default.
+ */
+
+export const TIMING_PARTS: TimingPart[] = ['onset', 'peak', 'duration'];
+
+const MINUTES_PER_UNIT: Array<[RegExp, number]> = [
+  [/^(m|mins?|minutes?)$/, 1],
+  [/^(h|hrs?|hours?)$/, 60],
+  [/^(d|days?)$/, 60 * 24],
+  [/^(w|wks?|weeks?)$/, 60 * 24 * 7],
+];
+
+// A number with an optional unit (never the "to" of a range) and an optional "+" for an
+// open-ended time, optionally followed by "-"/"to" and a second number with a unit
+const RANGE_PATTERN =
+  /(\d+(?:\.\d+)?)\s*(\+)?\s*((?!to\b)[a-z]+)?(\+)?\s*(?:(?:-|–|to)\s*(\d+(?:\.\d+)?)\s*([a-z]+))?/i;
+
+const MISSING_PATTERN = /^(n\/?a|none|unknown|varies|-|–|—)?$/i;
+
+// A single dose doesn't take a day or more to act or peak; such times describe repeated dosing
+const MAX_SINGLE_DOSE_MINUTES = 60 * 24;
+
+// Prose saying the time is for an effect that builds over repeated doses
+const CUMULATIVE_PATTERN = /full effect|build|gradual|with (daily |regular |chronic |consistent |continued )?use|of use|sustained/i;
+
+// Times given only in days or weeks ("Days to weeks") also describe repeated dosing
+const LONG_PROSE_PATTERN = /\b(days?|weeks?|months?)\b/i;
+
+const unitMinutes = (unit?: string): number | undefined =>
+  unit ? MINUTES_PER_UNIT.find(([pattern]) => pattern.test(unit.toLowerCase()))?.[1] : undefined;
+
+export interface ParsedTimeRange {
+  min?: number; // Minutes
+  max?: number; // Absent for open-ended times ("12+ hours")
+  confidence: TimingConfidence;
+}
+
+/**
+ * Read one part ("30-60m", "2 to 3 hours", "12+ hours", "1-2 weeks for full
+ * effect", "Days to weeks", "N/A") into minutes
+ */
+export function parseTimeRange(text: string): ParsedTimeRange {
+  const trimmed = text.trim();
+  if (MISSING_PATTERN.test(trimmed)) return { confidence: 'missing' };
+
+  const match = trimmed.match(RANGE_PATTERN);
+  if (!match) {
+    const cumulative = CUMULATIVE_PATTERN.test(trimmed) || LONG_PROSE_PATTERN.test(trimmed);
+    return { confidence: cumulative ? 'cumulative' : 'unparsed' };
+  }
+
+  const [matched, first, plusBeforeUnit, firstUnit, plusAfterUnit, second, secondUnit] = match;
+  // "30-60m" gives both numbers the trailing unit; "30 min-2 h" has one each
+  const firstMinutes = unitMinutes(firstUnit ?? secondUnit);
+  const secondMinutes = unitMinutes(secondUnit);
+  if (firstMinutes === undefined || (second !== undefined && secondMinutes === undefined)) {
+    return { confidence: 'unparsed' };
+  }
+
+  const min = parseFloat(first) * firstMinutes;
+  const rest = trimmed.replace(matched, '').trim();
+  const confidence: TimingConfidence = CUMULATIVE_PATTERN.test(rest)
+    ? 'cumulative'
+    : rest
+      ? 'approximate'
+      : 'exact';
+  // "12+ hours" has no upper bound
+  if (second === undefined && (plusBeforeUnit || plusAfterUnit)) {
+    return { min, confidence: confidence === 'exact' ? 'approximate' : confidence };
+  }
+
+  const max = second !== undefined ? parseFloat(second) * secondMinutes! : min;
+  return { min: Math.min(min, max), max: Math.max(min, max), confidence };
+}
+
+// Split into onset, peak and duration text, by label when labelled and by position otherwise
+function splitParts(raw: string): Record<TimingPart, string> {
+  const parts: Record<TimingPart, string> = { onset: '', peak: '', duration: '' };
+
+  if (/\b(onset|peak|duration)\s*:/i.test(raw)) {
+    raw.split(';').forEach(segment => {
+      const label = segment.match(/^\s*(onset|peak|duration)\s*:/i);
+      if (label) parts[label[1].toLowerCase() as TimingPart] = segment.slice(label[0].length);
+    });
+    return parts;
+  }
+
+  // "N/A" would otherwise split in two
+  const positional = raw.replace(/\bn\/a\b/gi, 'NA').split('/');
+  TIMING_PARTS.forEach((part, i) => {
+    parts[part] = positional[i] ?? '';
+  });
+  return parts;
+}
+
+/**
+ * Parse a full timing string into minute ranges with a confidence per part
+ */
+export function parseOnsetPeakDuration(raw: string): OnsetPeakDuration {
+  const result: OnsetPeakDuration = {
+    raw,
+    confidence: { onset: 'missing', peak: 'missing', duration: 'missing' },
+  };
+  if (!raw || MISSING_PATTERN.test(raw.trim())) return result;
+
+  const parts = splitParts(raw);
+  TIMING_PARTS.forEach(part => {
+    const { min, max, confidence } = parseTimeRange(parts[part]);
+    const cumulative = part !== 'duration' && min !== undefined && min >= MAX_SINGLE_DOSE_MINUTES;
+    result.confidence![part] = cumulative ? 'cumulative' : confidence;
+    if (min === undefined) return;
+    result[`${part}Min`] = min;
+    if (max !== undefined) result[`${part}Max`] = max;
+  });
+  return result;
+}
+
+/**
+ * Minute ranges of the parts that describe a single dose (read exactly or
+ * approximately); build-up times and unread parts are left out
+ */
+export function singleDoseRanges(onset?: OnsetPeakDuration): Partial<Record<TimingPart, { min: number; max: number }>> {
+  const ranges: Partial<Record<TimingPart, { min: number; max: number }>> = {};
+  if (!onset) return ranges;
+
+  TIMING_PARTS.forEach(part => {
+    const confidence = onset.confidence?.[part];
+    if (confidence && confidence !== 'exact' && confidence !== 'approximate') return;
+    const min = onset[`${part}Min`];
+    const max = onset[`${part}Max`];
+    // Zero means unknown in older AI search results
+    if (!min && !max) return;
+    ranges[part] = { min: min || max!, max: max || min! };
+  });
+  return ranges;
+}
+
+/**
+ * Midpoint minutes of each single-dose part
+ */
+export function singleDoseTiming(onset?: OnsetPeakDuration): Partial<Record<TimingPart, number>> {
+  const timing: Partial<Record<TimingPart, number>> = {};
+  Object.entries(singleDoseRanges(onset)).forEach(([part, range]) => {
+    timing[part as TimingPart] = (range.min + range.max) / 2;
+  });
+  return timing;
+}
@@ -0,0 +1,56 @@
+/**
+ * Passcode Types and Auto-Lock
+ *
+ * The vault can be locked with a 4- or 6-digit PIN or an alphanumeric
+ * passcode. The type is stored in the clear with the vault so the lock screen
+ * can show the right input before anything is decrypted.
+ */
+
+export type PasscodeType = 'pin4' | 'pin6' | 'alphanumeric';
+
+export const PASSCODE_TYPES: Record<
+  PasscodeType,
+  { label: string; placeholder: string; inputMode: 'numeric' | 'text'; maxLength?: number }
+> = {
+  pin4: { label: '4-digit PIN', placeholder: 'Enter 4-digit PIN', inputMode: 'numeric', maxLength: 4 },
+  pin6: { label: '6-digit PIN', placeholder: 'Enter 6-digit PIN', inputMode: 'numeric', maxLength: 6 },
+  alphanumeric: { label: 'Alphanumeric passcode', placeholder: 'Enter passcode', inputMode: 'text' },
+};
+
+export const MIN_ALPHANUMERIC_LENGTH = 8;
+
+/**
+ * Why a passcode isn't acceptable for its type, or null if it is
+ */
+export function validatePasscode(passcode: string, type: PasscodeType): string | null {
+  switch (type) {
+    case 'pin4':
+      return /^\d{4}$/.test(passcode) ? null : 'PIN must be exactly 4 digits';
+    case 'pin6':
+      return /^\d{6}$/.test(passcode) ? null : 'PIN must be exactly 6 digits';
+    case 'alphanumeric':
+      if (passcode.length < MIN_ALPHANUMERIC_LENGTH) {
+        return `Passcode must be at least ${MIN_ALPHANUMERIC_LENGTH} characters`;
+      }
+      return /[a-z]/i.test(passcode) && /\d/.test(passcode) ? null : 'Passcode must contain letters and numbers';
+  }
+}
+
+/**
+ * Strip characters the passcode type can't contain (used on input)
+ */
+export function sanitizePasscodeInput(value: string, type: PasscodeType): string {
+  return type === 'alphanumeric' ? value : value.replace(/\D/g, '');
+}
+
+/** Minutes of inactivity (or time in the background) before the app locks itself */
+export const DEFAULT_AUTO_LOCK_MINUTES = 5;
+
+export const AUTO_LOCK_OPTIONS: { minutes: number; label: string }[] = [
+  { minutes: 1, label: '1 minute' },
+  { minutes: 5, label: '5 minutes' },
+  { minutes: 15, label: '15 minutes' },
+  { minutes: 30, label: '30 minutes' },
+  { minutes: 60, label: '1 hour' },
+  { minutes: 0, label: 'Never' },
+];
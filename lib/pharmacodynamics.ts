@@ -0,0 +1,143 @@
+import type { Compound } from './types';
+import type { CompoundDetail } from './compound-types';
+import { findLibraryCompound } from './compound-library';
+import {
+  calculateAggregateEffect,
+  identifyCrashPeriods,
+  identifyOverloadPeriods,
+  type PharmacokineticCurvePoint,
+} from './pharmacokinetics';
+
+/**
+ * Pharmacodynamic Effect Axes
+ *
+ * Concentrations say how much of a compound is active, not what it does.
+ * Each compound gets a signed weight per effect axis, so a sedative pulls the
+ * stimulation axis down instead of adding to a single "total effect".
+ */
+
+export type EffectAxis = 'stimulation' | 'sedation' | 'anxiolysis' | 'focus';
+
+export const EFFECT_AXES: EffectAxis[] = ['stimulation', 'sedation', 'anxiolysis', 'focus'];
+
+export const EFFECT_AXIS_INFO: Record<
+  EffectAxis,
+  { label: string; color: string; overloadLabel: string; crashLabel?: string }
+> = {
+  stimulation: { label: 'Stimulation', color: '#f97316', overloadLabel: 'Overstimulation', crashLabel: 'Stimulant crash' },
+  sedation: { label: 'Sedation', color: '#6366f1', overloadLabel: 'Oversedation' },
+  anxiolysis: { label: 'Anxiolysis', color: '#14b8a6', overloadLabel: 'Excessive anxiolysis', crashLabel: 'Rebound anxiety' },
+  focus: { label: 'Focus', color: '#eab308', overloadLabel: 'Overfocus', crashLabel: 'Focus drop' },
+};
+
+/** Signed weight per axis (-1 to 1); one default dose at peak contributes this much */
+export type EffectVector = Record<EffectAxis, number>;
+
+/** Axis level (in default doses at peak) above which an overload is flagged */
+export const AXIS_OVERLOAD_THRESHOLD = 2;
+
+/** Per-point drop on an axis that counts as a crash, and the level it must start from */
+export const AXIS_CRASH_DROP = 0.5;
+export const AXIS_CRASH_MIN_LEVEL = 1;
+
+const vector = (weights: Partial<EffectVector>): EffectVector => ({
+  stimulation: 0,
+  sedation: 0,
+  anxiolysis: 0,
+  focus: 0,
+  ...weights,
+});
+
+/**
+ * Pharmacological classes, most specific first; the first match wins
+ * (e.g. "Stimulant/ADHD - Alpha-2 agonist" is an alpha-2 agonist, not a stimulant)
+ */
+const EFFECT_RULES: [RegExp, EffectVector][] = [
+  [/alpha-2a? agonist/, vector({ stimulation: -0.3, sedation: 0.4, anxiolysis: 0.4, focus: 0.5 })],
+  [/alpha-2 antagonist/, vector({ stimulation: 0.6, anxiolysis: -0.4 })],
+  [/benzodiazepine|gaba-b|gabapentinoid|neurosteroid|barbiturat|z-drug|hypnotic/, vector({ stimulation: -0.5, sedation: 1, anxiolysis: 1, focus: -0.4 })],
+  [/antihistamine|h1 (receptor )?antagonist|antipsychotic/, vector({ stimulation: -0.4, sedation: 0.8, anxiolysis: 0.4, focus: -0.3 })],
+  [/melatonergic|melatonin/, vector({ sedation: 0.6 })],
+  [/beta-blocker/, vector({ stimulation: -0.2, anxiolysis: 0.6 })],
+  [/h3 (inverse agonist|antagonist)|eugeroic|wakefulness|modafinil/, vector({ stimulation: 0.6, sedation: -0.5, focus: 0.6 })],
+  [/stimulant|amphetamine|methylphenidate|xanthine|caffeine|nicotine|sympathomimetic|\b(ndri|dnri|nri)\b/, vector({ stimulation: 1, sedation: -0.5, anxiolysis: -0.3, focus: 0.6 })],
+  [/azapirone|anxiolytic|gabaergic|\bgaba\b|theanine/, vector({ sedation: 0.3, anxiolysis: 0.7 })],
+  [/racetam|ampakine|ampa|cholinergic|acetylcholinesterase|choline|nootropic/, vector({ stimulation: 0.1, focus: 0.5 })],
+  [/antidepressant|\b(ssri|snri|maoi)\b/, vector({ anxiolysis: 0.3 })],
+];
+
+/**
+ * Map a compound's effect type and tags onto the effect axes
+ * Unclassified compounds get a zero vector (they still appear as concentration curves).
+ */
+export function classifyEffects(
+  detail: Pick<CompoundDetail, 'effectType' | 'mechanisticTags'> | undefined,
+  name: string = ''
+): EffectVector {
+  const text = [name, detail?.effectType ?? '', ...(detail?.mechanisticTags ?? [])].join(' ').toLowerCase();
+  return EFFECT_RULES.find(([pattern]) => pattern.test(text))?.[1] ?? vector({});
+}
+
+/**
+ * Effect vector for a pharmacy compound, from its library entry or its name
+ */
+export function getEffectVector(compound: Pick<Compound, 'name' | 'libraryId'>): EffectVector {
+  return classifyEffects(findLibraryCompound(compound), compound.name);
+}
+
+/**
+ * Per-axis aggregate curves: each compound's curve weighted by its signed axis weight
+ *
+ * @param curves One curve per compound, on a shared time grid
+ * @param vectors Effect vector per compound
+ * @param potencies Optional per-compound potency multiplier per day (tolerance)
+ */
+export function calculateAxisEffects(
+  curves: PharmacokineticCurvePoint[][],
+  vectors: EffectVector[],
+  potencies?: (number[] | undefined)[]
+): Record<EffectAxis, PharmacokineticCurvePoint[]> {
+  const weighted = (axis: EffectAxis) =>
+    curves.map((curve, idx) =>
+      curve.map(point => ({ ...point, concentration: point.concentration * vectors[idx][axis] }))
+    );
+
+  return {
+    stimulation: calculateAggregateEffect(weighted('stimulation'), potencies),
+    sedation: calculateAggregateEffect(weighted('sedation'), potencies),
+    anxiolysis: calculateAggregateEffect(weighted('anxiolysis'), potencies),
+    focus: calculateAggregateEffect(weighted('focus'), potencies),
+  };
+}
+
+/**
+ * Axes any of the given compounds actually moves
+ */
+export function getActiveAxes(vectors: EffectVector[]): EffectAxis[] {
+  return EFFECT_AXES.filter(axis => vectors.some(v => v[axis] !== 0));
+}
+
+/**
+ * Overload periods per axis (e.g. overstimulation from 2-4 PM)
+ */
+export function identifyAxisOverloads(
+  axisCurves: Partial<Record<EffectAxis, PharmacokineticCurvePoint[]>>
+): Array<{ axis: EffectAxis; start: number; end: number; peak: number }> {
+  return EFFECT_AXES.flatMap(axis =>
+    identifyOverloadPeriods(axisCurves[axis] ?? [], AXIS_OVERLOAD_THRESHOLD).map(period => ({
+      axis,
+      ...period,
+    }))
+  );
+}
+
+/**
+ * Crash points per axis; axes without a crash meaning (sedation wearing off) are skipped
+ */
+export function identifyAxisCrashes(
+  axisCurves: Partial<Record<EffectAxis, PharmacokineticCurvePoint[]>>
+): Array<{ axis: EffectAxis; time: number; severity: number }> {
+  return EFFECT_AXES.filter(axis => EFFECT_AXIS_INFO[axis].crashLabel).flatMap(axis =>
+    identifyCrashPeriods(axisCurves[axis] ?? [], AXIS_CRASH_DROP, AXIS_CRASH_MIN_LEVEL).map(crash => ({ axis, ...crash }))
+  );
+}
@@ -10,7 +10,17 @@
  * - Dose = Normalized dose (set to 1 for effect intensity)
  */
 
-export interface PharmacokineticParameters {
+import type { Formulation, PharmacokineticProfile } from './compound-types';
+
+export interface PharmacokineticParameters extends CompoundKinetics {
+  /** Dose time (hour of day, 0-23) */
+  doseTime: number;
+}
+
+/**
+ * Dose-independent kinetic description of a compound
+ */
+export interface CompoundKinetics {
   /** Absorption rate constant (1/hour) */
   ka?: number;
   /** Elimination rate constant (1/hour) */
@@ -21,14 +31,56 @@ export interface PharmacokineticParameters {
   peakMinutes: number;
   /** Duration in minutes */
   durationMinutes: number;
-  /** Dose time (hour of day, 0-23) */
-  doseTime: number;
   /** Optional bioavailability factor (0-1) */
   bioavailability?: number;
+  /** Release mechanism (default 'IR', plain first-order absorption) */
+  formulation?: Formulation;
+  /** XR/transdermal: hours over which the dose is released at a constant rate */
+  releaseHours?: number;
+  /** XR/transdermal: delay before release starts, in hours */
+  lagHours?: number;
+  /** Biphasic: fraction of the dose released immediately (0-1) */
+  immediateFraction?: number;
+  /** Biphasic: delay of the second pulse, in hours */
+  pulseDelayHours?: number;
+}
+
+/**
+ * Default release characteristics per formulation
+ * - XR: zero-order (osmotic/matrix) release over a working day
+ * - biphasic: 50/50 bead products such as Adderall XR or Ritalin LA
+ * - transdermal: constant delivery while a patch is worn, after skin lag
+ * - sublingual: bypasses the gut, so absorption is markedly faster
+ */
+export const FORMULATION_DEFAULTS = {
+  XR: { releaseHours: 8, lagHours: 0 },
+  biphasic: { immediateFraction: 0.5, pulseDelayHours: 4 },
+  transdermal: { releaseHours: 12, lagHours: 1 },
+  sublingual: { kaMultiplier: 3 },
+} as const;
+
+/**
+ * A single administration on a curve's timeline
+ */
+export interface DoseEvent {
+  /** Time of administration in hours from the curve origin (midnight) */
+  time: number;
+  /** Dose relative to the compound's default dose (1 = default dose) */
+  doseScale: number;
+}
+
+/**
+ * A logged administration at an absolute point in time
+ */
+export interface TimedDose {
+  /** Time of administration (ms since epoch) */
+  timestamp: number;
+  /** Dose relative to the compound's default dose (1 = default dose) */
+  doseScale: number;
 }
 
 export interface PharmacokineticCurvePoint {
-  /** Time in hours from midnight */
+  /** Time in hours from midnight (or from the window start for multi-day curves) */
   time: number;
   /** Concentration/effect intensity (0-1) */
   concentration: number;
@@ -61,6 +113,126 @@ function estimateKe(durationMinutes: number, peakMinutes: number): number {
   return Math.log(2) / halfLife;
 }
 
+/**
+ * Solve Tmax = ln(ka/ke) / (ka - ke) for ka by bisection
+ * Tmax decreases monotonically in ka and equals 1/ke at ka = ke
+ */
+function solveKaFromTmax(tmaxHours: number, ke: number): number {
+  let low = 1e-4;
+  let high = 100;
+  const tmaxAt = (ka: number) =>
+    Math.abs(ka - ke) < 1e-9 ? 1 / ke : Math.log(ka / ke) / (ka - ke);
+  
+  for (let i = 0; i < 100; i++) {
+    const mid = (low + high) / 2;
+    if (tmaxAt(mid) > tmaxHours) {
+      low = mid;
+    } else {
+      high = mid;
+    }
+  }
+  
+  return (low + high) / 2;
+}
+
+/**
+ * Build kinetic parameters from measured constants (half-life, Tmax, bioavailability)
+ * 
+ * Measured constants replace the onset/peak/duration heuristics: ke comes from
+ * the half-life and ka is solved so the curve peaks at Tmax. Fields missing from
+ * the profile fall back to the supplied estimates.
+ * 
+ * @param profile Structured PK constants
+ * @param fallback Onset/peak/duration estimates (e.g. parsed from the library string)
+ */
+export function kineticsFromProfile(
+  profile: PharmacokineticProfile | undefined,
+  fallback: CompoundKinetics
+): CompoundKinetics {
+  if (!profile?.halfLifeHours) {
+    return {
+      ...fallback,
+      bioavailability: profile?.bioavailability ?? fallback.bioavailability,
+      formulation: profile?.formulation ?? fallback.formulation,
+    };
+  }
+  
+  const ke = Math.log(2) / profile.halfLifeHours;
+  const tmaxHours = profile.tmaxHours ?? fallback.peakMinutes / 60;
+  const ka = solveKaFromTmax(tmaxHours, ke);
+  const kinetics: CompoundKinetics = {
+    ka,
+    ke,
+    onsetMinutes: fallback.onsetMinutes,
+    peakMinutes: tmaxHours * 60,
+    durationMinutes: 0,
+    bioavailability: profile.bioavailability ?? fallback.bioavailability,
+    formulation: profile.formulation ?? fallback.formulation,
+  };
+  kinetics.durationMinutes = getResidualWindowHours(kinetics) * 60;
+  
+  return kinetics;
+}
+
+/**
+ * Resolve absorption and elimination rate constants, estimating missing ones
+ */
+export function resolveRateConstants(params: CompoundKinetics): { ka: number; ke: number } {
+  const ka = params.ka ?? estimateKa(params.onsetMinutes);
+  return {
+    ka: params.formulation === 'sublingual' ? ka * FORMULATION_DEFAULTS.sublingual.kaMultiplier : ka,
+    ke: params.ke ?? estimateKe(params.durationMinutes, params.peakMinutes),
+  };
+}
+
+/**
+ * Hours by which a formulation stretches release beyond a plain IR dose
+ */
+function getReleaseSpanHours(params: CompoundKinetics): number {
+  switch (params.formulation) {
+    case 'XR':
+    case 'transdermal': {
+      const defaults = FORMULATION_DEFAULTS[params.formulation];
+      return (params.lagHours ?? defaults.lagHours) + (params.releaseHours ?? defaults.releaseHours);
+    }
+    case 'biphasic':
+      return params.pulseDelayHours ?? FORMULATION_DEFAULTS.biphasic.pulseDelayHours;
+    default:
+      return 0;
+  }
+}
+
+/**
+ * Terminal half-life in hours
+ * The slower of the two rate constants governs the tail (flip-flop kinetics)
+ */
+export function getTerminalHalfLife(params: CompoundKinetics): number {
+  const { ka, ke } = resolveRateConstants(params);
+  return Math.log(2) / Math.min(ka, ke);
+}
+
+/**
+ * Hours from an IR dose to its peak
+ */
+export function getTmaxHours(params: CompoundKinetics): number {
+  const { ka, ke } = resolveRateConstants(params);
+  return irPeakTime(ka, ke);
+}
+
+/**
+ * Hours after a dose until its contribution falls below the 5% cutoff
+ * Doses older than this can be ignored when simulating a time window
+ */
+export function getResidualWindowHours(params: CompoundKinetics): number {
+  const { ka, ke } = resolveRateConstants(params);
+  const peakHours = Math.abs(ka - ke) < 0.001
+    ? 1 / ka
+    : Math.log(ka / ke) / (ka - ke);
+  const tailHours = Math.log(20) / Math.min(ka, ke);
+  // Cap at 30 days so pathological parameters can't pull in the whole history
+  return Math.min(peakHours + tailHours + getReleaseSpanHours(params), 30 * 24);
+}
+
 /**
  * Calculate concentration at a specific time using bi-exponential model
  * 
@@ -70,14 +242,34 @@ function estimateKe(durationMinutes: number, peakMinutes: number): number {
  */
 export function calculateConcentration(
   timeSinceDose: number,
-  params: PharmacokineticParameters
+  params: CompoundKinetics
+): number {
+  const normalized = normalizedConcentration(timeSinceDose, params);
+  
+  // Apply cutoff at very low concentrations (< 5% of peak)
+  return applyCutoff(normalized);
+}
+
+/**
+ * Concentration normalized to the peak of a single, fully absorbed IR dose,
+ * without cutoff. Superposition sums these raw values so sub-threshold tails
+ * still accumulate.
+ * 
+ * Every formulation is normalized against that IR peak, so a dose has the same
+ * exposure (area under the curve) whatever its release mechanism: an XR dose
+ * peaks lower and lasts longer instead of looking identical to IR. The
+ * reference peak assumes F = 1, so bioavailability scales the curve: a
+ * compound absorbing 30% of the dose peaks at 0.3.
+ */
+function normalizedConcentration(
+  timeSinceDose: number,
+  params: CompoundKinetics
 ): number {
   // Handle negative time (before dose)
   if (timeSinceDose < 0) return 0;
   
   // Get or estimate rate constants
-  const ka = params.ka ?? estimateKa(params.onsetMinutes);
-  const ke = params.ke ?? estimateKe(params.durationMinutes, params.peakMinutes);
+  const { ka, ke } = resolveRateConstants(params);
   
   // Bioavailability factor (default 1.0)
   const F = params.bioavailability ?? 1.0;
@@ -85,31 +277,95 @@ export function calculateConcentration(
   // Normalized dose (we model effect intensity, not actual concentration)
   const dose = 1.0;
   
-  // Bi-exponential equation
+  const concentration = F * dose * releaseResponse(timeSinceDose, ka, ke, params);
+  
+  // Normalize to the IR peak of a fully absorbed dose (F = 1)
+  const maxConcentration = dose * unitResponse(irPeakTime(ka, ke), ka, ke);
+  
+  // Handle edge case where maxConcentration is zero or very small
+  if (maxConcentration < 1e-10) return 0;
+  
+  return concentration / maxConcentration;
+}
+
+/**
+ * Time of the IR peak, ln(ka/ke) / (ka - ke)
+ */
+function irPeakTime(ka: number, ke: number): number {
+  if (Math.abs(ka - ke) < 0.001) return 2 / (ka + ke);
+  return Math.log(ka / ke) / (ka - ke);
+}
+
+/**
+ * Bi-exponential response to a unit IR dose
+ */
+function unitResponse(t: number, ka: number, ke: number): number {
+  if (t <= 0) return 0;
+  
   // Avoid division by zero
   if (Math.abs(ka - ke) < 0.001) {
     // Use single-compartment approximation if rates are too close
     const k = (ka + ke) / 2;
-    return F * dose * k * timeSinceDose * Math.exp(-k * timeSinceDose);
+    return k * t * Math.exp(-k * t);
   }
   
-  const concentration = 
-    F * dose * (ka / (ka - ke)) * 
-    (Math.exp(-ke * timeSinceDose) - Math.exp(-ka * timeSinceDose));
-  
-  // Normalize to max value of 1.0
-  const peakTime = Math.log(ka / ke) / (ka - ke);
-  const maxConcentration = 
-    F * dose * (ka / (ka - ke)) * 
-    (Math.exp(-ke * peakTime) - Math.exp(-ka * peakTime));
-  
-  // Handle edge case where maxConcentration is zero or very small
-  if (maxConcentration < 1e-10) return 0;
+  return (ka / (ka - ke)) * (Math.exp(-ke * t) - Math.exp(-ka * t));
+}
+
+/**
+ * Integral of the unit response from 0 to t
+ */
+function cumulativeResponse(t: number, ka: number, ke: number): number {
+  if (t <= 0) return 0;
   
-  const normalized = concentration / maxConcentration;
+  if (Math.abs(ka - ke) < 0.001) {
+    const k = (ka + ke) / 2;
+    return (1 - Math.exp(-k * t) * (1 + k * t)) / k;
+  }
   
-  // Apply cutoff at very low concentrations (< 5% of peak)
-  return normalized < 0.05 ? 0 : normalized;
+  return (ka / (ka - ke)) * ((1 - Math.exp(-ke * t)) / ke - (1 - Math.exp(-ka * t)) / ka);
+}
+
+/**
+ * Response to a unit dose for the compound's release mechanism
+ */
+function releaseResponse(
+  t: number,
+  ka: number,
+  ke: number,
+  params: CompoundKinetics
+): number {
+  switch (params.formulation) {
+    case 'XR':
+    case 'transdermal': {
+      // Zero-order release over T hours: average of IR responses to the released fractions
+      const defaults = FORMULATION_DEFAULTS[params.formulation];
+      const releaseHours = params.releaseHours ?? defaults.releaseHours;
+      const elapsed = t - (params.lagHours ?? defaults.lagHours);
+      if (elapsed <= 0) return 0;
+      const released = Math.min(elapsed, releaseHours);
+      return (
+        cumulativeResponse(elapsed, ka, ke) -
+        cumulativeResponse(elapsed - released, ka, ke)
+      ) / releaseHours;
+    }
+    case 'biphasic': {
+      // Two IR pulses: an immediate fraction and a delayed remainder
+      const fraction = params.immediateFraction ?? FORMULATION_DEFAULTS.biphasic.immediateFraction;
+      const delay = params.pulseDelayHours ?? FORMULATION_DEFAULTS.biphasic.pulseDelayHours;
+      return fraction * unitResponse(t, ka, ke) + (1 - fraction) * unitResponse(t - delay, ka, ke);
+    }
+    default:
+      // IR and sublingual (sublingual only changes ka)
+      return unitResponse(t, ka, ke);
+  }
+}
+
+/**
+ * Zero out concentrations below 5% of a fully absorbed single-dose peak
+ */
+function applyCutoff(concentration: number): number {
+  return concentration < 0.05 ? 0 : concentration;
 }
 
 /**
@@ -118,7 +374,7 @@ export function calculateConcentration(
 function determinePhase(
   timeSinceDose: number,
   concentration: number,
-  params: PharmacokineticParameters
+  params: CompoundKinetics
 ): PharmacokineticCurvePoint['phase'] {
   if (concentration === 0) return 'inactive';
   
@@ -135,6 +391,10 @@ function determinePhase(
 /**
  * Generate a complete pharmacokinetic curve for a 24-hour period
  * 
+ * Time before the dose wraps to the previous day, i.e. the curve assumes the
+ * same dose is taken at the same time every day. Use `simulateMultiDay` to
+ * model an actual dosing history.
+ * 
  * @param params Pharmacokinetic parameters
  * @param pointsPerHour Number of data points per hour (default 4 = every 15 min)
  * @returns Array of curve points
@@ -169,14 +429,374 @@ export function generatePharmacokineticCurve(
   return curve;
 }
 
+/**
+ * Generate a 24-hour curve from several doses of the same compound
+ * 
+ * Each dose contributes its own absorption-elimination curve, scaled by
+ * its size relative to the default dose, and the contributions are summed
+ * (linear superposition). Doses taken before the curve origin may be
+ * passed with negative times to carry their residual effect into the day.
+ * 
+ * @param kinetics Dose-independent pharmacokinetic parameters
+ * @param doses Administrations on the curve's timeline
+ * @param pointsPerHour Number of data points per hour (default 4 = every 15 min)
+ * @returns Array of curve points
+ */
+export function generateMultiDoseCurve(
+  kinetics: CompoundKinetics,
+  doses: DoseEvent[],
+  pointsPerHour: number = 4
+): PharmacokineticCurvePoint[] {
+  return superimposeDoses(kinetics, doses, 24, pointsPerHour);
+}
+
+/**
+ * Sum the contribution of every dose at each point of a timeline
+ */
+function superimposeDoses(
+  kinetics: CompoundKinetics,
+  doses: DoseEvent[],
+  totalHours: number,
+  pointsPerHour: number
+): PharmacokineticCurvePoint[] {
+  const curve: PharmacokineticCurvePoint[] = [];
+  const totalPoints = Math.round(totalHours * pointsPerHour);
+  const sortedDoses = [...doses].sort((a, b) => a.time - b.time);
+  
+  for (let i = 0; i < totalPoints; i++) {
+    const currentHour = i / pointsPerHour;
+    
+    const concentration = applyCutoff(
+      sortedDoses.reduce(
+        (sum, dose) =>
+          sum + dose.doseScale * normalizedConcentration(currentHour - dose.time, kinetics),
+        0
+      )
+    );
+    
+    // Phase follows the most recent dose already taken
+    const lastDose = sortedDoses.filter(dose => dose.time <= currentHour).pop();
+    const phase = lastDose
+      ? determinePhase(currentHour - lastDose.time, concentration, kinetics)
+      : 'inactive';
+    
+    curve.push({
+      time: currentHour,
+      concentration,
+      phase,
+    });
+  }
+  
+  return curve;
+}
+
+/**
+ * Scale a logged dose relative to the compound's default dose
+ */
+export function getDoseScale(dose: number, defaultDose: number): number {
+  return defaultDose > 0 ? dose / defaultDose : 1;
+}
+
+/**
+ * Superimposed concentration at an absolute time, without the display cutoff
+ * Doses at or after the given time don't contribute yet.
+ * 
+ * @param timestamp Time to sample (ms since epoch)
+ * @param kinetics Resolved kinetic parameters
+ * @param doses Dosing history for the compound
+ */
+export function concentrationAt(
+  timestamp: number,
+  kinetics: CompoundKinetics,
+  doses: TimedDose[]
+): number {
+  const hourMs = 60 * 60 * 1000;
+  return doses.reduce(
+    (sum, dose) =>
+      dose.timestamp < timestamp
+        ? sum + dose.doseScale * normalizedConcentration((timestamp - dose.timestamp) / hourMs, kinetics)
+        : sum,
+    0
+  );
+}
+
+export interface MultiDaySimulation {
+  /** Curve over the window; time is hours since the window start */
+  curve: PharmacokineticCurvePoint[];
+  /** Peak and trough per simulated day */
+  days: Array<{ day: number; peak: number; trough: number }>;
+  /** Earliest dose that still contributes to the window (ms since epoch) */
+  simulationStart: number;
+  /** Number of doses included in the simulation */
+  doseCount: number;
+  /** Terminal half-life in hours */
+  halfLifeHours: number;
+  /** Mean interval between consecutive doses, null with fewer than two doses */
+  dosingIntervalHours: number | null;
+  /** Expected steady-state accumulation R = 1 / (1 - e^(-k·τ)) */
+  accumulationRatio: number | null;
+  /** Fraction of steady state reached at the most recent dose (0-1) */
+  steadyStateFraction: number;
+  /** Whether the regimen has reached ≥90% of steady state */
+  isSteadyState: boolean;
+  /** Remaining hours of uninterrupted dosing until ~97% of steady state (5 half-lives) */
+  hoursToSteadyState: number;
+}
+
+/**
+ * Simulate a rolling multi-day window with carry-over between days
+ * 
+ * Starts from the earliest dose that still contributes to the window,
+ * so residual concentration from previous days (and accumulation under
+ * repeated dosing) is carried across midnight instead of being wrapped.
+ * 
+ * @param kinetics Dose-independent pharmacokinetic parameters
+ * @param doses Full dosing history for the compound
+ * @param options.windowStart Start of the displayed window (ms since epoch, usually local midnight)
+ * @param options.days Number of days to simulate
+ * @param options.pointsPerHour Resolution of the returned curve (default 2)
+ */
+export function simulateMultiDay(
+  kinetics: CompoundKinetics,
+  doses: TimedDose[],
+  options: { windowStart: number; days: number; pointsPerHour?: number }
+): MultiDaySimulation {
+  const hourMs = 60 * 60 * 1000;
+  const { windowStart, days, pointsPerHour = 2 } = options;
+  const windowEnd = windowStart + days * 24 * hourMs;
+  const residualHours = getResidualWindowHours(kinetics);
+  
+  const relevant = doses
+    .filter(dose =>
+      dose.timestamp >= windowStart - residualHours * hourMs &&
+      dose.timestamp < windowEnd
+    )
+    .sort((a, b) => a.timestamp - b.timestamp);
+  
+  const curve = superimposeDoses(
+    kinetics,
+    relevant.map(dose => ({
+      time: (dose.timestamp - windowStart) / hourMs,
+      doseScale: dose.doseScale,
+    })),
+    days * 24,
+    pointsPerHour
+  );
+  
+  const dailySummaries = Array.from({ length: days }, (_, day) => {
+    const points = curve.slice(day * 24 * pointsPerHour, (day + 1) * 24 * pointsPerHour);
+    const values = points.map(point => point.concentration);
+    return {
+      day,
+      peak: values.length > 0 ? Math.max(...values) : 0,
+      trough: values.length > 0 ? Math.min(...values) : 0,
+    };
+  });
+  
+  // Steady-state analysis on the current uninterrupted regimen: walk back
+  // from the latest dose until a gap long enough for a full washout
+  const halfLifeHours = getTerminalHalfLife(kinetics);
+  const k = Math.log(2) / halfLifeHours;
+  const history = doses
+    .filter(dose => dose.timestamp < windowEnd)
+    .sort((a, b) => a.timestamp - b.timestamp);
+  let regimenStartIdx = history.length - 1;
+  while (
+    regimenStartIdx > 0 &&
+    history[regimenStartIdx].timestamp - history[regimenStartIdx - 1].timestamp <= residualHours * hourMs
+  ) {
+    regimenStartIdx--;
+  }
+  const regimen = regimenStartIdx >= 0 ? history.slice(regimenStartIdx) : [];
+  
+  let dosingIntervalHours: number | null = null;
+  let accumulationRatio: number | null = null;
+  let steadyStateFraction = 0;
+  let hoursToSteadyState = 5 * halfLifeHours;
+  
+  if (regimen.length >= 2) {
+    const spanHours = (regimen[regimen.length - 1].timestamp - regimen[0].timestamp) / hourMs;
+    dosingIntervalHours = spanHours / (regimen.length - 1);
+    accumulationRatio = dosingIntervalHours > 0
+      ? 1 / (1 - Math.exp(-k * dosingIntervalHours))
+      : null;
+    // After n doses at interval τ the trough has reached 1 - e^(-n·k·τ) of steady state
+    const dosedHours = spanHours + dosingIntervalHours;
+    steadyStateFraction = 1 - Math.exp(-k * dosedHours);
+    hoursToSteadyState = Math.max(0, 5 * halfLifeHours - dosedHours);
+  }
+  
+  return {
+    curve,
+    days: dailySummaries,
+    simulationStart: relevant.length > 0 ? relevant[0].timestamp : windowStart,
+    doseCount: relevant.length,
+    halfLifeHours,
+    dosingIntervalHours,
+    accumulationRatio,
+    steadyStateFraction,
+    isSteadyState: steadyStateFraction >= 0.9,
+    hoursToSteadyState,
+  };
+}
+
+/**
+ * Seeded pseudo-random generator (mulberry32)
+ * Monte Carlo runs are seeded so bands don't flicker between renders.
+ */
+export function createRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * A compound whose kinetic parameters are uncertain
+ */
+export interface UncertainCompound {
+  /** Draw one plausible parameter set (e.g. uniformly across library ranges) */
+  sampleKinetics: (random: () => number) => CompoundKinetics;
+  doses: TimedDose[];
+  /** Effective-potency multiplier per window day, applied to the aggregate */
+  potencyByDay?: number[];
+  /** Signed weight per effect axis (see lib/pharmacodynamics) for per-axis bands */
+  axisWeights?: Record<string, number>;
+}
+
+export interface PercentileBandPoint {
+  time: number;
+  p10: number;
+  p50: number;
+  p90: number;
+}
+
+export interface UncertaintyBands {
+  /** One band per input compound, in input order */
+  compounds: PercentileBandPoint[][];
+  /** Band of the summed effect; each draw samples every compound jointly */
+  aggregate: PercentileBandPoint[];
+  /** Band per effect axis named in any compound's axisWeights */
+  axes: Record<string, PercentileBandPoint[]>;
+}
+
+/**
+ * Percentile of a sorted sample by linear interpolation
+ */
+function percentile(sorted: number[], p: number): number {
+  if (sorted.length === 0) return 0;
+  const position = (sorted.length - 1) * p;
+  const lower = Math.floor(position);
+  const upper = Math.ceil(position);
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (position - lower);
+}
+
+function toBand(time: number[], draws: number[][]): PercentileBandPoint[] {
+  return time.map((t, i) => {
+    const sorted = draws.map(draw => draw[i]).sort((a, b) => a - b);
+    return {
+      time: t,
+      p10: percentile(sorted, 0.1),
+      p50: percentile(sorted, 0.5),
+      p90: percentile(sorted, 0.9),
+    };
+  });
+}
+
+/**
+ * Monte Carlo simulation over uncertain kinetic parameters
+ * 
+ * Each draw samples a parameter set per compound, simulates the window with
+ * carry-over (see simulateMultiDay) and sums the compounds. Percentiles are
+ * taken per time point, so the p50 curve is not itself a single draw.
+ * 
+ * @param compounds Compounds with a parameter sampler and dosing history
+ * @param options.windowStart Start of the window (ms since epoch)
+ * @param options.days Number of days to simulate
+ * @param options.pointsPerHour Resolution (default 2)
+ * @param options.samples Number of draws (default 100)
+ * @param options.seed Random seed (default 1)
+ */
+export function simulateUncertaintyBands(
+  compounds: UncertainCompound[],
+  options: { windowStart: number; days: number; pointsPerHour?: number; samples?: number; seed?: number }
+): UncertaintyBands {
+  const { windowStart, days, pointsPerHour = 2, samples = 100, seed = 1 } = options;
+  const random = createRandom(seed);
+  const pointCount = Math.round(days * 24 * pointsPerHour);
+  const time = Array.from({ length: pointCount }, (_, i) => i / pointsPerHour);
+  
+  const axisNames = [...new Set(compounds.flatMap(compound => Object.keys(compound.axisWeights ?? {})))];
+  
+  const compoundDraws: number[][][] = compounds.map(() => []);
+  const aggregateDraws: number[][] = [];
+  const axisDraws: Record<string, number[][]> = Object.fromEntries(axisNames.map(axis => [axis, []]));
+  
+  for (let draw = 0; draw < samples; draw++) {
+    const total = new Array(pointCount).fill(0);
+    const axisTotals: Record<string, number[]> = Object.fromEntries(
+      axisNames.map(axis => [axis, new Array(pointCount).fill(0)])
+    );
+    compounds.forEach((compound, idx) => {
+      const { curve } = simulateMultiDay(compound.sampleKinetics(random), compound.doses, {
+        windowStart,
+        days,
+        pointsPerHour,
+      });
+      const values = curve.map(point => point.concentration);
+      values.forEach((value, i) => {
+        const effect = value * potencyAt(compound.potencyByDay, time[i]);
+        total[i] += effect;
+        axisNames.forEach(axis => (axisTotals[axis][i] += effect * (compound.axisWeights?.[axis] ?? 0)));
+      });
+      compoundDraws[idx].push(values);
+    });
+    aggregateDraws.push(total);
+    axisNames.forEach(axis => axisDraws[axis].push(axisTotals[axis]));
+  }
+  
+  return {
+    compounds: compoundDraws.map(draws => toBand(time, draws)),
+    aggregate: toBand(time, aggregateDraws),
+    axes: Object.fromEntries(axisNames.map(axis => [axis, toBand(time, axisDraws[axis])])),
+  };
+}
+
+/**
+ * One percentile of a band as a curve, e.g. to run overload detection on p90
+ */
+export function bandPercentileCurve(
+  band: PercentileBandPoint[],
+  key: 'p10' | 'p50' | 'p90'
+): PharmacokineticCurvePoint[] {
+  return band.map(point => ({
+    time: point.time,
+    concentration: point[key],
+    phase: point[key] > 0 ? 'peak' : 'inactive',
+  }));
+}
+
+/**
+ * Potency multiplier for a curve time (hours since the window start)
+ */
+function potencyAt(potencyByDay: number[] | undefined, time: number): number {
+  return potencyByDay?.[Math.floor(time / 24)] ?? 1;
+}
+
 /**
  * Calculate aggregate effect from multiple compounds
  * 
  * @param curves Array of pharmacokinetic curves
+ * @param potencies Optional per-curve potency multiplier per day (tolerance)
  * @returns Aggregate curve with total concentration at each time point
  */
 export function calculateAggregateEffect(
-  curves: PharmacokineticCurvePoint[][]
+  curves: PharmacokineticCurvePoint[][],
+  potencies?: (number[] | undefined)[]
 ): PharmacokineticCurvePoint[] {
   if (curves.length === 0) return [];
   
@@ -186,7 +806,7 @@ export function calculateAggregateEffect(
   for (let i = 0; i < pointCount; i++) {
     const time = curves[0][i].time;
     const totalConcentration = curves.reduce(
-      (sum, curve) => sum + (curve[i]?.concentration || 0),
+      (sum, curve, idx) => sum + (curve[i]?.concentration || 0) * potencyAt(potencies?.[idx], time),
       0
     );
     
@@ -241,11 +861,13 @@ export function identifyOverloadPeriods(
  * 
  * @param aggregateCurve The combined effect curve
  * @param thresholdDrop Minimum concentration drop to flag (default 0.5)
+ * @param minLevel Level the curve must drop from to count (default 1.5)
  * @returns Array of crash points with severity
  */
 export function identifyCrashPeriods(
   aggregateCurve: PharmacokineticCurvePoint[],
-  thresholdDrop: number = 0.5
+  thresholdDrop: number = 0.5,
+  minLevel: number = 1.5
 ): Array<{ time: number; severity: number }> {
   const crashes: Array<{ time: number; severity: number }> = [];
   
@@ -255,7 +877,7 @@ export function identifyCrashPeriods(
     const drop = prev - curr;
     
     // Only flag if dropping from significant level and drop is substantial
-    if (drop > thresholdDrop && prev > 1.5) {
+    if (drop > thresholdDrop && prev > minLevel) {
       crashes.push({
         time: aggregateCurve[i].time,
         severity: drop,
@@ -276,34 +898,3 @@ export function formatTime(hour: number): string {
   const displayHour = h === 0 ? 12 : h > 12 ? h - 12 : h;
   return `${displayHour}:${m.toString().padStart(2, '0')} ${period}`;
 }
-
-/**
- * Parse a pharmacokinetic string like "1-2h / 3-4h / 6-8h" into structured data
- * Exported for use in UI components that need to display pharmacokinetic data
- * 
- * @param pkString Pharmacokinetic string (e.g., "1-2h / 3-4h / 6-8h")
- * @returns Parsed onset, peak, and duration in minutes
- */
-export function parsePharmacokineticString(pkString: string): {
-  onsetMinutes: number;
-  peakMinutes: number;
-  durationMinutes: number;
-} {
-  const parts = pkString.split('/').map(s => s.trim());
-  
-  const parseTime = (timeStr: string): number => {
-    const match = timeStr.match(/(\d+)(?:-(\d+))?\s*(min|hr|hour)/i);
-    if (!match) return 0;
-    
-    const value = match[2] ? (parseInt(match[1]) + parseInt(match[2])) / 2 : parseInt(match[1]);
-    const unit = match[3].toLowerCase();
-    
-    return unit.startsWith('hr') ? value * 60 : value;
-  };
-
-  return {
-    onsetMinutes: parts[0] ? parseTime(parts[0]) : 30,
-    peakMinutes: parts[1] ? parseTime(parts[1]) : 120,
-    durationMinutes: parts[2] ? parseTime(parts[2]) : 360,
-  };
-}
@@ -0,0 +1,171 @@
+import type { LogEntry } from './types';
+import {
+  concentrationAt,
+  getTerminalHalfLife,
+  getTmaxHours,
+  kineticsFromProfile,
+  resolveRateConstants,
+  type CompoundKinetics,
+  type TimedDose,
+} from './pharmacokinetics';
+
+/**
+ * Personal PK Calibration
+ *
+ * Fits a compound's half-life and Tmax to the user's own logs: every log entry
+ * carries an anxiety/functionality rating taken at a known time, and the curve
+ * whose predicted concentration best tracks those ratings is the personal fit.
+ *
+ * Ratings reflect the whole stack, so fits for compounds that are always taken
+ * together are confounded; the correlation and sample count are reported so
+ * the UI can say how much to trust a fit.
+ */
+
+/**
+ * A rating taken at a point in time
+ */
+export interface RatingSample {
+  timestamp: number;
+  score: number; // 1-10, higher is better
+}
+
+export interface PkCalibration {
+  /** Fitted parameters, ready for the simulation engine */
+  kinetics: CompoundKinetics;
+  halfLifeHours: number;
+  tmaxHours: number;
+  /** Parameters the fit started from, for comparison */
+  defaultHalfLifeHours: number;
+  defaultTmaxHours: number;
+  /** Ratings that fell within the calibration window of a dose */
+  sampleCount: number;
+  /** Pearson correlation between predicted concentration and ratings */
+  correlation: number;
+  defaultCorrelation: number;
+  confidence: 'low' | 'moderate' | 'high';
+}
+
+/** Ratings needed before a fit is attempted */
+export const MIN_CALIBRATION_SAMPLES = 8;
+
+/** Only ratings within this many hours after a dose inform the fit */
+const CALIBRATION_WINDOW_HOURS = 48;
+
+/** Search grid (hours), log-spaced */
+const HALF_LIFE_GRID = logSpace(0.5, 24, 20);
+const TMAX_GRID = logSpace(0.25, 6, 14);
+
+function logSpace(min: number, max: number, steps: number): number[] {
+  const ratio = Math.pow(max / min, 1 / (steps - 1));
+  return Array.from({ length: steps }, (_, i) => min * Math.pow(ratio, i));
+}
+
+/**
+ * Single wellbeing score from a log entry: functionality up, anxiety down
+ */
+export function ratingScore(entry: Pick<LogEntry, 'anxiety' | 'functionality'>): number {
+  return (entry.functionality + (11 - entry.anxiety)) / 2;
+}
+
+/**
+ * Pearson correlation, 0 when either series is constant
+ */
+function correlation(xs: number[], ys: number[]): number {
+  const n = xs.length;
+  const meanX = xs.reduce((a, b) => a + b, 0) / n;
+  const meanY = ys.reduce((a, b) => a + b, 0) / n;
+  let covariance = 0;
+  let varianceX = 0;
+  let varianceY = 0;
+
+  for (let i = 0; i < n; i++) {
+    const dx = xs[i] - meanX;
+    const dy = ys[i] - meanY;
+    covariance += dx * dy;
+    varianceX += dx * dx;
+    varianceY += dy * dy;
+  }
+
+  if (varianceX < 1e-12 || varianceY < 1e-12) return 0;
+  return covariance / Math.sqrt(varianceX * varianceY);
+}
+
+function confidenceFor(sampleCount: number, r: number): PkCalibration['confidence'] {
+  if (sampleCount >= 30 && r >= 0.5) return 'high';
+  if (sampleCount >= 15 && r >= 0.3) return 'moderate';
+  return 'low';
+}
+
+/**
+ * Fit half-life and Tmax to time-stamped ratings by grid search
+ *
+ * @param defaultKinetics Library/user parameters; formulation and bioavailability are kept
+ * @param doses Full dosing history for the compound
+ * @param ratings Time-stamped ratings (usually every log entry)
+ * @returns The best fit, or null when there are too few usable ratings
+ */
+export function fitKinetics(
+  defaultKinetics: CompoundKinetics,
+  doses: TimedDose[],
+  ratings: RatingSample[]
+): PkCalibration | null {
+  const hourMs = 60 * 60 * 1000;
+  const sortedDoses = [...doses].sort((a, b) => a.timestamp - b.timestamp);
+
+  // Keep ratings that follow a dose closely enough to say something about it,
+  // each paired with the doses that could still be active
+  const samples = ratings
+    .map(rating => ({
+      rating,
+      doses: sortedDoses.filter(
+        dose =>
+          dose.timestamp < rating.timestamp &&
+          rating.timestamp - dose.timestamp <= CALIBRATION_WINDOW_HOURS * hourMs
+      ),
+    }))
+    .filter(sample => sample.doses.length > 0);
+
+  if (samples.length < MIN_CALIBRATION_SAMPLES) return null;
+
+  const scores = samples.map(sample => sample.rating.score);
+  const scoreFor = (kinetics: CompoundKinetics) =>
+    correlation(
+      samples.map(sample => concentrationAt(sample.rating.timestamp, kinetics, sample.doses)),
+      scores
+    );
+
+  const fitFor = (halfLifeHours: number, tmaxHours: number) =>
+    kineticsFromProfile(
+      {
+        halfLifeHours,
+        tmaxHours,
+        bioavailability: defaultKinetics.bioavailability,
+        formulation: defaultKinetics.formulation,
+      },
+      defaultKinetics
+    );
+
+  let best = { halfLifeHours: HALF_LIFE_GRID[0], tmaxHours: TMAX_GRID[0], r: -Infinity };
+  for (const halfLifeHours of HALF_LIFE_GRID) {
+    for (const tmaxHours of TMAX_GRID) {
+      const r = scoreFor(fitFor(halfLifeHours, tmaxHours));
+      if (r > best.r) best = { halfLifeHours, tmaxHours, r };
+    }
+  }
+
+  const kinetics = fitFor(best.halfLifeHours, best.tmaxHours);
+  // Onset follows the fitted absorption rate (inverse of the onset heuristic)
+  kinetics.onsetMinutes = ((3 * Math.log(2)) / resolveRateConstants(kinetics).ka) * 60;
+
+  return {
+    kinetics,
+    halfLifeHours: best.halfLifeHours,
+    tmaxHours: best.tmaxHours,
+    defaultHalfLifeHours: getTerminalHalfLife(defaultKinetics),
+    defaultTmaxHours: getTmaxHours(defaultKinetics),
+    sampleCount: samples.length,
+    correlation: best.r,
+    defaultCorrelation: scoreFor(defaultKinetics),
+    confidence: confidenceFor(samples.length, best.r),
+  };
+}
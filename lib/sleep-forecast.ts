@@ -0,0 +1,148 @@
+import type { Compound, LogEntry } from './types';
+import { concentrationAt, getDoseScale, type TimedDose } from './pharmacokinetics';
+import { getCompoundDoses, resolveCompoundKinetics } from './compound-kinetics';
+import { getEffectVector } from './pharmacodynamics';
+import { findLibraryCompound } from './compound-library';
+import { addDays, getDeviceTimeZone, toLocalDateString, zonedTimestamp } from './dates';
+
+/**
+ * Sleep-Impact Forecast
+ *
+ * Projects the stimulation and sedation axes (see lib/pharmacodynamics) over
+ * the first hours after bedtime, from the dosing history plus any doses about
+ * to be logged. Loads are in default doses at peak, like the Neuro-Curve.
+ */
+
+export const DEFAULT_BEDTIME = '23:00';
+
+/** Net stimulation at sleep onset above which sleep is likely disrupted */
+export const STIMULANT_RESIDUAL_THRESHOLD = 0.25;
+
+/** Net sedation at sleep onset above which sedatives are stacking up */
+export const SEDATIVE_RESIDUAL_THRESHOLD = 1.5;
+
+/** Hours after bedtime that count as sleep onset */
+const SLEEP_ONSET_HOURS = 2;
+
+/** Sampling step across the sleep-onset window, in minutes */
+const STEP_MINUTES = 15;
+
+/** A dose that is about to be logged */
+export interface PlannedDose {
+  compoundId: string;
+  dose: number;
+  timestamp: number;
+}
+
+export interface SleepForecastContributor {
+  compoundId: string;
+  name: string;
+  stimulation: number;
+  sedation: number;
+  /** The library marks the compound as a daytime compound */
+  daytimeOnly: boolean;
+}
+
+export interface SleepForecast {
+  /** Start of the forecast window (ms since epoch) */
+  bedtime: number;
+  /** Highest net stimulation during sleep onset */
+  stimulantLoad: number;
+  /** Highest net sedation during sleep onset */
+  sedativeLoad: number;
+  contributors: SleepForecastContributor[];
+  disruptsSleep: boolean;
+  excessSedation: boolean;
+}
+
+/**
+ * Bedtime that ends the current waking day
+ *
+ * Takes the first "HH:MM" at or after four hours ago, so logging shortly after
+ * bedtime still refers to tonight; a bedtime already passed is treated as now.
+ * The clock time is read in `timeZone` (the device's by default).
+ */
+export function getUpcomingBedtime(
+  bedtime: string,
+  from: number = Date.now(),
+  timeZone: string = getDeviceTimeZone()
+): number {
+  const earliest = from - 4 * 60 * 60 * 1000;
+  const day = toLocalDateString(earliest, timeZone);
+  let candidate = zonedTimestamp(day, bedtime, timeZone);
+  if (candidate < earliest) {
+    candidate = zonedTimestamp(addDays(day, 1), bedtime, timeZone);
+  }
+  return Math.max(candidate, from);
+}
+
+/**
+ * Forecast residual stimulant and sedative load at bedtime
+ *
+ * @param compounds The user's pharmacy
+ * @param logEntries Logged history (earlier doses carry over)
+ * @param planned Doses about to be logged
+ * @param bedtime Bedtime as "HH:MM" local time
+ * @param now Reference time (default: now)
+ * @param timeZone Zone the bedtime is in (default: the device's)
+ */
+export function forecastSleepImpact(
+  compounds: Compound[],
+  logEntries: LogEntry[],
+  planned: PlannedDose[],
+  bedtime: string,
+  now: number = Date.now(),
+  timeZone?: string
+): SleepForecast {
+  const start = getUpcomingBedtime(bedtime, now, timeZone);
+  const samples = Array.from(
+    { length: (SLEEP_ONSET_HOURS * 60) / STEP_MINUTES + 1 },
+    (_, i) => start + i * STEP_MINUTES * 60 * 1000
+  );
+
+  const series = compounds
+    .map(compound => {
+      const doses: TimedDose[] = [
+        ...getCompoundDoses(compound, logEntries),
+        ...planned
+          .filter(dose => dose.compoundId === compound.id && dose.dose > 0)
+          .map(dose => ({
+            timestamp: dose.timestamp,
+            doseScale: getDoseScale(dose.dose, compound.defaultDose),
+          })),
+      ];
+      const kinetics = resolveCompoundKinetics(compound);
+      return {
+        compound,
+        effects: getEffectVector(compound),
+        levels: samples.map(timestamp => concentrationAt(timestamp, kinetics, doses)),
+      };
+    })
+    .filter(({ levels, effects }) => levels.some(level => level >= 0.05) && (effects.stimulation !== 0 || effects.sedation !== 0));
+
+  const axisLoad = (axis: 'stimulation' | 'sedation') =>
+    samples.map((_, i) => series.reduce((sum, s) => sum + s.levels[i] * s.effects[axis], 0));
+  const stimulation = axisLoad('stimulation');
+  const sedation = axisLoad('sedation');
+  const stimulantLoad = Math.max(0, ...stimulation);
+  const sedativeLoad = Math.max(0, ...sedation);
+
+  // Attribute at the moment each axis peaks
+  const stimulationPeak = stimulation.indexOf(Math.max(...stimulation));
+  const sedationPeak = sedation.indexOf(Math.max(...sedation));
+
+  return {
+    bedtime: start,
+    stimulantLoad,
+    sedativeLoad,
+    contributors: series.map(({ compound, effects, levels }) => ({
+      compoundId: compound.id,
+      name: compound.name,
+      stimulation: levels[stimulationPeak] * effects.stimulation,
+      sedation: levels[sedationPeak] * effects.sedation,
+      daytimeOnly: /daytime/i.test(findLibraryCompound(compound)?.daytimeNighttime ?? ''),
+    })),
+    disruptsSleep: stimulantLoad > STIMULANT_RESIDUAL_THRESHOLD,
+    excessSedation: sedativeLoad > SEDATIVE_RESIDUAL_THRESHOLD,
+  };
+}
@@ -0,0 +1,206 @@
+import type { Compound } from './types';
+import type { CompoundDetail } from './compound-types';
+import type { TimedDose } from './pharmacokinetics';
+import { findLibraryCompound } from './compound-library';
+import { addDays, getDeviceTimeZone, toLocalDateString } from './dates';
+
+/**
+ * Tolerance Model
+ *
+ * Tracks a per-compound tolerance level (0-1) day by day from the dosing
+ * history: each day of use moves the level towards 1 in proportion to the
+ * amount taken, each day off decays it with a recovery half-life. The level
+ * maps to an effective-potency multiplier applied to the compound's effect.
+ */
+
+export type ToleranceRisk = 'high' | 'moderate' | 'low';
+
+export interface ToleranceProfile {
+  risk: ToleranceRisk;
+  /** Fraction of the remaining headroom gained per day of use at the default dose */
+  buildRatePerDay: number;
+  /** Days off for the level to halve */
+  recoveryHalfLifeDays: number;
+  /** Potency lost at full tolerance (0-1) */
+  maxPotencyLoss: number;
+}
+
+export const TOLERANCE_PROFILES: Record<ToleranceRisk, ToleranceProfile> = {
+  high: { risk: 'high', buildRatePerDay: 0.2, recoveryHalfLifeDays: 7, maxPotencyLoss: 0.6 },
+  moderate: { risk: 'moderate', buildRatePerDay: 0.12, recoveryHalfLifeDays: 5, maxPotencyLoss: 0.4 },
+  low: { risk: 'low', buildRatePerDay: 0.06, recoveryHalfLifeDays: 3, maxPotencyLoss: 0.2 },
+};
+
+/** Levels below this count as fully washed out */
+const WASHOUT_LEVEL = 0.05;
+
+/** Levels above this are worth telling the user about */
+const NOTABLE_LEVEL = 0.1;
+
+/** Daily exposure is capped so one huge day can't max out tolerance */
+const MAX_DAILY_EXPOSURE = 2;
+
+export type ToleranceStatus = 'none' | 'building' | 'stable' | 'recovering' | 'washout-complete';
+
+export interface ToleranceState {
+  level: number;
+  potency: number;
+  status: ToleranceStatus;
+  /** Days in a row with use, ending today or yesterday */
+  consecutiveDays: number;
+  daysSinceLastDose: number | null;
+  /** Days off still needed to wash out (0 once complete) */
+  daysToWashout: number;
+  /** Highest level reached in the history */
+  peakLevel: number;
+}
+
+/**
+ * Classify tolerance risk from the library's free-text field
+ * Falls back to the compound's pharmacology when the text is missing or "Unknown".
+ */
+export function classifyToleranceRisk(
+  detail: Pick<CompoundDetail, 'dependenceTolerance' | 'effectType' | 'mechanisticTags'> | undefined
+): ToleranceRisk {
+  const text = (detail?.dependenceTolerance ?? '').toLowerCase();
+  if (/\b(high|severe|significant|strong)\b/.test(text)) return 'high';
+  if (/\b(moderate|medium|some)\b/.test(text)) return 'moderate';
+  if (/\b(low|minimal|none|no|unlikely)\b/.test(text)) return 'low';
+
+  const pharmacology = [detail?.effectType ?? '', ...(detail?.mechanisticTags ?? [])].join(' ').toLowerCase();
+  if (/benzodiazep|opioid|gaba-b|phenibut|barbiturat|z-drug/.test(pharmacology)) return 'high';
+  if (/stimulant|amphetamine|dopamin|gaba|sedative|hypnotic|nicotin/.test(pharmacology)) return 'moderate';
+  return 'low';
+}
+
+/**
+ * Tolerance profile for a pharmacy compound, from its library entry
+ */
+export function getToleranceProfile(compound: Pick<Compound, 'name' | 'libraryId'>): ToleranceProfile {
+  return TOLERANCE_PROFILES[classifyToleranceRisk(findLibraryCompound(compound))];
+}
+
+/**
+ * Effective-potency multiplier for a tolerance level
+ */
+export function getPotency(level: number, profile: ToleranceProfile): number {
+  return 1 - profile.maxPotencyLoss * level;
+}
+
+interface ToleranceDay {
+  /** "YYYY-MM-DD" */
+  date: string;
+  /** Level carried into the day, before that day's doses */
+  levelAtStart: number;
+  used: boolean;
+}
+
+/**
+ * Step the tolerance level through every calendar day in a zone from the
+ * first dose until the day containing `until`
+ */
+function simulateToleranceDays(
+  doses: TimedDose[],
+  profile: ToleranceProfile,
+  until: number,
+  timeZone: string
+): { days: ToleranceDay[]; level: number } {
+  const exposureByDay = new Map<string, number>();
+  doses
+    .filter(dose => dose.timestamp <= until)
+    .forEach(dose => {
+      const day = toLocalDateString(dose.timestamp, timeZone);
+      exposureByDay.set(day, (exposureByDay.get(day) ?? 0) + dose.doseScale);
+    });
+
+  const days: ToleranceDay[] = [];
+  if (exposureByDay.size === 0) return { days, level: 0 };
+
+  const recoveryPerDay = Math.pow(0.5, 1 / profile.recoveryHalfLifeDays);
+  const lastDay = toLocalDateString(until, timeZone);
+  let level = 0;
+
+  for (let day = [...exposureByDay.keys()].sort()[0]; day <= lastDay; day = addDays(day, 1)) {
+    const exposure = Math.min(exposureByDay.get(day) ?? 0, MAX_DAILY_EXPOSURE);
+    days.push({ date: day, levelAtStart: level, used: exposure > 0 });
+    level = exposure > 0
+      ? level + profile.buildRatePerDay * exposure * (1 - level)
+      : level * recoveryPerDay;
+  }
+
+  return { days, level };
+}
+
+/**
+ * Current tolerance for a compound
+ *
+ * @param doses Full dosing history for the compound
+ * @param profile Tolerance profile (see getToleranceProfile)
+ * @param now Reference time (default: now)
+ * @param timeZone Zone whose calendar days count (see getCurrentTimeZone)
+ */
+export function computeToleranceState(
+  doses: TimedDose[],
+  profile: ToleranceProfile,
+  now: number = Date.now(),
+  timeZone: string = getDeviceTimeZone()
+): ToleranceState {
+  const { days, level } = simulateToleranceDays(doses, profile, now, timeZone);
+  const peakLevel = Math.max(level, ...days.map(day => day.levelAtStart));
+
+  const lastUsedIdx = days.map(day => day.used).lastIndexOf(true);
+  const daysSinceLastDose = lastUsedIdx >= 0 ? days.length - 1 - lastUsedIdx : null;
+
+  let consecutiveDays = 0;
+  if (daysSinceLastDose !== null && daysSinceLastDose <= 1) {
+    for (let i = lastUsedIdx; i >= 0 && days[i].used; i--) consecutiveDays++;
+  }
+
+  const daysToWashout = level > WASHOUT_LEVEL
+    ? Math.ceil(Math.log(WASHOUT_LEVEL / level) / Math.log(0.5) * profile.recoveryHalfLifeDays)
+    : 0;
+
+  // Compare with a week ago to tell building from a plateau
+  const weekAgo = days.length > 7 ? days[days.length - 7].levelAtStart : 0;
+
+  let status: ToleranceStatus = 'none';
+  if (daysSinceLastDose !== null && daysSinceLastDose <= 1) {
+    if (level >= NOTABLE_LEVEL) status = level > weekAgo + 0.02 ? 'building' : 'stable';
+  } else if (level >= WASHOUT_LEVEL) {
+    status = 'recovering';
+  } else if (peakLevel >= NOTABLE_LEVEL) {
+    status = 'washout-complete';
+  }
+
+  return {
+    level,
+    potency: getPotency(level, profile),
+    status,
+    consecutiveDays,
+    daysSinceLastDose,
+    daysToWashout,
+    peakLevel,
+  };
+}
+
+/**
+ * Potency multiplier for each day of a window, using the tolerance carried into
+ * that day (a day's own doses take effect from the next day)
+ */
+export function getPotencyByDay(
+  doses: TimedDose[],
+  profile: ToleranceProfile,
+  windowStart: number,
+  days: number,
+  timeZone: string = getDeviceTimeZone()
+): number[] {
+  const windowEnd = windowStart + days * 24 * 60 * 60 * 1000;
+  const { days: history } = simulateToleranceDays(doses, profile, windowEnd - 1, timeZone);
+  const levelByDay = new Map(history.map(day => [day.date, day.levelAtStart]));
+
+  const potencies: number[] = [];
+  for (let i = 0, day = toLocalDateString(windowStart, timeZone); i < days; i++, day = addDays(day, 1)) {
+    potencies.push(getPotency(levelByDay.get(day) ?? 0, profile));
+  }
+  return potencies;
+}
@@ -0,0 +1,87 @@
+import type { AppSettings, TravelPlan } from './types';
+import { daysBetween, getDeviceTimeZone, getTimeZoneOffsetMinutes, toLocalDateString, zonedTimestamp } from './dates';
+
+/**
+ * Travel & Time Zones
+ *
+ * Schedule times are clock times in the home zone. While a trip is on,
+ * they can stay on home time (fixed intervals, e.g. for medication), jump to
+ * the destination's clock, or move towards it by up to an hour a day. Trip
+ * dates are home-zone calendar days; the last day of a trip is its end date.
+ */
+
+export type TravelStrategy = TravelPlan['strategy'];
+
+export const TRAVEL_STRATEGIES: Record<TravelStrategy, { label: string; description: string }> = {
+  home: {
+    label: 'Stay on home time',
+    description: 'Doses keep the same interval; scheduled times are converted to the local clock',
+  },
+  local: {
+    label: 'Switch to local time',
+    description: 'Scheduled times follow the local clock from the first day',
+  },
+  gradual: {
+    label: 'Shift gradually',
+    description: 'Scheduled times move towards the local clock by up to an hour a day',
+  },
+};
+
+export const GRADUAL_SHIFT_MINUTES_PER_DAY = 60;
+
+const DAY_MINUTES = 24 * 60;
+
+export type TravelSettings = Pick<AppSettings, 'homeTimeZone' | 'travel'>;
+
+/**
+ * Whether a trip covers a home-zone date
+ */
+export function isTravelling(travel: TravelPlan | null, date: string): travel is TravelPlan {
+  if (!travel || date < travel.startDate) return false;
+  return !travel.endDate || date <= travel.endDate;
+}
+
+/**
+ * Zone the user is in now: the trip's destination, otherwise the device's
+ */
+export function getCurrentTimeZone(settings: TravelSettings, now: number = Date.now()): string {
+  const homeDate = toLocalDateString(now, settings.homeTimeZone);
+  return isTravelling(settings.travel, homeDate) ? settings.travel.timeZone : getDeviceTimeZone();
+}
+
+/**
+ * Minutes scheduled doses move earlier on a home-zone date (negative: later)
+ */
+export function getScheduleShiftMinutes(settings: TravelSettings, date: string): number {
+  const travel = settings.travel;
+  if (!isTravelling(travel, date) || travel.strategy === 'home') return 0;
+
+  const noon = zonedTimestamp(date, '12:00', settings.homeTimeZone);
+  const difference =
+    getTimeZoneOffsetMinutes(travel.timeZone, noon) - getTimeZoneOffsetMinutes(settings.homeTimeZone, noon);
+  if (travel.strategy === 'local') return difference;
+
+  // Shift the short way round the clock, a step further each day
+  let shortest = difference;
+  if (shortest > DAY_MINUTES / 2) shortest -= DAY_MINUTES;
+  if (shortest < -DAY_MINUTES / 2) shortest += DAY_MINUTES;
+  const step = (daysBetween(travel.startDate, date) + 1) * GRADUAL_SHIFT_MINUTES_PER_DAY;
+  return Math.sign(shortest) * Math.min(Math.abs(shortest), step);
+}
+
+/**
+ * The instant a scheduled clock time falls on, for a home-zone date
+ */
+export function scheduleTimestamp(settings: TravelSettings, date: string, clock: string): number {
+  return zonedTimestamp(date, clock, settings.homeTimeZone) - getScheduleShiftMinutes(settings, date) * 60 * 1000;
+}
+
+/**
+ * Short offset label for a zone, e.g. "GMT+2"
+ */
+export function formatTimeZoneOffset(timeZone: string, at: number = Date.now()): string {
+  const offset = getTimeZoneOffsetMinutes(timeZone, at);
+  const hours = Math.floor(Math.abs(offset) / 60);
+  const minutes = Math.abs(offset) % 60;
+  return `GMT${offset < 0 ? '-' : '+'}${hours}${minutes ? `:${String(minutes).padStart(2, '0')}` : ''}`;
+}
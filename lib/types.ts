@@ -1,12 +1,52 @@
+import type { PharmacokineticProfile } from './compound-types';
+import type { PasscodeType } from './passcode';
+
+export type MassUnit = 'mcg' | 'mg' | 'g';
+export type DoseUnit = MassUnit | 'ml' | 'pills' | 'IU';
+
 // Compound/Supplement in the user's pharmacy
 export interface Compound {
   id: string;
   name: string;
   defaultDose: number;
-  unit: 'mg' | 'ml' | 'g' | 'pills' | 'mcg' | 'IU';
+  unit: DoseUnit;
+  strength?: { amount: number; unit: MassUnit }; // Mass in one unit, e.g. 1 pill = 18 mg (non-mass units only)
   colorHex: string;
   isActive: boolean;
   createdAt: number;
+  libraryId?: string; // CompoundDetail id when added from the library
+  pharmacokinetics?: PharmacokineticProfile; // User-edited PK constants (override the library)
+  inventory?: CompoundInventory; // Supply on hand, when tracked
+  cycle?: CycleProtocol; // On/off cycling, e.g. 3 weeks on, 1 week off
+  limits?: DoseLimits; // Checked before a dose is logged
+}
+
+// Safety limits, in the compound's unit
+export interface DoseLimits {
+  maxDailyDose?: number; // Total per local calendar day
+  minIntervalHours?: number; // Between consecutive doses
+}
+
+// Alternating days on and off, counted from the start date
+export interface CycleProtocol {
+  onDays: number;
+  offDays: number; // Washout
+  startDate: string; // YYYY-MM-DD, first day on
+}
+
+// Stock for a compound, in the compound's unit (pills, ml, mg...)
+export interface CompoundInventory {
+  quantity: number; // Remaining, in the stock unit; decremented by every logged dose
+  unit?: DoseUnit; // Unit stock is counted in, when not the compound's own (e.g. pills of a compound logged in mg)
+  strength?: { amount: number; unit: MassUnit }; // Mass in one stock unit, for non-mass stock units
+  packageSize?: number; // Contents of one package/bottle
+  purchaseDate?: string; // YYYY-MM-DD of the last purchase
+  cost?: number; // Price of one package
+  lowStockDays?: number; // Warn when projected supply drops below this many days
+  prescription?: {
+    refillDate?: string; // YYYY-MM-DD the next refill is due
+    refillsRemaining?: number;
+  };
 }
 
 // Individual dose item in a log entry
@@ -26,37 +66,100 @@ export interface StackPreset {
   }>;
   colorHex: string;
   createdAt: number;
+  cycle?: CycleProtocol; // Applies to every compound in the preset
+}
+
+// When a schedule recurs
+export type ScheduleRecurrence =
+  | { type: 'daily' }
+  | { type: 'weekly'; daysOfWeek: number[] } // 0 = Sunday
+  | { type: 'interval'; everyDays: number } // Every N days from the start date
+  | { type: 'cycle'; daysOn: number; daysOff: number }; // e.g. 5 on / 2 off from the start date
+
+// What a schedule doses: one compound, or every item of a preset
+export type ScheduleTarget =
+  | { type: 'compound'; compoundId: string; dose: number }
+  | { type: 'preset'; presetId: string };
+
+// A planned, recurring dose
+export interface DoseSchedule {
+  id: string;
+  target: ScheduleTarget;
+  timesOfDay: string[]; // Local times "HH:MM"
+  recurrence: ScheduleRecurrence;
+  startDate: string; // YYYY-MM-DD; anchors interval and cycle recurrences
+  endDate?: string; // YYYY-MM-DD, inclusive
+  isActive: boolean;
+  createdAt: number;
 }
 
 // Log entry for a specific time
 export interface LogEntry {
   id: string;
-  date: string; // ISO date string (YYYY-MM-DD)
+  date: string; // Local calendar day (YYYY-MM-DD)
   timestamp: number;
   doseItems: DoseItem[];
   anxiety: number; // 1-10
   functionality: number; // 1-10
   notes: string;
   presetId?: string; // If logged via a preset
+  timeZone?: string; // IANA zone it was logged in; `date` is the calendar day there
+  safetyOverride?: SafetyOverride; // Set when logged despite safety warnings
+  stockDeducted?: Record<string, number>; // Taken out of stock per compound ID, in its stock unit; returned on edit/delete
+}
+
+// Safety warnings the user logged past, and why
+export interface SafetyOverride {
+  issues: string[];
+  note: string;
+}
+
+// One change to the log, with snapshots for review
+export interface LogAuditEvent {
+  id: string;
+  logId: string;
+  action: 'create' | 'update' | 'delete';
+  at: number; // When the change was made
+  before?: LogEntry; // Absent for create
+  after?: LogEntry; // Absent for delete
+}
+
+// A trip away from the home time zone
+export interface TravelPlan {
+  timeZone: string; // Destination (IANA)
+  startDate: string; // YYYY-MM-DD in the home zone
+  endDate?: string; // Last day away, inclusive; open-ended while unset
+  strategy: 'home' | 'local' | 'gradual'; // How dose schedules follow the clock change
 }
 
 export interface AppSettings {
   geminiApiKey: string;
   theme: 'cyberpunk' | 'clinical';
+  bedtime: string; // Local time "HH:MM", used by the sleep-impact forecast
+  wakeTime: string; // Local time "HH:MM", start of the day for the dose planner
+  autoLockMinutes: number; // Lock after this long idle or in the background (0 = never)
+  homeTimeZone: string; // IANA zone dose schedule times refer to
+  travel: TravelPlan | null;
+  interactionWindowHours: number; // Doses this recent are checked for dangerous combinations
 }
 
 export interface AppState {
-  pin: string | null;
+  hasPin: boolean; // The PIN itself is only kept as a salted hash in the vault
   isAuthenticated: boolean;
   compounds: Compound[];
   stackPresets: StackPreset[];
   logEntries: LogEntry[];
+  logAudit: LogAuditEvent[];
+  schedules: DoseSchedule[];
   settings: AppSettings;
+  migrationError: string | null; // Set when stored data couldn't be upgraded on unlock; not persisted
   
   // Auth Actions
-  setPin: (pin: string) => void;
-  authenticate: (pin: string) => boolean;
+  setPin: (pin: string, passcodeType?: PasscodeType) => Promise<void>;
+  authenticate: (pin: string) => Promise<boolean>;
+  changePin: (currentPin: string, newPin: string, passcodeType?: PasscodeType) => Promise<boolean>;
   logout: () => void;
+  dismissMigrationError: () => void;
   
   // Compound Actions
   addCompound: (compound: Omit<Compound, 'id' | 'createdAt'>) => void;
@@ -68,23 +171,40 @@ export interface AppState {
   updatePreset: (id: string, preset: Partial<StackPreset>) => void;
   deletePreset: (id: string) => void;
   
+  // Schedule Actions
+  addSchedule: (schedule: Omit<DoseSchedule, 'id' | 'createdAt'>) => void;
+  updateSchedule: (id: string, schedule: Partial<DoseSchedule>) => void;
+  deleteSchedule: (id: string) => void;
+
   // Log Actions
-  addLog: (log: Omit<LogEntry, 'id' | 'timestamp'>) => void;
+  addLog: (log: Omit<LogEntry, 'id' | 'timestamp' | 'stockDeducted'> & { timestamp?: number }) => void; // Defaults to now
   updateLog: (id: string, log: Partial<LogEntry>) => void;
   deleteLog: (id: string) => void;
-  logPreset: (presetId: string, anxiety: number, functionality: number, notes?: string) => void;
+  logPreset: (
+    presetId: string,
+    anxiety: number,
+    functionality: number,
+    notes?: string,
+    safetyOverride?: SafetyOverride
+  ) => void;
   
   // Data Management
   importData: (data: Partial<{
     compounds: Compound[];
     stackPresets: StackPreset[];
     logEntries: LogEntry[];
+    logAudit: LogAuditEvent[];
+    schedules: DoseSchedule[];
     settings: AppSettings;
   }>) => void;
   exportData: () => {
+    version: number; // Storage schema version
+    exportedAt: number;
     compounds: Compound[];
     stackPresets: StackPreset[];
     logEntries: LogEntry[];
+    logAudit: LogAuditEvent[];
+    schedules: DoseSchedule[];
     settings: AppSettings;
   };
   updateSettings: (settings: Partial<AppSettings>) => void;
@@ -0,0 +1,91 @@
+import type { Compound, DoseUnit, MassUnit } from './types';
+
+/**
+ * Dose Units
+ *
+ * Doses are logged in the compound's own unit. Mass units convert directly;
+ * count and volume units (pills, ml) and IU only convert through the
+ * compound's strength ("1 pill = 18 mg"). Everything normalises to
+ * milligrams, and amounts that can't be converted are kept apart rather than
+ * added to masses.
+ */
+
+export const CANONICAL_UNIT: MassUnit = 'mg';
+
+const MG_PER_UNIT: Record<MassUnit, number> = {
+  mcg: 0.001,
+  mg: 1,
+  g: 1000,
+};
+
+export const MASS_UNITS = Object.keys(MG_PER_UNIT) as MassUnit[];
+
+export const DOSE_UNITS: DoseUnit[] = ['mg', 'ml', 'g', 'pills', 'mcg', 'IU'];
+
+export function isMassUnit(unit: DoseUnit): unit is MassUnit {
+  return unit in MG_PER_UNIT;
+}
+
+/**
+ * A dose in milligrams, or null when the compound's unit has no known mass
+ */
+export function toMilligrams(compound: Pick<Compound, 'unit' | 'strength'>, dose: number): number | null {
+  if (isMassUnit(compound.unit)) return dose * MG_PER_UNIT[compound.unit];
+  if (compound.strength) return dose * compound.strength.amount * MG_PER_UNIT[compound.strength.unit];
+  return null;
+}
+
+/**
+ * A dose of `from` expressed in `to`'s unit: as is when the units match,
+ * otherwise through milligrams. Null when either side has no known mass.
+ */
+export function convertDose(
+  from: Pick<Compound, 'unit' | 'strength'>,
+  to: Pick<Compound, 'unit' | 'strength'>,
+  dose: number
+): number | null {
+  if (from.unit === to.unit) return dose;
+  const milligrams = toMilligrams(from, dose);
+  const milligramsPerUnit = toMilligrams(to, 1);
+  return milligrams !== null && milligramsPerUnit ? milligrams / milligramsPerUnit : null;
+}
+
+/**
+ * Express milligrams in the most readable mass unit
+ */
+export function formatMass(milligrams: number): string {
+  if (milligrams >= 1000) return `${Number((milligrams / 1000).toFixed(2))} g`;
+  if (milligrams > 0 && milligrams < 1) return `${Number((milligrams * 1000).toFixed(1))} mcg`;
+  return `${Number(milligrams.toFixed(1))} mg`;
+}
+
+export interface DoseTotals {
+  /** Everything that converts to mass */
+  milligrams: number;
+  /** Amounts without a known mass, per unit */
+  unconverted: Partial<Record<DoseUnit, number>>;
+  /** Number of doses left out of the mass total */
+  unconvertedCount: number;
+}
+
+/**
+ * Add up doses, summing only amounts that share a unit
+ */
+export function sumDoses(
+  compounds: Compound[],
+  doseItems: Array<{ compoundId: string; dose: number }>
+): DoseTotals {
+  const totals: DoseTotals = { milligrams: 0, unconverted: {}, unconvertedCount: 0 };
+  doseItems.forEach(item => {
+    const compound = compounds.find(c => c.id === item.compoundId);
+    if (!compound) return;
+    const milligrams = toMilligrams(compound, item.dose);
+    if (milligrams !== null) {
+      totals.milligrams += milligrams;
+    } else {
+      totals.unconverted[compound.unit] = (totals.unconverted[compound.unit] ?? 0) + item.dose;
+      totals.unconvertedCount++;
+    }
+  });
+  return totals;
+}
@@ -2,10 +2,20 @@
 /**
  * Parse CSV compound data and generate JSON index for the app
  * This script runs at build time to create a searchable compound database
+ *
+ * The master sheet, the balanced-efficacy sheet and the common-compounds list are
+ * merged into one library: records are deduplicated by normalized name or alias,
+ * each field comes from the highest-precedence source that has it, and every
+ * disagreement between sources is written to a conflict report.
  */
 
 const fs = require('fs');
 const path = require('path');
+const { createJiti } = require('jiti');
+
+// Timing strings are parsed by the same TypeScript module the app uses
+const jiti = createJiti(__filename);
+const { parseOnsetPeakDuration } = jiti('../lib/onset-parser.ts');
 
 // Parse CSV line handling quoted fields
 function parseCSVLine(line) {
@@ -37,56 +47,126 @@ function parseCSVLine(line) {
   return result;
 }
 
-// Parse onset/peak/duration string into structured data
-function parseOnsetPeakDuration(raw) {
-  const result = { raw };
+// Parse an optional positive number (empty cells become undefined)
+function parseOptionalNumber(value) {
+  const number = parseFloat(value);
+  return Number.isFinite(number) && number > 0 ? number : undefined;
+}
+
+// Formulation values understood by the engine (see Formulation in lib/compound-types.ts)
+const FORMULATIONS = ['IR', 'XR', 'biphasic', 'transdermal', 'sublingual'];
+
+// Match a formulation cell case-insensitively, warning about unknown values
+function parseFormulation(value, compound) {
+  if (!value) return undefined;
+  const formulation = FORMULATIONS.find(f => f.toLowerCase() === value.trim().toLowerCase());
+  if (!formulation) {
+    console.warn(`Unknown formulation "${value}" for ${compound}, ignoring`);
+  }
+  return formulation;
+}
+
+// Load structured PK constants keyed by normalized compound name
+function loadPharmacokineticProfiles(csvPath) {
+  const profiles = new Map();
   
-  if (!raw || raw === 'N/A') {
-    return result;
+  if (!fs.existsSync(csvPath)) {
+    return profiles;
   }
   
-  // Format: "onset / peak / duration"
-  // Example: "30-60m / 2-4h / 3-6h"
-  // Example: "1-2 weeks for full effect / N/A / 24h"
-  const parts = raw.split('/').map(p => p.trim());
-  
-  if (parts.length >= 1) {
-    const onsetStr = parts[0];
-    const onsetMatch = onsetStr.match(/(\d+)-?(\d+)?([mh])/);
-    if (onsetMatch) {
-      const unit = onsetMatch[3];
-      const multiplier = unit === 'h' ? 60 : 1;
-      result.onsetMin = parseInt(onsetMatch[1]) * multiplier;
-      result.onsetMax = onsetMatch[2] ? parseInt(onsetMatch[2]) * multiplier : result.onsetMin;
-    }
+  const lines = fs.readFileSync(csvPath, 'utf-8').split('\n').filter(line => line.trim());
+  const headers = parseCSVLine(lines[0]);
+  
+  for (let i = 1; i < lines.length; i++) {
+    const values = parseCSVLine(lines[i]);
+    const row = {};
+    headers.forEach((header, idx) => {
+      row[header] = values[idx] || '';
+    });
+    
+    const profile = {
+      halfLifeHours: parseOptionalNumber(row['Half-life (h)']),
+      tmaxHours: parseOptionalNumber(row['Tmax (h)']),
+      bioavailability: parseOptionalNumber(row['Bioavailability']),
+      formulation: parseFormulation(row['Formulation'], row['Compound']),
+      source: row['Source'] || undefined,
+    };
+    
+    // Drop empty fields so the JSON only carries known values
+    Object.keys(profile).forEach(key => profile[key] === undefined && delete profile[key]);
+    
+    profiles.set(normalizeForSearch(row['Compound']), profile);
   }
   
-  if (parts.length >= 2) {
-    const peakStr = parts[1];
-    const peakMatch = peakStr.match(/(\d+)-?(\d+)?([mh])/);
-    if (peakMatch) {
-      const unit = peakMatch[3];
-      const multiplier = unit === 'h' ? 60 : 1;
-      const peakMinValue = parseInt(peakMatch[1]) * multiplier;
-      result.peakMin = peakMinValue;
-      result.peakMax = peakMatch[2] ? parseInt(peakMatch[2]) * multiplier : peakMinValue;
-    }
+  console.log(`Loaded ${profiles.size} pharmacokinetic profiles`);
+  return profiles;
+}
+
+// Find a PK profile for a compound by its name or any alias
+function findPharmacokineticProfile(profiles, name, aliases) {
+  for (const candidate of [name, ...aliases]) {
+    const profile = profiles.get(normalizeForSearch(candidate));
+    if (profile) return profile;
+  }
+  return undefined;
+}
+
+// Interaction severities understood by the app (see InteractionSeverity in lib/compound-types.ts)
+const INTERACTION_SEVERITIES = ['none', 'minor', 'moderate', 'major'];
+
+// Load pairwise drug-drug interactions, linking each side to a library compound by name or alias
+function loadInteractions(csvPath, compounds) {
+  if (!fs.existsSync(csvPath)) {
+    return [];
   }
   
-  if (parts.length >= 3) {
-    const durationStr = parts[2];
-    const durationMatch = durationStr.match(/(\d+)-?(\d+)?([mhd])/);
-    if (durationMatch) {
-      const unit = durationMatch[3];
-      let multiplier = 1;
-      if (unit === 'h') multiplier = 60;
-      if (unit === 'd') multiplier = 60 * 24;
-      result.durationMin = parseInt(durationMatch[1]) * multiplier;
-      result.durationMax = durationMatch[2] ? parseInt(durationMatch[2]) * multiplier : result.durationMin;
+  const libraryIds = new Map();
+  compounds.forEach(compound => {
+    [compound.name, ...compound.aliases].forEach(name => {
+      const key = normalizeForSearch(name);
+      if (!libraryIds.has(key)) libraryIds.set(key, compound.id);
+    });
+  });
+  
+  const toParty = name => {
+    const libraryId = libraryIds.get(normalizeForSearch(name));
+    return libraryId ? { name, libraryId } : { name };
+  };
+  
+  const lines = fs.readFileSync(csvPath, 'utf-8').split('\n').filter(line => line.trim());
+  const headers = parseCSVLine(lines[0]);
+  const interactions = [];
+  
+  for (let i = 1; i < lines.length; i++) {
+    const values = parseCSVLine(lines[i]);
+    const row = {};
+    headers.forEach((header, idx) => {
+      row[header] = values[idx] || '';
+    });
+    
+    if (!row['Compound A'] || !row['Compound B']) {
+      console.warn(`Skipping interaction row ${i + 1}: missing compound`);
+      continue;
+    }
+    
+    const severity = row['Severity'].toLowerCase();
+    if (!INTERACTION_SEVERITIES.includes(severity)) {
+      console.warn(`Unknown severity "${row['Severity']}" for ${row['Compound A']} + ${row['Compound B']}, skipping`);
+      continue;
     }
+    
+    interactions.push({
+      compoundA: toParty(row['Compound A']),
+      compoundB: toParty(row['Compound B']),
+      severity,
+      mechanism: row['Mechanism'],
+      ...(row['Source'] && { source: row['Source'] }),
+    });
   }
   
-  return result;
+  const unlinked = interactions.filter(i => !i.compoundA.libraryId || !i.compoundB.libraryId).length;
+  console.log(`Loaded ${interactions.length} interactions (${unlinked} with a compound outside the library)`);
+  return interactions;
 }
 
 // Generate category tags from effect type and mechanistic tags
@@ -158,109 +238,323 @@ function generateSearchTerms(name, aliases) {
   return Array.from(terms);
 }
 
-// Main processing function
-function processCSV(csvPath) {
-  const csvContent = fs.readFileSync(csvPath, 'utf-8');
-  const lines = csvContent.split('\n').filter(line => line.trim());
+// Read a CSV file into one object per row, keyed by header
+function readCSVRows(csvPath) {
+  const lines = fs.readFileSync(csvPath, 'utf-8').split('\n').filter(line => line.trim());
   
   if (lines.length === 0) {
-    throw new Error('CSV file is empty');
+    throw new Error(`CSV file is empty: ${csvPath}`);
   }
   
-  // Parse header
   const headers = parseCSVLine(lines[0]);
-  console.log(`Found ${headers.length} columns:`, headers);
+  const rows = [];
   
-  const compounds = [];
-  const searchIndex = [];
-  
-  // Parse data rows
   for (let i = 1; i < lines.length; i++) {
     const values = parseCSVLine(lines[i]);
     
     if (values.length < headers.length) {
-      console.warn(`Skipping row ${i + 1}: insufficient columns`);
+      console.warn(`Skipping ${path.basename(csvPath)} row ${i + 1}: insufficient columns`);
       continue;
     }
     
-    // Map values to object
     const row = {};
     headers.forEach((header, idx) => {
       row[header] = values[idx];
     });
+    rows.push(row);
+  }
+  
+  return rows;
+}
+
+// Compound data sources, highest precedence first (see CompoundDataSource in lib/compound-types.ts)
+const SOURCE_PRECEDENCE = ['master', 'balanced-1', 'balanced-2', 'common'];
+
+// The master sheet's score, fit, risk and timing columns hold the same defaults (5, 6, Either,
+// Unknown, blank) on every row it didn't import from a balanced-efficacy sheet, so those sheets win there
+const PROFILE_PRECEDENCE = ['balanced-1', 'balanced-2', 'master', 'common'];
+
+const FIELD_PRECEDENCE = {
+  mechanisticTags: PROFILE_PRECEDENCE,
+  acuteEffect: PROFILE_PRECEDENCE,
+  onset: PROFILE_PRECEDENCE,
+  recreational: PROFILE_PRECEDENCE,
+  dependenceTolerance: PROFILE_PRECEDENCE,
+  daytimeNighttime: PROFILE_PRECEDENCE,
+  evidenceSummary: PROFILE_PRECEDENCE,
+  efficacyScore: PROFILE_PRECEDENCE,
+  safetyScore: PROFILE_PRECEDENCE,
+};
+
+// Fields merged across sources, each tracked in the compound's provenance
+const MERGED_FIELDS = [
+  'name',
+  'effectType',
+  'primaryEffects',
+  'mechanism',
+  'mechanisticTags',
+  'acuteEffect',
+  'onset',
+  'recreational',
+  'dependenceTolerance',
+  'daytimeNighttime',
+  'evidenceStrength',
+  'evidenceSummary',
+  'efficacyScore',
+  'safetyScore',
+  'fdaApproved',
+  'defaultDosage',
+];
+
+// Alias cells that don't name anything
+const ALIAS_PLACEHOLDERS = ['multiple', 'generic', 'n/a', 'none'];
+
+// Split a list cell; commas inside chemical names ("7,8-DHF") have no space after them
+function splitList(value, separator) {
+  if (!value) return [];
+  const pattern = separator === ',' ? /,\s+(?![^()]*\))/ : separator;
+  return value
+    .split(pattern)
+    .map(item => item.trim())
+    .filter(item => item && !ALIAS_PLACEHOLDERS.includes(item.toLowerCase()));
+}
+
+// One compound row from a compound sheet, as raw strings
+function fromSheetRow(row, source, separator) {
+  return {
+    source,
+    name: row['Compound'],
+    aliases: splitList(row['Also listed as / alias'], separator),
+    fields: {
+      name: row['Compound'],
+      effectType: row['Effect type'],
+      primaryEffects: row['Primary effects (summary)'],
+      mechanism: row['Mechanism (short)'],
+      mechanisticTags: splitList(row['Mechanistic Tags'], separator),
+      acuteEffect: row['Acute effect after one dose?'],
+      onset: row['Onset/Peak/Duration'],
+      recreational: row['Recreational?'],
+      dependenceTolerance: row['Dependence/Tolerance Risk'],
+      daytimeNighttime: row['Daytime vs. Nighttime Fit'],
+      evidenceStrength: row['Evidence Strength'],
+      evidenceSummary: row['Evidence Summary'],
+      efficacyScore: row['Efficacy Score'],
+      safetyScore: row['Safety Score'],
+      fdaApproved: row['FDA Approved'],
+    },
+  };
+}
+
+// The master sheet separates aliases and tags with commas; its Source column marks rows copied from
+// the second balanced-efficacy sheet
+function loadMasterSheet(csvPath) {
+  return readCSVRows(csvPath).map(row =>
+    fromSheetRow(row, row['Source'] === 'nootropics-complete-2-BALANCED-EFFICACY' ? 'balanced-2' : 'master', ',')
+  );
+}
+
+// The balanced-efficacy sheet separates aliases and tags with pipes
+function loadBalancedSheet(csvPath) {
+  return readCSVRows(csvPath).map(row => fromSheetRow(row, 'balanced-1', '|'));
+}
+
+// The common-compounds list has a category slug, a dosage range and notes
+function loadCommonCompounds(jsonPath) {
+  return JSON.parse(fs.readFileSync(jsonPath, 'utf-8')).map(entry => ({
+    source: 'common',
+    name: entry.name,
+    aliases: [],
+    fields: {
+      name: entry.name,
+      effectType: entry.category
+        ? entry.category.charAt(0).toUpperCase() + entry.category.slice(1).replace(/-/g, ' ')
+        : '',
+      primaryEffects: entry.notes,
+      defaultDosage: entry.defaultDosage,
+    },
+  }));
+}
+
+const isEmptyValue = value => value === undefined || value === null || value === '' || (Array.isArray(value) && value.length === 0);
+
+// Value as compared for conflicts: case, punctuation and "7.0" vs "7" don't count as disagreement
+function comparableValue(value) {
+  if (Array.isArray(value)) return value.map(normalizeForSearch).sort().join('|');
+  const number = Number(value);
+  if (value.trim() !== '' && Number.isFinite(number)) return String(number);
+  return normalizeForSearch(value);
+}
+
+// Group records naming the same compound: a record joins a group whose names include its name or
+// one of its aliases, or whose aliases include its name. Alias-to-alias matches aren't enough, as
+// brand names and research codes are shared between related compounds.
+function groupRecords(records, conflicts) {
+  const groups = [];
+  const byName = new Map();
+  const byAlias = new Map();
+  
+  records.forEach(record => {
+    const nameKey = normalizeForSearch(record.name);
+    const aliasKeys = record.aliases.map(normalizeForSearch).filter(Boolean);
+    const matches = Array.from(
+      new Set([byName.get(nameKey), byAlias.get(nameKey), ...aliasKeys.map(key => byName.get(key))].filter(Boolean))
+    );
+    let group = matches[0];
+    
+    if (matches.length > 1) {
+      conflicts.push({
+        type: 'ambiguous-match',
+        compound: record.name,
+        source: record.source,
+        matches: matches.map(match => match.records[0].name),
+        chosen: group.records[0].name,
+      });
+    }
+    
+    if (!group) {
+      group = { records: [] };
+      groups.push(group);
+    }
+    group.records.push(record);
+    if (!byName.has(nameKey)) byName.set(nameKey, group);
+    aliasKeys.forEach(key => {
+      if (!byAlias.has(key)) byAlias.set(key, group);
+    });
+  });
+  
+  return groups;
+}
+
+// Merge one group into a single set of fields, recording where each came from and any disagreement
+function mergeGroup(group, conflicts) {
+  const fields = {};
+  const provenance = {};
+  
+  MERGED_FIELDS.forEach(field => {
+    const precedence = FIELD_PRECEDENCE[field] || SOURCE_PRECEDENCE;
+    const candidates = group.records
+      .filter(record => !isEmptyValue(record.fields[field]))
+      .sort((a, b) => precedence.indexOf(a.source) - precedence.indexOf(b.source));
+    if (candidates.length === 0) return;
     
-    // Generate unique ID
-    const id = row['Compound'].toLowerCase().replace(/[^a-z0-9]/g, '-');
+    const [chosen, ...others] = candidates;
+    fields[field] = chosen.fields[field];
+    provenance[field] = chosen.source;
     
-    // Parse aliases
-    const aliases = row['Also listed as / alias'] 
-      ? row['Also listed as / alias'].split('|').map(a => a.trim()).filter(a => a)
-      : [];
+    const disagreeing = others.filter(
+      record => comparableValue(record.fields[field]) !== comparableValue(chosen.fields[field])
+    );
+    if (disagreeing.length > 0) {
+      conflicts.push({
+        type: 'field',
+        compound: chosen.fields.name || group.records[0].name,
+        field,
+        chosen: { source: chosen.source, value: chosen.fields[field] },
+        others: disagreeing.map(record => ({ source: record.source, value: record.fields[field] })),
+      });
+    }
+  });
+  
+  // Aliases are the union, minus anything that is already the name
+  const nameKey = normalizeForSearch(fields.name);
+  const aliases = new Map();
+  group.records
+    .sort((a, b) => SOURCE_PRECEDENCE.indexOf(a.source) - SOURCE_PRECEDENCE.indexOf(b.source))
+    .forEach(record => {
+      [record.name, ...record.aliases].forEach(alias => {
+        const key = normalizeForSearch(alias);
+        if (key && key !== nameKey && !aliases.has(key)) aliases.set(key, alias);
+      });
+    });
+  
+  const sources = SOURCE_PRECEDENCE.filter(source => group.records.some(record => record.source === source));
+  return { fields, aliases: Array.from(aliases.values()), provenance: { sources, fields: provenance } };
+}
+
+// Main processing function
+function buildCompounds(records, pkProfiles) {
+  const conflicts = [];
+  const groups = groupRecords(records, conflicts);
+  const compounds = [];
+  const searchIndex = [];
+  const ids = new Set();
+  
+  groups.forEach(group => {
+    const { fields, aliases, provenance } = mergeGroup(group, conflicts);
+    
+    // Generate unique ID
+    const id = fields.name.toLowerCase().replace(/[^a-z0-9]/g, '-');
+    if (ids.has(id)) {
+      console.warn(`Duplicate compound id "${id}" after merging, skipping ${fields.name} from ${provenance.sources.join(', ')}`);
+      return;
+    }
+    ids.add(id);
     
-    // Parse mechanistic tags
-    const mechanisticTags = row['Mechanistic Tags']
-      ? row['Mechanistic Tags'].split('|').map(t => t.trim()).filter(t => t)
-      : [];
+    const mechanisticTags = fields.mechanisticTags || [];
     
     // Parse onset/peak/duration
-    const onset = parseOnsetPeakDuration(row['Onset/Peak/Duration']);
+    const onset = parseOnsetPeakDuration(fields.onset || '');
+    
+    // Attach measured PK constants when available
+    const pharmacokinetics = findPharmacokineticProfile(pkProfiles, fields.name, aliases);
     
     // Generate category tags
-    const categoryTags = generateCategoryTags(row['Effect type'], mechanisticTags);
+    const categoryTags = generateCategoryTags(fields.effectType || '', mechanisticTags);
     
     // Build compound detail object
     const compound = {
       id,
-      name: row['Compound'],
+      name: fields.name,
       aliases,
-      effectType: row['Effect type'],
-      primaryEffects: row['Primary effects (summary)'],
-      mechanism: row['Mechanism (short)'],
+      effectType: fields.effectType || '',
+      primaryEffects: fields.primaryEffects || '',
+      mechanism: fields.mechanism || '',
       mechanisticTags,
-      acuteEffect: row['Acute effect after one dose?'] === 'Yes',
+      acuteEffect: /^yes\b/i.test(fields.acuteEffect || ''),
       onset,
-      recreational: row['Recreational?'],
-      dependenceTolerance: row['Dependence/Tolerance Risk'],
-      daytimeNighttime: row['Daytime vs. Nighttime Fit'],
-      interactions: {
-        voxra: row['Voxra (Bupropion) Interaction'] || '',
-        ssri: row['SSRI (Escitalopram 10mg) Interaction'] || '',
-      },
+      ...(pharmacokinetics && { pharmacokinetics }),
+      recreational: fields.recreational || '',
+      dependenceTolerance: fields.dependenceTolerance || '',
+      daytimeNighttime: fields.daytimeNighttime || '',
       evidence: {
-        strength: row['Evidence Strength'] || '',
-        summary: row['Evidence Summary'] || '',
+        strength: fields.evidenceStrength || '',
+        summary: fields.evidenceSummary || '',
       },
-      efficacyScore: parseFloat(row['Efficacy Score']) || 0,
-      safetyScore: parseFloat(row['Safety Score']) || 0,
+      efficacyScore: parseFloat(fields.efficacyScore) || 0,
+      safetyScore: parseFloat(fields.safetyScore) || 0,
+      ...(fields.fdaApproved && { fdaApproved: fields.fdaApproved }),
+      ...(fields.defaultDosage && { defaultDosage: fields.defaultDosage }),
       categoryTags,
+      provenance,
     };
     
     compounds.push(compound);
     
     // Build search index entry
-    const indexEntry = {
+    searchIndex.push({
       id,
-      name: row['Compound'],
+      name: fields.name,
       aliases,
-      searchTerms: generateSearchTerms(row['Compound'], aliases),
-      effectType: row['Effect type'],
+      searchTerms: generateSearchTerms(fields.name, aliases),
+      effectType: compound.effectType,
       categoryTags,
-    };
-    
-    searchIndex.push(indexEntry);
-  }
+    });
+  });
   
-  console.log(`Processed ${compounds.length} compounds`);
+  const merged = groups.filter(group => group.records.length > 1).length;
+  console.log(`Merged ${records.length} source records into ${compounds.length} compounds (${merged} listed in more than one source)`);
   
-  return { compounds, searchIndex };
+  return { compounds, searchIndex, conflicts };
 }
 
 // Main execution
 try {
-  // Check for master compound database first, fallback to original
-  const masterCsvPath = path.join(__dirname, '..', 'data', 'compounds-master.csv');
-  const originalCsvPath = path.join(__dirname, '..', 'data', 'nootropics-complete-1-BALANCED-EFFICACY.csv');
-  const csvPath = fs.existsSync(masterCsvPath) ? masterCsvPath : originalCsvPath;
+  const dataDir = path.join(__dirname, '..', 'data');
+  const masterCsvPath = path.join(dataDir, 'compounds-master.csv');
+  const balancedCsvPath = path.join(dataDir, 'nootropics-complete-1-BALANCED-EFFICACY.csv');
+  const commonJsonPath = path.join(dataDir, 'common-compounds.json');
+  const pkCsvPath = path.join(dataDir, 'pharmacokinetics.csv');
+  const interactionsCsvPath = path.join(dataDir, 'interactions.csv');
   const outputDir = path.join(__dirname, '..', 'lib', 'data');
   
   // Create output directory if it doesn't exist
@@ -268,8 +562,26 @@ try {
     fs.mkdirSync(outputDir, { recursive: true });
   }
   
-  console.log('Parsing CSV:', csvPath);
-  const { compounds, searchIndex } = processCSV(csvPath);
+  // Records in precedence order, so earlier sources name the merged compound
+  const sources = [
+    [masterCsvPath, loadMasterSheet],
+    [balancedCsvPath, loadBalancedSheet],
+    [commonJsonPath, loadCommonCompounds],
+  ];
+  const records = sources.flatMap(([sourcePath, load]) => {
+    if (!fs.existsSync(sourcePath)) {
+      console.warn(`Source not found, skipping: ${sourcePath}`);
+      return [];
+    }
+    const loaded = load(sourcePath);
+    console.log(`Loaded ${loaded.length} records from ${path.basename(sourcePath)}`);
+    return loaded;
+  });
+  records.sort((a, b) => SOURCE_PRECEDENCE.indexOf(a.source) - SOURCE_PRECEDENCE.indexOf(b.source));
+  
+  const pkProfiles = loadPharmacokineticProfiles(pkCsvPath);
+  const { compounds, searchIndex, conflicts } = buildCompounds(records, pkProfiles);
+  const interactions = loadInteractions(interactionsCsvPath, compounds);
   
   // Write compounds data
   const compoundsPath = path.join(outputDir, 'compounds.json');
@@ -281,6 +593,22 @@ try {
   fs.writeFileSync(indexPath, JSON.stringify(searchIndex, null, 2));
   console.log(`✓ Wrote search index to ${indexPath}`);
   
+  // Write interaction matrix
+  const interactionsPath = path.join(outputDir, 'interactions.json');
+  fs.writeFileSync(interactionsPath, JSON.stringify(interactions, null, 2));
+  console.log(`✓ Wrote ${interactions.length} interactions to ${interactionsPath}`);
+  
+  // Write conflict report: where sources disagree and which value won
+  const conflictsPath = path.join(outputDir, 'compound-conflicts.json');
+  fs.writeFileSync(conflictsPath, JSON.stringify(conflicts, null, 2));
+  const byField = {};
+  conflicts.forEach(conflict => {
+    const key = conflict.type === 'field' ? conflict.field : conflict.type;
+    byField[key] = (byField[key] || 0) + 1;
+  });
+  console.log(`✓ Wrote ${conflicts.length} source conflicts to ${conflictsPath}`);
+  Object.entries(byField).forEach(([field, count]) => console.log(`   - ${field}: ${count}`));
+  
   console.log('\n✅ Compound index generation complete!');
 } catch (error) {
   console.error('❌ Error generating compound index:', error);
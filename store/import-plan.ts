@@ -0,0 +1,263 @@
+import type { AppSettings, Compound, DoseSchedule, LogAuditEvent, LogEntry, StackPreset } from '@/lib/types';
+import { ExportDataSchema, type ExportData } from './schema';
+import { STORAGE_VERSION, runMigrations } from './migrations';
+
+/**
+ * Import Planning
+ *
+ * Backups from older versions are upgraded by the store's migrations, then
+ * validated against the export schema and combined with the current data by
+ * a merge strategy. planImport is a dry run: it reports what each strategy
+ * would add, update, keep or remove, and carries the merged data so applying
+ * the import is a single importData call.
+ */
+
+export type ImportStrategy = 'replace' | 'merge-by-id' | 'keep-newest';
+
+export const IMPORT_STRATEGIES: Record<ImportStrategy, { label: string; description: string }> = {
+  replace: {
+    label: 'Replace',
+    description: 'Sections in the file replace your current data; anything missing from the file is removed',
+  },
+  'merge-by-id': {
+    label: 'Merge by ID',
+    description: 'Add new items; items with the same ID are overwritten by the file',
+  },
+  'keep-newest': {
+    label: 'Keep newest',
+    description: 'Add new items; for items with the same ID keep whichever was created or logged last',
+  },
+};
+
+export interface CollectionPlan<T> {
+  added: T[];
+  /** Same ID, different content; the file's version will be used */
+  updated: T[];
+  /** Same ID, different content; the current version is kept */
+  conflicts: T[];
+  /** Only with the replace strategy */
+  removed: T[];
+  unchanged: number;
+  /** The collection after the import */
+  result: T[];
+}
+
+export interface ImportPlan {
+  strategy: ImportStrategy;
+  compounds: CollectionPlan<Compound>;
+  stackPresets: CollectionPlan<StackPreset>;
+  logEntries: CollectionPlan<LogEntry>;
+  logAudit: CollectionPlan<LogAuditEvent>;
+  schedules: CollectionPlan<DoseSchedule>;
+  settingsChanged: (keyof AppSettings)[];
+  /** Problems that don't block the import (e.g. logs referencing unknown compounds) */
+  warnings: string[];
+  /** State to hand to importData */
+  data: {
+    compounds: Compound[];
+    stackPresets: StackPreset[];
+    logEntries: LogEntry[];
+    logAudit: LogAuditEvent[];
+    schedules: DoseSchedule[];
+    settings: AppSettings;
+  };
+}
+
+export type ParsedBackup =
+  | { success: true; data: ExportData }
+  | { success: false; errors: string[] };
+
+/**
+ * Parse and validate a backup file's contents (an export or a migration
+ * recovery copy)
+ */
+export function parseBackup(json: string): ParsedBackup {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(json);
+  } catch {
+    return { success: false, errors: ['File is not valid JSON'] };
+  }
+
+  if (raw && typeof raw === 'object' && !Array.isArray(raw)) {
+    // Recovery copies from a failed migration hold the persisted blob, { state, version }
+    const { state, version: blobVersion } = raw as Record<string, unknown>;
+    if (state && typeof state === 'object' && typeof blobVersion === 'number') {
+      raw = { ...state, version: blobVersion };
+    }
+
+    // Unversioned backups predate the versioned store
+    const version = (raw as Record<string, unknown>).version ?? 0;
+    if (typeof version === 'number' && version < STORAGE_VERSION) {
+      try {
+        raw = upgradeBackup(raw as Record<string, unknown>, version);
+      } catch (error) {
+        return { success: false, errors: [error instanceof Error ? error.message : String(error)] };
+      }
+    }
+  }
+
+  const result = ExportDataSchema.safeParse(raw);
+  if (!result.success) {
+    return {
+      success: false,
+      errors: result.error.issues
+        .slice(0, 5)
+        .map(issue => `${issue.path.join('.') || 'File'}: ${issue.message}`),
+    };
+  }
+
+  const data = result.data;
+  if (data.version !== undefined && data.version > STORAGE_VERSION) {
+    return { success: false, errors: [`Backup is from a newer version of the app (version ${data.version})`] };
+  }
+  if (!data.compounds && !data.stackPresets && !data.logEntries && !data.schedules && !data.settings) {
+    return { success: false, errors: ['Backup contains no compounds, presets, logs, schedules or settings'] };
+  }
+  return { success: true, data };
+}
+
+const BACKUP_SECTIONS = ['compounds', 'stackPresets', 'logEntries', 'logAudit', 'schedules'] as const;
+
+/**
+ * Run an older backup through the store's migrations
+ *
+ * Sections and settings missing from the file are filled with empty data so
+ * every step validates, then left out again so the import doesn't touch them.
+ */
+function upgradeBackup(backup: Record<string, unknown>, fromVersion: number): Record<string, unknown> {
+  const empty = runMigrations({}, 0);
+  const sections = BACKUP_SECTIONS.filter(key => backup[key] !== undefined);
+  const settings = (backup.settings ?? {}) as Record<string, unknown>;
+  const upgraded = runMigrations(
+    {
+      ...empty,
+      ...Object.fromEntries(sections.map(key => [key, backup[key]])),
+      settings: { ...empty.settings, ...settings },
+    },
+    fromVersion
+  );
+
+  return {
+    version: STORAGE_VERSION,
+    exportedAt: backup.exportedAt,
+    ...Object.fromEntries(sections.map(key => [key, upgraded[key]])),
+    settings: backup.settings
+      ? Object.fromEntries(Object.keys(settings).map(key => [key, upgraded.settings[key as keyof AppSettings]]))
+      : undefined,
+  };
+}
+
+// Key order doesn't matter when comparing items
+function sameContent(a: unknown, b: unknown): boolean {
+  const canonical = (value: unknown): unknown =>
+    Array.isArray(value)
+      ? value.map(canonical)
+      : value && typeof value === 'object'
+        ? Object.fromEntries(
+            Object.entries(value)
+              .filter(([, v]) => v !== undefined)
+              .sort(([x], [y]) => x.localeCompare(y))
+              .map(([k, v]) => [k, canonical(v)])
+          )
+        : value;
+  return JSON.stringify(canonical(a)) === JSON.stringify(canonical(b));
+}
+
+function planCollection<T extends { id: string }>(
+  current: T[],
+  incoming: T[] | undefined,
+  strategy: ImportStrategy,
+  timestampOf: (item: T) => number
+): CollectionPlan<T> {
+  const plan: CollectionPlan<T> = { added: [], updated: [], conflicts: [], removed: [], unchanged: 0, result: current };
+  if (!incoming) {
+    plan.unchanged = current.length;
+    return plan;
+  }
+
+  const currentById = new Map(current.map(item => [item.id, item]));
+  const incomingIds = new Set(incoming.map(item => item.id));
+  const resultById = new Map(strategy === 'replace' ? [] : current.map(item => [item.id, item]));
+
+  incoming.forEach(item => {
+    const existing = currentById.get(item.id);
+    if (!existing) {
+      plan.added.push(item);
+      resultById.set(item.id, item);
+    } else if (sameContent(existing, item)) {
+      plan.unchanged++;
+      resultById.set(item.id, existing);
+    } else if (strategy === 'keep-newest' && timestampOf(item) <= timestampOf(existing)) {
+      plan.conflicts.push(item);
+    } else {
+      plan.updated.push(item);
+      resultById.set(item.id, item);
+    }
+  });
+
+  if (strategy === 'replace') {
+    plan.removed = current.filter(item => !incomingIds.has(item.id));
+  }
+
+  plan.result = [...resultById.values()];
+  return plan;
+}
+
+/**
+ * Dry-run an import
+ *
+ * @param current The store's current data (see exportData)
+ * @param incoming A validated backup (see parseBackup)
+ * @param strategy How to combine items that exist on both sides
+ */
+export function planImport(
+  current: ImportPlan['data'],
+  incoming: ExportData,
+  strategy: ImportStrategy
+): ImportPlan {
+  const compounds = planCollection(current.compounds, incoming.compounds, strategy, c => c.createdAt);
+  const stackPresets = planCollection(current.stackPresets, incoming.stackPresets, strategy, p => p.createdAt);
+  const logEntries = planCollection(current.logEntries, incoming.logEntries, strategy, l => l.timestamp);
+  const schedules = planCollection(current.schedules, incoming.schedules, strategy, s => s.createdAt);
+  const logAudit = planCollection(current.logAudit, incoming.logAudit, strategy, e => e.at);
+
+  const settings = { ...current.settings, ...incoming.settings };
+  const settingsChanged = (Object.keys(settings) as (keyof AppSettings)[]).filter(
+    key => !sameContent(settings[key], current.settings[key])
+  );
+
+  const warnings: string[] = [];
+  const compoundIds = new Set(compounds.result.map(c => c.id));
+  const orphanedLogs = logEntries.result.filter(log =>
+    log.doseItems.some(item => !compoundIds.has(item.compoundId))
+  ).length;
+  if (orphanedLogs > 0) {
+    warnings.push(`${orphanedLogs} log ${orphanedLogs === 1 ? 'entry references' : 'entries reference'} compounds that won't exist after the import`);
+  }
+  const orphanedPresets = stackPresets.result.filter(preset =>
+    preset.doseItems.some(item => !compoundIds.has(item.compoundId))
+  ).length;
+  if (orphanedPresets > 0) {
+    warnings.push(`${orphanedPresets} preset${orphanedPresets === 1 ? '' : 's'} reference compounds that won't exist after the import`);
+  }
+
+  return {
+    strategy,
+    compounds,
+    stackPresets,
+    logEntries,
+    logAudit,
+    schedules,
+    settingsChanged,
+    warnings,
+    data: {
+      compounds: compounds.result,
+      stackPresets: stackPresets.result,
+      logEntries: logEntries.result,
+      logAudit: logAudit.result.sort((a, b) => a.at - b.at),
+      schedules: schedules.result,
+      settings,
+    },
+  };
+}
@@ -0,0 +1,272 @@
+import { z } from 'zod';
+import { DEFAULT_BEDTIME } from '@/lib/sleep-forecast';
+import { DEFAULT_WAKE_TIME } from '@/lib/dose-planner';
+import { DEFAULT_AUTO_LOCK_MINUTES } from '@/lib/passcode';
+import { getDeviceTimeZone, toLocalDateString } from '@/lib/dates';
+import { DEFAULT_INTERACTION_WINDOW_HOURS } from '@/lib/dose-safety';
+import { AppSettingsSchema, PersistedStateSchema, type PersistedState } from './schema';
+import { BACKUP_KEY, readVaultItem, removeVaultItem, writeVaultItem } from './secure-storage';
+
+/**
+ * Persisted-State Migrations
+ *
+ * The store is saved with a schema version. Each migration upgrades the
+ * state by exactly one version and declares the schema its output must
+ * satisfy; steps run in order from the stored version. If a step throws or
+ * its output fails validation, the pre-migration state is kept (encrypted,
+ * like the store) under BACKUP_KEY so the data can be recovered from Settings.
+ */
+
+type UnknownState = Record<string, unknown>;
+
+interface Migration {
+  /** Version this step produces */
+  version: number;
+  description: string;
+  migrate: (state: UnknownState) => UnknownState;
+  schema: z.ZodType;
+}
+
+const asArray = (value: unknown): UnknownState[] =>
+  Array.isArray(value) ? value.filter((item): item is UnknownState => !!item && typeof item === 'object') : [];
+
+const asNumber = (value: unknown, fallback: number): number => {
+  const number = typeof value === 'string' ? Number(value) : value;
+  return typeof number === 'number' && Number.isFinite(number) ? number : fallback;
+};
+
+// Drops PK fields left empty or non-numeric by the edit dialog
+function cleanProfile(profile: unknown): UnknownState | undefined {
+  if (!profile || typeof profile !== 'object') return undefined;
+  const cleaned = Object.fromEntries(
+    Object.entries(profile as UnknownState).filter(([key, value]) =>
+      key === 'formulation' || key === 'source'
+        ? typeof value === 'string' && value !== ''
+        : typeof value === 'number' && Number.isFinite(value) && value > 0
+    )
+  );
+  return Object.keys(cleaned).length > 0 ? cleaned : undefined;
+}
+
+// Versions before 7 had no interaction window setting, before 6 no log audit trail, before 5 no time
+// zone settings, before 4 no schedules, before 3 no auto-lock setting; version 1 also kept the PIN in plaintext
+const AppSettingsSchemaV6 = AppSettingsSchema.omit({ interactionWindowHours: true });
+const PersistedStateSchemaV6 = PersistedStateSchema.extend({ settings: AppSettingsSchemaV6 });
+const PersistedStateSchemaV5 = PersistedStateSchemaV6.omit({ logAudit: true });
+const AppSettingsSchemaV4 = AppSettingsSchemaV6.omit({ homeTimeZone: true, travel: true });
+const PersistedStateSchemaV4 = PersistedStateSchemaV5.extend({ settings: AppSettingsSchemaV4 });
+const PersistedStateSchemaV3 = PersistedStateSchemaV4.omit({ schedules: true });
+const PersistedStateSchemaV2 = PersistedStateSchemaV3.extend({
+  settings: AppSettingsSchemaV4.omit({ autoLockMinutes: true }),
+});
+const PersistedStateSchemaV1 = PersistedStateSchemaV2.extend({
+  pin: z.string().nullable(),
+  isAuthenticated: z.boolean().optional(),
+});
+
+const MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    description: 'Version the store; add sleep/wake settings and normalise numeric fields',
+    migrate: state => {
+      const settings = (state.settings ?? {}) as UnknownState;
+      return {
+        ...state,
+        pin: typeof state.pin === 'string' ? state.pin : null,
+        compounds: asArray(state.compounds).map(compound => ({
+          ...compound,
+          defaultDose: asNumber(compound.defaultDose, 0),
+          pharmacokinetics: cleanProfile(compound.pharmacokinetics),
+        })),
+        stackPresets: asArray(state.stackPresets).map(preset => ({
+          ...preset,
+          doseItems: asArray(preset.doseItems).map(item => ({ ...item, dose: asNumber(item.dose, 0) })),
+        })),
+        logEntries: asArray(state.logEntries).map(entry => ({
+          ...entry,
+          notes: typeof entry.notes === 'string' ? entry.notes : '',
+          doseItems: asArray(entry.doseItems).map(item => ({
+            ...item,
+            dose: asNumber(item.dose, 0),
+            timestamp: asNumber(item.timestamp, asNumber(entry.timestamp, 0)),
+          })),
+        })),
+        settings: {
+          geminiApiKey: '',
+          theme: 'cyberpunk',
+          ...settings,
+          bedtime: typeof settings.bedtime === 'string' ? settings.bedtime : DEFAULT_BEDTIME,
+          wakeTime: typeof settings.wakeTime === 'string' ? settings.wakeTime : DEFAULT_WAKE_TIME,
+        },
+      };
+    },
+    schema: PersistedStateSchemaV1,
+  },
+  {
+    version: 2,
+    description: 'Drop the plaintext PIN; it is now a salted hash in the vault envelope',
+    migrate: state =>
+      Object.fromEntries(Object.entries(state).filter(([key]) => key !== 'pin' && key !== 'isAuthenticated')),
+    schema: PersistedStateSchemaV2,
+  },
+  {
+    version: 3,
+    description: 'Add the auto-lock timeout',
+    migrate: state => ({
+      ...state,
+      settings: { autoLockMinutes: DEFAULT_AUTO_LOCK_MINUTES, ...(state.settings as UnknownState) },
+    }),
+    schema: PersistedStateSchemaV3,
+  },
+  {
+    version: 4,
+    description: 'Add recurring dose schedules',
+    migrate: state => ({ ...state, schedules: Array.isArray(state.schedules) ? state.schedules : [] }),
+    schema: PersistedStateSchemaV4,
+  },
+  {
+    version: 5,
+    description: 'Store log dates as local calendar days (they were UTC) and add time zone settings',
+    migrate: state => ({
+      ...state,
+      // The device's zone is the best guess for where existing entries were logged
+      logEntries: asArray(state.logEntries).map(log =>
+        typeof log.timestamp === 'number' ? { ...log, date: toLocalDateString(log.timestamp) } : log
+      ),
+      settings: { homeTimeZone: getDeviceTimeZone(), travel: null, ...(state.settings as UnknownState) },
+    }),
+    schema: PersistedStateSchemaV5,
+  },
+  {
+    version: 6,
+    description: 'Add the log audit trail',
+    migrate: state => ({ ...state, logAudit: Array.isArray(state.logAudit) ? state.logAudit : [] }),
+    schema: PersistedStateSchemaV6,
+  },
+  {
+    version: 7,
+    description: 'Add the interaction look-back window for the pre-save safety check',
+    migrate: state => ({
+      ...state,
+      settings: { interactionWindowHours: DEFAULT_INTERACTION_WINDOW_HOURS, ...(state.settings as UnknownState) },
+    }),
+    schema: PersistedStateSchema,
+  },
+];
+
+/** Current schema version of the persisted store */
+export const STORAGE_VERSION = MIGRATIONS[MIGRATIONS.length - 1].version;
+
+export class MigrationError extends Error {
+  constructor(
+    message: string,
+    public readonly fromVersion: number,
+    public readonly failedVersion: number
+  ) {
+    super(message);
+    this.name = 'MigrationError';
+  }
+}
+
+export interface MigrationBackup {
+  /** Version of the blob that failed to migrate */
+  version: number;
+  /** Step that failed */
+  failedVersion: number;
+  error: string;
+  createdAt: number;
+  /** Persisted blob ({ state, version }) as it was before migrating */
+  raw: string;
+}
+
+function saveBackup(persistedState: unknown, error: MigrationError) {
+  if (typeof window === 'undefined') return;
+  const backup: MigrationBackup = {
+    version: error.fromVersion,
+    failedVersion: error.failedVersion,
+    error: error.message,
+    createdAt: Date.now(),
+    raw: JSON.stringify({ state: persistedState, version: error.fromVersion }),
+  };
+  writeVaultItem(BACKUP_KEY, JSON.stringify(backup)).catch(storageError =>
+    console.error('Could not save migration backup:', storageError)
+  );
+}
+
+/**
+ * Run the migration steps from `fromVersion` to STORAGE_VERSION
+ *
+ * Throws a MigrationError if a step fails or its output doesn't validate.
+ * Has no side effects, so backups being imported can be upgraded too.
+ */
+export function runMigrations(persistedState: unknown, fromVersion: number): PersistedState {
+  if (fromVersion > STORAGE_VERSION) {
+    throw new MigrationError(
+      `Stored data is version ${fromVersion}, newer than this app (version ${STORAGE_VERSION})`,
+      fromVersion,
+      fromVersion
+    );
+  }
+
+  let state = (persistedState ?? {}) as UnknownState;
+  for (const step of MIGRATIONS.filter(migration => migration.version > fromVersion)) {
+    try {
+      state = step.migrate(state);
+    } catch (error) {
+      throw new MigrationError(
+        `Migration to version ${step.version} failed: ${error instanceof Error ? error.message : String(error)}`,
+        fromVersion,
+        step.version
+      );
+    }
+
+    const result = step.schema.safeParse(state);
+    if (!result.success) {
+      const issue = result.error.issues[0];
+      throw new MigrationError(
+        `Migration to version ${step.version} produced invalid data at ${issue.path.join('.') || 'root'}: ${issue.message}`,
+        fromVersion,
+        step.version
+      );
+    }
+  }
+
+  return state as PersistedState;
+}
+
+/**
+ * Upgrade a persisted state from `fromVersion` to STORAGE_VERSION
+ *
+ * Used as the persist middleware's `migrate`. Throws a MigrationError (after
+ * saving a backup) if any step fails, so the store starts empty instead of
+ * loading half-migrated data.
+ */
+export function migratePersistedState(persistedState: unknown, fromVersion: number): PersistedState {
+  try {
+    return runMigrations(persistedState, fromVersion);
+  } catch (error) {
+    const migrationError = error instanceof MigrationError
+      ? error
+      : new MigrationError(String(error), fromVersion, STORAGE_VERSION);
+    saveBackup(persistedState, migrationError);
+    console.error(migrationError);
+    throw migrationError;
+  }
+}
+
+/**
+ * Backup left by a failed migration, if any (null while locked)
+ */
+export async function getMigrationBackup(): Promise<MigrationBackup | null> {
+  try {
+    const stored = await readVaultItem(BACKUP_KEY);
+    return stored ? (JSON.parse(stored) as MigrationBackup) : null;
+  } catch {
+    return null;
+  }
+}
+
+export function clearMigrationBackup(): Promise<void> {
+  if (typeof window === 'undefined') return Promise.resolve();
+  return removeVaultItem(BACKUP_KEY).catch(error => console.error('Could not remove migration backup:', error));
+}
@@ -0,0 +1,169 @@
+import { z } from 'zod';
+import { FORMULATIONS, type Formulation } from '@/lib/compound-types';
+
+/**
+ * Zod schemas for the persisted store (current storage version)
+ *
+ * Mirror the interfaces in lib/types.ts; migrations validate their output
+ * against these before handing state to the store.
+ */
+
+export const PharmacokineticProfileSchema = z.object({
+  halfLifeHours: z.number().positive().optional(),
+  tmaxHours: z.number().positive().optional(),
+  bioavailability: z.number().min(0).max(1).optional(),
+  formulation: z.enum(Object.keys(FORMULATIONS) as [Formulation, ...Formulation[]]).optional(),
+  source: z.string().optional(),
+});
+
+const DoseUnitSchema = z.enum(['mg', 'ml', 'g', 'pills', 'mcg', 'IU']);
+
+const StrengthSchema = z.object({ amount: z.number().positive(), unit: z.enum(['mcg', 'mg', 'g']) });
+
+export const CompoundInventorySchema = z.object({
+  quantity: z.number().min(0),
+  unit: DoseUnitSchema.optional(),
+  strength: StrengthSchema.optional(),
+  packageSize: z.number().positive().optional(),
+  purchaseDate: z.string().optional(),
+  cost: z.number().min(0).optional(),
+  lowStockDays: z.number().min(0).optional(),
+  prescription: z
+    .object({
+      refillDate: z.string().optional(),
+      refillsRemaining: z.number().int().min(0).optional(),
+    })
+    .optional(),
+});
+
+export const CycleProtocolSchema = z.object({
+  onDays: z.number().int().min(1),
+  offDays: z.number().int().min(1),
+  startDate: z.string(),
+});
+
+export const CompoundSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  defaultDose: z.number(),
+  unit: DoseUnitSchema,
+  strength: StrengthSchema.optional(),
+  colorHex: z.string(),
+  isActive: z.boolean(),
+  createdAt: z.number(),
+  libraryId: z.string().optional(),
+  pharmacokinetics: PharmacokineticProfileSchema.optional(),
+  inventory: CompoundInventorySchema.optional(),
+  cycle: CycleProtocolSchema.optional(),
+  limits: z
+    .object({
+      maxDailyDose: z.number().positive().optional(),
+      minIntervalHours: z.number().positive().optional(),
+    })
+    .optional(),
+});
+
+export const DoseItemSchema = z.object({
+  compoundId: z.string(),
+  dose: z.number(),
+  timestamp: z.number(),
+});
+
+export const StackPresetSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  doseItems: z.array(z.object({ compoundId: z.string(), dose: z.number() })),
+  colorHex: z.string(),
+  createdAt: z.number(),
+  cycle: CycleProtocolSchema.optional(),
+});
+
+export const LogEntrySchema = z.object({
+  id: z.string(),
+  date: z.string(),
+  timestamp: z.number(),
+  doseItems: z.array(DoseItemSchema),
+  anxiety: z.number(),
+  functionality: z.number(),
+  notes: z.string(),
+  presetId: z.string().optional(),
+  timeZone: z.string().optional(),
+  safetyOverride: z.object({ issues: z.array(z.string()), note: z.string() }).optional(),
+  stockDeducted: z.record(z.string(), z.number().min(0)).optional(),
+});
+
+export const LogAuditEventSchema = z.object({
+  id: z.string(),
+  logId: z.string(),
+  action: z.enum(['create', 'update', 'delete']),
+  at: z.number(),
+  before: LogEntrySchema.optional(),
+  after: LogEntrySchema.optional(),
+});
+
+const clockTime = z.string().regex(/^\d{1,2}:\d{2}$/);
+
+export const DoseScheduleSchema = z.object({
+  id: z.string(),
+  target: z.discriminatedUnion('type', [
+    z.object({ type: z.literal('compound'), compoundId: z.string(), dose: z.number() }),
+    z.object({ type: z.literal('preset'), presetId: z.string() }),
+  ]),
+  timesOfDay: z.array(clockTime).min(1),
+  recurrence: z.discriminatedUnion('type', [
+    z.object({ type: z.literal('daily') }),
+    z.object({ type: z.literal('weekly'), daysOfWeek: z.array(z.number().int().min(0).max(6)).min(1) }),
+    z.object({ type: z.literal('interval'), everyDays: z.number().int().min(1) }),
+    z.object({ type: z.literal('cycle'), daysOn: z.number().int().min(1), daysOff: z.number().int().min(0) }),
+  ]),
+  startDate: z.string(),
+  endDate: z.string().optional(),
+  isActive: z.boolean(),
+  createdAt: z.number(),
+});
+
+export const AppSettingsSchema = z.object({
+  geminiApiKey: z.string(),
+  theme: z.enum(['cyberpunk', 'clinical']),
+  bedtime: clockTime,
+  wakeTime: clockTime,
+  autoLockMinutes: z.number().min(0),
+  homeTimeZone: z.string().min(1),
+  travel: z
+    .object({
+      timeZone: z.string().min(1),
+      startDate: z.string(),
+      endDate: z.string().optional(),
+      strategy: z.enum(['home', 'local', 'gradual']),
+    })
+    .nullable(),
+  interactionWindowHours: z.number().positive(),
+});
+
+export const PersistedStateSchema = z.object({
+  compounds: z.array(CompoundSchema),
+  stackPresets: z.array(StackPresetSchema),
+  logEntries: z.array(LogEntrySchema),
+  logAudit: z.array(LogAuditEventSchema),
+  schedules: z.array(DoseScheduleSchema),
+  settings: AppSettingsSchema,
+});
+
+export type PersistedState = z.infer<typeof PersistedStateSchema>;
+
+/**
+ * Backup file written by exportData
+ * Every section is optional so partial backups can still be merged in.
+ */
+export const ExportDataSchema = z.object({
+  version: z.number().int().optional(), // Storage version at export; absent in older backups
+  exportedAt: z.number().optional(),
+  compounds: z.array(CompoundSchema).optional(),
+  stackPresets: z.array(StackPresetSchema).optional(),
+  logEntries: z.array(LogEntrySchema).optional(),
+  logAudit: z.array(LogAuditEventSchema).optional(),
+  schedules: z.array(DoseScheduleSchema).optional(),
+  settings: AppSettingsSchema.partial().optional(),
+});
+
+export type ExportData = z.infer<typeof ExportDataSchema>;
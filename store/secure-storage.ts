@@ -0,0 +1,294 @@
+import type { PersistStorage, StorageValue } from 'zustand/middleware';
+import {
+  PBKDF2_ITERATIONS,
+  decryptString,
+  deriveKey,
+  encryptString,
+  randomSalt,
+  verifyPin,
+  hashPin,
+  type EncryptedPayload,
+} from '@/lib/crypto';
+import type { PasscodeType } from '@/lib/passcode';
+
+/**
+ * Encrypted-at-Rest Storage
+ *
+ * The persisted store lives in localStorage as a vault envelope: the PIN's
+ * salted hash and the key salt in the clear, the state AES-GCM encrypted with
+ * a key derived from the PIN. The key only exists in memory while unlocked;
+ * nothing can be read (or written) while locked.
+ *
+ * Stores from before encryption kept the PIN and state in plaintext. The
+ * first unlock checks the old PIN and encrypts them in place.
+ *
+ * Failed PIN checks are throttled: after a few free attempts each failure
+ * doubles the wait before the next one, tracked across reloads.
+ */
+
+export const STORAGE_KEY = 'neurostack-storage';
+export const BACKUP_KEY = 'neurostack-storage-backup';
+const ATTEMPTS_KEY = 'neurostack-unlock-attempts';
+
+/** Failed attempts before the first delay */
+export const FREE_UNLOCK_ATTEMPTS = 3;
+const BASE_LOCKOUT_MS = 30 * 1000;
+const MAX_LOCKOUT_MS = 60 * 60 * 1000;
+
+const VAULT_FORMAT = 'neurostack-vault';
+
+interface VaultHeader {
+  format: typeof VAULT_FORMAT;
+  iterations: number;
+  pinSalt: string;
+  pinHash: string;
+  keySalt: string;
+  passcodeType?: PasscodeType; // Absent in vaults created before passcode types ('pin4')
+}
+
+interface VaultEnvelope extends VaultHeader {
+  payload: EncryptedPayload;
+}
+
+export type VaultStatus = 'unset' | 'locked' | 'legacy';
+
+let session: { header: VaultHeader; key: CryptoKey } | null = null;
+
+// Encryption is async; queue writes and key changes so they land in call order
+let queue: Promise<unknown> = Promise.resolve();
+
+function enqueue<T>(task: () => Promise<T>): Promise<T> {
+  const run = queue.then(task);
+  queue = run.catch(error => console.error('Vault storage error:', error));
+  return run;
+}
+
+function readJson(name: string): unknown {
+  try {
+    const stored = localStorage.getItem(name);
+    return stored ? JSON.parse(stored) : null;
+  } catch {
+    return null;
+  }
+}
+
+function isEnvelope(value: unknown): value is VaultEnvelope {
+  return !!value && typeof value === 'object' && (value as VaultEnvelope).format === VAULT_FORMAT;
+}
+
+function headerOf({ format, iterations, pinSalt, pinHash, keySalt, passcodeType }: VaultHeader): VaultHeader {
+  return { format, iterations, pinSalt, pinHash, keySalt, passcodeType };
+}
+
+interface UnlockAttempts {
+  failures: number;
+  lockedUntil: number;
+}
+
+function readAttempts(): UnlockAttempts {
+  const stored = readJson(ATTEMPTS_KEY) as Partial<UnlockAttempts> | null;
+  return { failures: stored?.failures ?? 0, lockedUntil: stored?.lockedUntil ?? 0 };
+}
+
+function recordFailure() {
+  const failures = readAttempts().failures + 1;
+  const excess = failures - FREE_UNLOCK_ATTEMPTS;
+  const lockedUntil = excess >= 0 ? Date.now() + Math.min(BASE_LOCKOUT_MS * 2 ** excess, MAX_LOCKOUT_MS) : 0;
+  localStorage.setItem(ATTEMPTS_KEY, JSON.stringify({ failures, lockedUntil }));
+}
+
+function resetFailures() {
+  localStorage.removeItem(ATTEMPTS_KEY);
+}
+
+/**
+ * Throttle state for the lock screen: failed attempts so far and, during a
+ * backoff, when the next attempt is allowed
+ */
+export function getUnlockThrottle(now: number = Date.now()): { failures: number; retryAt: number | null } {
+  if (typeof window === 'undefined') return { failures: 0, retryAt: null };
+  const { failures, lockedUntil } = readAttempts();
+  return { failures, retryAt: lockedUntil > now ? lockedUntil : null };
+}
+
+// Verify a PIN against a vault header, counting failures; false during a backoff
+async function checkPin(pin: string, header: VaultHeader): Promise<boolean> {
+  if (getUnlockThrottle().retryAt !== null) return false;
+  const valid = await verifyPin(pin, header.pinSalt, header.pinHash, header.iterations);
+  if (valid) resetFailures();
+  else recordFailure();
+  return valid;
+}
+
+async function createSession(pin: string, passcodeType: PasscodeType) {
+  const pinSalt = randomSalt();
+  const keySalt = randomSalt();
+  const header: VaultHeader = {
+    format: VAULT_FORMAT,
+    iterations: PBKDF2_ITERATIONS,
+    pinSalt,
+    pinHash: await hashPin(pin, pinSalt),
+    keySalt,
+    passcodeType,
+  };
+  return { header, key: await deriveKey(pin, keySalt) };
+}
+
+async function seal(plaintext: string, { header, key }: NonNullable<typeof session>): Promise<string> {
+  const envelope: VaultEnvelope = { ...header, payload: await encryptString(key, plaintext) };
+  return JSON.stringify(envelope);
+}
+
+/**
+ * Whether a PIN has been set up, and whether the data is already encrypted
+ */
+export function getVaultStatus(): VaultStatus {
+  if (typeof window === 'undefined') return 'unset';
+  const stored = readJson(STORAGE_KEY);
+  if (isEnvelope(stored)) return 'locked';
+  const legacyPin = (stored as { state?: { pin?: unknown } } | null)?.state?.pin;
+  return typeof legacyPin === 'string' ? 'legacy' : 'unset';
+}
+
+/**
+ * Kind of passcode the lock screen should ask for
+ */
+export function getPasscodeType(): PasscodeType {
+  if (typeof window === 'undefined') return 'pin4';
+  const stored = readJson(STORAGE_KEY);
+  return (isEnvelope(stored) && stored.passcodeType) || 'pin4';
+}
+
+export function isVaultUnlocked(): boolean {
+  return session !== null;
+}
+
+/**
+ * Set up the vault with a new PIN, encrypting any plaintext data already stored
+ */
+export function createVault(pin: string, passcodeType: PasscodeType = 'pin4'): Promise<void> {
+  return enqueue(async () => {
+    const next = await createSession(pin, passcodeType);
+    for (const name of [STORAGE_KEY, BACKUP_KEY]) {
+      const plaintext = localStorage.getItem(name);
+      if (plaintext && !isEnvelope(readJson(name))) {
+        localStorage.setItem(name, await seal(plaintext, next));
+      }
+    }
+    // An empty vault still records the PIN
+    if (!localStorage.getItem(STORAGE_KEY)) {
+      localStorage.setItem(STORAGE_KEY, await seal('null', next));
+    }
+    session = next;
+  });
+}
+
+/**
+ * Check the PIN and keep the derived key in memory
+ * Returns false for a wrong PIN or while a backoff is running (see getUnlockThrottle).
+ */
+export async function unlockVault(pin: string): Promise<boolean> {
+  const stored = readJson(STORAGE_KEY);
+
+  if (isEnvelope(stored)) {
+    if (!(await checkPin(pin, stored))) return false;
+    const key = await deriveKey(pin, stored.keySalt, stored.iterations);
+    await enqueue(async () => {
+      session = { header: headerOf(stored), key };
+    });
+    return true;
+  }
+
+  // Plaintext store from before encryption: compare with the old PIN once
+  if (getVaultStatus() === 'legacy') {
+    if (getUnlockThrottle().retryAt !== null) return false;
+    if ((stored as { state: { pin: string } }).state.pin !== pin) {
+      recordFailure();
+      return false;
+    }
+    resetFailures();
+    await createVault(pin);
+    return true;
+  }
+  return false;
+}
+
+/**
+ * Drop the key; writes already queued still complete first
+ */
+export function lockVault(): Promise<void> {
+  return enqueue(async () => {
+    session = null;
+  });
+}
+
+/**
+ * Re-encrypt everything under a new PIN or passcode
+ * Returns false if the vault is locked or the current PIN is wrong (throttled like unlocking).
+ */
+export async function changeVaultPin(
+  currentPin: string,
+  newPin: string,
+  passcodeType: PasscodeType = 'pin4'
+): Promise<boolean> {
+  const current = session;
+  if (!current || !(await checkPin(currentPin, current.header))) return false;
+  const next = await createSession(newPin, passcodeType);
+
+  await enqueue(async () => {
+    const active = session ?? current;
+    // Decrypt and re-seal everything first, then write in one go
+    const resealed: [string, string][] = [];
+    for (const name of [STORAGE_KEY, BACKUP_KEY]) {
+      const stored = readJson(name);
+      if (!isEnvelope(stored)) continue;
+      resealed.push([name, await seal(await decryptString(active.key, stored.payload), next)]);
+    }
+    resealed.forEach(([name, value]) => localStorage.setItem(name, value));
+    session = next;
+  });
+  return true;
+}
+
+/**
+ * Read and decrypt an item written by writeVaultItem (null while locked)
+ */
+export async function readVaultItem(name: string): Promise<string | null> {
+  await queue;
+  if (!session || typeof window === 'undefined') return null;
+  const stored = readJson(name);
+  if (stored === null) return null;
+  if (!isEnvelope(stored)) return localStorage.getItem(name);
+  return decryptString(session.key, stored.payload);
+}
+
+/**
+ * Encrypt and store an item; skipped while locked
+ */
+export function writeVaultItem(name: string, plaintext: string): Promise<void> {
+  return enqueue(async () => {
+    if (!session) return;
+    localStorage.setItem(name, await seal(plaintext, session));
+  });
+}
+
+/**
+ * Remove an item, after any writes already queued
+ */
+export function removeVaultItem(name: string): Promise<void> {
+  return enqueue(async () => localStorage.removeItem(name));
+}
+
+/**
+ * Persist storage for the zustand persist middleware, backed by the vault
+ */
+export function createVaultStorage<S>(): PersistStorage<S> {
+  return {
+    getItem: async name => {
+      const plaintext = await readVaultItem(name);
+      return plaintext ? (JSON.parse(plaintext) as StorageValue<S>) : null;
+    },
+    setItem: (name, value) => writeVaultItem(name, JSON.stringify(value)),
+    removeItem: removeVaultItem,
+  };
+}
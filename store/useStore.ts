@@ -1,39 +1,99 @@
 import { create } from 'zustand';
 import { persist } from 'zustand/middleware';
-import { AppState, Compound, StackPreset, LogEntry, DoseItem } from '@/lib/types';
+import { AppState, Compound, StackPreset, LogEntry, LogAuditEvent, DoseItem, DoseSchedule, TravelPlan } from '@/lib/types';
+import type { PersistedState } from './schema';
+import { deductStock, returnStock } from '@/lib/inventory';
+import { DEFAULT_BEDTIME } from '@/lib/sleep-forecast';
+import { DEFAULT_WAKE_TIME } from '@/lib/dose-planner';
+import { DEFAULT_AUTO_LOCK_MINUTES, type PasscodeType } from '@/lib/passcode';
+import { DEFAULT_INTERACTION_WINDOW_HOURS } from '@/lib/dose-safety';
+import { getDeviceTimeZone, toLocalDateString } from '@/lib/dates';
+import { getCurrentTimeZone } from '@/lib/travel';
+import { STORAGE_VERSION, migratePersistedState } from './migrations';
+import {
+  STORAGE_KEY,
+  changeVaultPin,
+  createVault,
+  createVaultStorage,
+  getVaultStatus,
+  lockVault,
+  unlockVault,
+} from './secure-storage';
+
+// Oldest audit events drop off beyond this, to keep the vault small
+const MAX_AUDIT_EVENTS = 1000;
+
+const appendAudit = (
+  audit: LogAuditEvent[],
+  logId: string,
+  action: LogAuditEvent['action'],
+  before?: LogEntry,
+  after?: LogEntry
+): LogAuditEvent[] =>
+  [
+    ...audit,
+    {
+      id: `audit_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+      logId,
+      action,
+      at: Date.now(),
+      before,
+      after,
+    },
+  ].slice(-MAX_AUDIT_EVENTS);
+
+const emptyData = () => ({
+  compounds: [],
+  stackPresets: [],
+  logEntries: [],
+  logAudit: [],
+  schedules: [],
+  settings: {
+    geminiApiKey: '',
+    theme: 'cyberpunk' as const,
+    bedtime: DEFAULT_BEDTIME,
+    wakeTime: DEFAULT_WAKE_TIME,
+    autoLockMinutes: DEFAULT_AUTO_LOCK_MINUTES,
+    homeTimeZone: getDeviceTimeZone(),
+    travel: null as TravelPlan | null,
+    interactionWindowHours: DEFAULT_INTERACTION_WINDOW_HOURS,
+  },
+});
 
 export const useStore = create<AppState>()(
   persist(
-    (set, get) => ({
-      // Initial state
-      pin: null,
+    (set, get, api) => ({
+      // Initial state (data is loaded from the vault on unlock)
+      hasPin: getVaultStatus() !== 'unset',
       isAuthenticated: false,
-      compounds: [],
-      stackPresets: [],
-      logEntries: [],
-      settings: {
-        geminiApiKey: '',
-        theme: 'cyberpunk',
-      },
+      migrationError: null,
+      ...emptyData(),
 
       // Auth Actions
-      setPin: (pin: string) => {
-        set({ pin, isAuthenticated: true });
+      setPin: async (pin: string, passcodeType?: PasscodeType) => {
+        await createVault(pin, passcodeType);
+        await api.persist.rehydrate();
+        set({ hasPin: true, isAuthenticated: true });
       },
 
-      authenticate: (pin: string) => {
-        const { pin: storedPin } = get();
-        if (storedPin === pin) {
-          set({ isAuthenticated: true });
-          return true;
-        }
-        return false;
+      authenticate: async (pin: string) => {
+        if (!(await unlockVault(pin))) return false;
+        await api.persist.rehydrate();
+        set({ hasPin: true, isAuthenticated: true });
+        return true;
       },
 
+      changePin: (currentPin: string, newPin: string, passcodeType?: PasscodeType) =>
+        changeVaultPin(currentPin, newPin, passcodeType),
+
       logout: () => {
-        set({ isAuthenticated: false });
+        // Pending writes finish first; clearing the data afterwards isn't persisted
+        lockVault();
+        set({ isAuthenticated: false, migrationError: null, ...emptyData() });
       },
 
+      dismissMigrationError: () => set({ migrationError: null }),
+
       // Compound Actions
       addCompound: (compound) => {
         const newCompound: Compound = {
@@ -67,6 +127,10 @@ export const useStore = create<AppState>()(
             ...log,
             doseItems: log.doseItems.filter((item) => item.compoundId !== id),
           })),
+          // Remove the compound's own schedules
+          schedules: state.schedules.filter(
+            (schedule) => schedule.target.type !== 'compound' || schedule.target.compoundId !== id
+          ),
         }));
       },
 
@@ -93,43 +157,101 @@ export const useStore = create<AppState>()(
       deletePreset: (id) => {
         set((state) => ({
           stackPresets: state.stackPresets.filter((p) => p.id !== id),
+          schedules: state.schedules.filter(
+            (schedule) => schedule.target.type !== 'preset' || schedule.target.presetId !== id
+          ),
         }));
       },
 
-      // Log Actions
-      addLog: (log) => {
-        const newLog: LogEntry = {
-          ...log,
-          id: `log_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
-          timestamp: Date.now(),
+      // Schedule Actions
+      addSchedule: (schedule) => {
+        const newSchedule: DoseSchedule = {
+          ...schedule,
+          id: `schedule_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+          createdAt: Date.now(),
         };
         set((state) => ({
-          logEntries: [...state.logEntries, newLog],
+          schedules: [...state.schedules, newSchedule],
         }));
       },
 
-      updateLog: (id, updates) => {
+      updateSchedule: (id, updates) => {
         set((state) => ({
-          logEntries: state.logEntries.map((l) =>
-            l.id === id ? { ...l, ...updates } : l
+          schedules: state.schedules.map((s) =>
+            s.id === id ? { ...s, ...updates } : s
           ),
         }));
       },
 
-      deleteLog: (id) => {
+      deleteSchedule: (id) => {
         set((state) => ({
-          logEntries: state.logEntries.filter((l) => l.id !== id),
+          schedules: state.schedules.filter((s) => s.id !== id),
         }));
       },
 
-      logPreset: (presetId, anxiety, functionality, notes = '') => {
-        const { stackPresets } = get();
+      // Log Actions
+      addLog: (log) => {
+        set((state) => {
+          const { compounds, deducted } = deductStock(state.compounds, log.doseItems);
+          const newLog: LogEntry = {
+            ...log,
+            id: `log_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+            timestamp: log.timestamp ?? Date.now(),
+            timeZone: log.timeZone ?? getCurrentTimeZone(state.settings),
+            stockDeducted: deducted,
+          };
+          return {
+            // Backdated entries go in chronological order
+            logEntries: [...state.logEntries, newLog].sort((a, b) => a.timestamp - b.timestamp),
+            logAudit: appendAudit(state.logAudit, newLog.id, 'create', undefined, newLog),
+            compounds,
+          };
+        });
+      },
+
+      updateLog: (id, updates) => {
+        set((state) => {
+          const previous = state.logEntries.find((l) => l.id === id);
+          if (!previous) return {};
+          let updated = { ...previous, ...updates, id };
+          let compounds = state.compounds;
+          // Return what the old doses took from stock and take the new ones
+          if (updates.doseItems) {
+            const restocked = deductStock(returnStock(state.compounds, previous), updates.doseItems);
+            compounds = restocked.compounds;
+            updated = { ...updated, stockDeducted: restocked.deducted };
+          }
+          return {
+            compounds,
+            logEntries: state.logEntries
+              .map((l) => (l.id === id ? updated : l))
+              .sort((a, b) => a.timestamp - b.timestamp),
+            logAudit: appendAudit(state.logAudit, id, 'update', previous, updated),
+          };
+        });
+      },
+
+      deleteLog: (id) => {
+        set((state) => {
+          const removed = state.logEntries.find((l) => l.id === id);
+          if (!removed) return {};
+          return {
+            compounds: returnStock(state.compounds, removed),
+            logEntries: state.logEntries.filter((l) => l.id !== id),
+            logAudit: appendAudit(state.logAudit, id, 'delete', removed),
+          };
+        });
+      },
+
+      logPreset: (presetId, anxiety, functionality, notes = '', safetyOverride) => {
+        const { stackPresets, settings } = get();
         const preset = stackPresets.find((p) => p.id === presetId);
         
         if (!preset) return;
 
         const now = Date.now();
-        const date = new Date(now).toISOString().split('T')[0];
+        const timeZone = getCurrentTimeZone(settings, now);
+        const date = toLocalDateString(now, timeZone);
 
         const doseItems: DoseItem[] = preset.doseItems.map((item) => ({
           compoundId: item.compoundId,
@@ -137,20 +259,27 @@ export const useStore = create<AppState>()(
           timestamp: now,
         }));
 
-        const newLog: LogEntry = {
-          id: `log_${now}_${Math.random().toString(36).substr(2, 9)}`,
-          date,
-          timestamp: now,
-          doseItems,
-          anxiety,
-          functionality,
-          notes,
-          presetId,
-        };
-
-        set((state) => ({
-          logEntries: [...state.logEntries, newLog],
-        }));
+        set((state) => {
+          const { compounds, deducted } = deductStock(state.compounds, doseItems);
+          const newLog: LogEntry = {
+            id: `log_${now}_${Math.random().toString(36).substr(2, 9)}`,
+            date,
+            timestamp: now,
+            doseItems,
+            anxiety,
+            functionality,
+            notes,
+            presetId,
+            timeZone,
+            safetyOverride,
+            stockDeducted: deducted,
+          };
+          return {
+            logEntries: [...state.logEntries, newLog],
+            logAudit: appendAudit(state.logAudit, newLog.id, 'create', undefined, newLog),
+            compounds,
+          };
+        });
       },
 
       // Data Management
@@ -158,15 +287,20 @@ export const useStore = create<AppState>()(
         set((state) => ({
           ...state,
           ...data,
+          settings: { ...state.settings, ...data.settings },
         }));
       },
 
       exportData: () => {
-        const { compounds, stackPresets, logEntries, settings } = get();
+        const { compounds, stackPresets, logEntries, logAudit, schedules, settings } = get();
         return {
+          version: STORAGE_VERSION,
+          exportedAt: Date.now(),
           compounds,
           stackPresets,
           logEntries,
+          logAudit,
+          schedules,
           settings,
         };
       },
@@ -178,7 +312,33 @@ export const useStore = create<AppState>()(
       },
     }),
     {
-      name: 'neurostack-storage',
+      name: STORAGE_KEY,
+      version: STORAGE_VERSION,
+      storage: createVaultStorage(),
+      // Nothing can be read until the PIN unlocks the vault
+      skipHydration: true,
+      partialize: ({ compounds, stackPresets, logEntries, logAudit, schedules, settings }) => ({
+        compounds,
+        stackPresets,
+        logEntries,
+        logAudit,
+        schedules,
+        settings,
+      }),
+      migrate: (persisted, version) => migratePersistedState(persisted, version),
+      // The store starts empty when migrating fails; flag it so the app can say so
+      onRehydrateStorage: () => (_state, error) => {
+        if (error) useStore.setState({ migrationError: error instanceof Error ? error.message : String(error) });
+      },
+      // Keep defaults for settings added after the data was first persisted
+      merge: (persisted, current) => {
+        const persistedState = (persisted ?? {}) as Partial<PersistedState>;
+        return {
+          ...current,
+          ...persistedState,
+          settings: { ...current.settings, ...persistedState.settings },
+        };
+      },
     }
   )
 );